@@ -0,0 +1,36 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiClientsService } from './api-clients.service';
+import { CreateApiClientDto } from './dto/create-api-client.dto';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope } from '../common/enums';
+
+@Controller('api-clients')
+@RequireScopes(ApiScope.API_CLIENTS_MANAGE)
+export class ApiClientsController {
+  constructor(private readonly apiClientsService: ApiClientsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() dto: CreateApiClientDto) {
+    return this.apiClientsService.create(dto);
+  }
+
+  @Get()
+  findAll() {
+    return this.apiClientsService.findAll();
+  }
+
+  @Post(':id/revoke')
+  revoke(@Param('id', ParseUUIDPipe) id: string) {
+    return this.apiClientsService.revoke(id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiClient } from './entities/api-client.entity';
+import { ApiClientsService } from './api-clients.service';
+import { ApiClientsController } from './api-clients.controller';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ApiClient])],
+  controllers: [ApiClientsController],
+  providers: [ApiClientsService, { provide: APP_GUARD, useClass: ApiKeyGuard }],
+  exports: [ApiClientsService],
+})
+export class ApiClientsModule {}
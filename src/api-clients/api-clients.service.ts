@@ -0,0 +1,65 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiClient } from './entities/api-client.entity';
+import { CreateApiClientDto } from './dto/create-api-client.dto';
+
+const API_KEY_PREFIX = 'wk_';
+
+export function generateApiKey(): string {
+  return API_KEY_PREFIX + randomBytes(32).toString('base64url');
+}
+
+/**
+ * API keys are 256-bit random secrets, so a single SHA-256 is sufficient;
+ * a slow password hash would only add latency to every request.
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+@Injectable()
+export class ApiClientsService {
+  constructor(
+    @InjectRepository(ApiClient)
+    private readonly apiClientRepo: Repository<ApiClient>,
+  ) {}
+
+  /** Returns the plaintext key once; only its hash is persisted */
+  async create(
+    dto: CreateApiClientDto,
+  ): Promise<{ client: ApiClient; apiKey: string }> {
+    const apiKey = generateApiKey();
+    const client = await this.apiClientRepo.save(
+      this.apiClientRepo.create({
+        name: dto.name,
+        scopes: dto.scopes,
+        keyPrefix: apiKey.slice(0, 10),
+        keyHash: hashApiKey(apiKey),
+      }),
+    );
+    delete (client as Partial<ApiClient>).keyHash;
+    return { client, apiKey };
+  }
+
+  async findAll(): Promise<ApiClient[]> {
+    return this.apiClientRepo.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async revoke(id: string): Promise<ApiClient> {
+    const client = await this.apiClientRepo.findOne({ where: { id } });
+    if (!client) {
+      throw new NotFoundException(`API client ${id} not found`);
+    }
+    client.isActive = false;
+    return this.apiClientRepo.save(client);
+  }
+
+  /** Resolve an active client from a presented API key, or null */
+  async authenticate(apiKey: string): Promise<ApiClient | null> {
+    return this.apiClientRepo.findOne({
+      where: { keyHash: hashApiKey(apiKey), isActive: true },
+    });
+  }
+}
@@ -0,0 +1,21 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiScope } from '../../common/enums';
+
+export class CreateApiClientDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiScope, { each: true })
+  scopes: ApiScope[];
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiScope } from '../../common/enums';
+
+@Entity('api_clients')
+export class ApiClient {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100, unique: true })
+  name: string;
+
+  /** First characters of the key, shown in listings to identify it */
+  @Column({ name: 'key_prefix', type: 'varchar', length: 12 })
+  keyPrefix: string;
+
+  /** SHA-256 of the API key; the plaintext key is never stored */
+  @Column({
+    name: 'key_hash',
+    type: 'varchar',
+    length: 64,
+    unique: true,
+    select: false,
+  })
+  keyHash: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  scopes: ApiScope[];
+
+  @Column({ name: 'is_active', type: 'boolean', default: true })
+  isActive: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -1,20 +1,38 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduleModule } from '@nestjs/schedule';
 import { typeOrmConfig } from './config/database.config';
 import { UsersModule } from './users/users.module';
 import { AssetTypesModule } from './asset-types/asset-types.module';
 import { WalletsModule } from './wallets/wallets.module';
 import { TransactionsModule } from './transactions/transactions.module';
+import { IdempotencyModule } from './idempotency/idempotency.module';
+import { ApiClientsModule } from './api-clients/api-clients.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { IntegrityModule } from './integrity/integrity.module';
+import { StatementsModule } from './statements/statements.module';
+import { SchedulesModule } from './schedules/schedules.module';
+import { ExchangeRatesModule } from './exchange-rates/exchange-rates.module';
+import { SupplyModule } from './supply/supply.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true }),
     TypeOrmModule.forRootAsync(typeOrmConfig),
+    ScheduleModule.forRoot(),
     UsersModule,
     AssetTypesModule,
     WalletsModule,
     TransactionsModule,
+    IdempotencyModule,
+    ApiClientsModule,
+    WebhooksModule,
+    IntegrityModule,
+    StatementsModule,
+    SchedulesModule,
+    ExchangeRatesModule,
+    SupplyModule,
   ],
 })
 export class AppModule {}
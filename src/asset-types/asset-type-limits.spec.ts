@@ -0,0 +1,74 @@
+import { BadRequestException } from '@nestjs/common';
+import { AssetType } from './entities/asset-type.entity';
+import {
+  amountViolation,
+  assertPrecisionAllowed,
+  assertWithinMaxBalance,
+} from './asset-type-limits';
+import { toMinor } from '../common/utils/money';
+
+describe('asset type limits', () => {
+  const asset = (overrides: Partial<AssetType> = {}): AssetType =>
+    ({
+      code: 'DIAMONDS',
+      isActive: true,
+      decimalPlaces: 0,
+      minAmount: null,
+      maxAmount: null,
+      maxBalance: null,
+      ...overrides,
+    }) as AssetType;
+
+  describe('amountViolation', () => {
+    it('should require whole numbers for zero-decimal assets', () => {
+      expect(amountViolation(asset(), '1.5')).toBe(
+        'Amount for DIAMONDS must be a whole number',
+      );
+      expect(amountViolation(asset(), '2.0000')).toBeNull();
+    });
+
+    it('should enforce the asset decimal places', () => {
+      expect(amountViolation(asset({ decimalPlaces: 2 }), '1.005')).toBe(
+        'Amount for DIAMONDS allows at most 2 decimal places',
+      );
+    });
+
+    it('should reject any amount for an inactive asset', () => {
+      expect(amountViolation(asset({ isActive: false }), '1')).toBe(
+        'Asset type DIAMONDS is inactive',
+      );
+    });
+
+    it('should enforce min and max single-transaction amounts', () => {
+      const limited = asset({ minAmount: '10.0000', maxAmount: '500.0000' });
+      expect(amountViolation(limited, '9')).toContain('at least 10.0000');
+      expect(amountViolation(limited, '501')).toContain('at most 500.0000');
+      expect(amountViolation(limited, '500')).toBeNull();
+    });
+  });
+
+  it('should hold compensations to precision only', () => {
+    const limited = asset({ minAmount: '10.0000' });
+    expect(() => assertPrecisionAllowed(limited, '5')).not.toThrow();
+    expect(() => assertPrecisionAllowed(limited, '5.5')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  describe('assertWithinMaxBalance', () => {
+    it('should reject balances above the cap', () => {
+      expect(() =>
+        assertWithinMaxBalance('1000.0000', toMinor('1000.0001')),
+      ).toThrow('Balance limit exceeded. Max: 1000.0000, Resulting: 1000.0001');
+      expect(() =>
+        assertWithinMaxBalance('1000.0000', toMinor('1000')),
+      ).not.toThrow();
+    });
+
+    it('should ignore uncapped assets', () => {
+      expect(() =>
+        assertWithinMaxBalance(null, toMinor('99999999')),
+      ).not.toThrow();
+    });
+  });
+});
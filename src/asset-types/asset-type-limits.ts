@@ -0,0 +1,78 @@
+import { BadRequestException } from '@nestjs/common';
+import { AssetType } from './entities/asset-type.entity';
+import {
+  decimalPlaces,
+  fromMinor,
+  normalizeAmount,
+  toMinor,
+} from '../common/utils/money';
+
+/**
+ * Why `amount` is not a valid single-transaction amount for the asset, or
+ * null when it is. Shared by DTO validation and the transaction services.
+ */
+export function amountViolation(
+  assetType: AssetType,
+  amount: string,
+): string | null {
+  if (!assetType.isActive) {
+    return `Asset type ${assetType.code} is inactive`;
+  }
+  const precision = precisionViolation(assetType, amount);
+  if (precision) {
+    return precision;
+  }
+  const value = toMinor(amount);
+  if (assetType.minAmount !== null && value < toMinor(assetType.minAmount)) {
+    return `Amount for ${assetType.code} must be at least ${assetType.minAmount}`;
+  }
+  if (assetType.maxAmount !== null && value > toMinor(assetType.maxAmount)) {
+    return `Amount for ${assetType.code} must be at most ${assetType.maxAmount}`;
+  }
+  return null;
+}
+
+export function precisionViolation(
+  assetType: AssetType,
+  amount: string,
+): string | null {
+  if (decimalPlaces(amount) <= assetType.decimalPlaces) {
+    return null;
+  }
+  return assetType.decimalPlaces === 0
+    ? `Amount for ${assetType.code} must be a whole number`
+    : `Amount for ${assetType.code} allows at most ${assetType.decimalPlaces} decimal places`;
+}
+
+export function assertAmountAllowed(assetType: AssetType, amount: string): void {
+  const violation = amountViolation(assetType, amount);
+  if (violation) {
+    throw new BadRequestException(violation);
+  }
+}
+
+/**
+ * Compensations (reversals, partial captures) only restore or shrink an
+ * earlier valid amount, so they are held to the asset's precision alone.
+ */
+export function assertPrecisionAllowed(
+  assetType: AssetType,
+  amount: string,
+): void {
+  const violation = precisionViolation(assetType, amount);
+  if (violation) {
+    throw new BadRequestException(violation);
+  }
+}
+
+/** Reject a credit that would push a user wallet past the asset's cap */
+export function assertWithinMaxBalance(
+  maxBalance: string | null | undefined,
+  newBalance: bigint,
+): void {
+  if (maxBalance != null && newBalance > toMinor(maxBalance)) {
+    throw new BadRequestException(
+      `Balance limit exceeded. Max: ${normalizeAmount(maxBalance)}, Resulting: ${fromMinor(newBalance)}`,
+    );
+  }
+}
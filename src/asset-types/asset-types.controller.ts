@@ -1,7 +1,21 @@
-import { Controller, Get } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
 import { AssetTypesService } from './asset-types.service';
+import { CreateAssetTypeDto } from './dto/create-asset-type.dto';
+import { UpdateAssetTypeDto } from './dto/update-asset-type.dto';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope } from '../common/enums';
 
 @Controller('asset-types')
+@RequireScopes(ApiScope.ASSET_TYPES_READ)
 export class AssetTypesController {
   constructor(private readonly assetTypesService: AssetTypesService) {}
 
@@ -9,4 +23,36 @@ export class AssetTypesController {
   findAll() {
     return this.assetTypesService.findAll();
   }
+
+  @Get(':code')
+  findOne(@Param('code') code: string) {
+    return this.assetTypesService.findByCode(code);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequireScopes(ApiScope.ASSET_TYPES_MANAGE)
+  create(@Body() dto: CreateAssetTypeDto) {
+    return this.assetTypesService.create(dto);
+  }
+
+  @Patch(':code')
+  @RequireScopes(ApiScope.ASSET_TYPES_MANAGE)
+  update(@Param('code') code: string, @Body() dto: UpdateAssetTypeDto) {
+    return this.assetTypesService.update(code, dto);
+  }
+
+  @Post(':code/deactivate')
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes(ApiScope.ASSET_TYPES_MANAGE)
+  deactivate(@Param('code') code: string) {
+    return this.assetTypesService.setActive(code, false);
+  }
+
+  @Post(':code/activate')
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes(ApiScope.ASSET_TYPES_MANAGE)
+  activate(@Param('code') code: string) {
+    return this.assetTypesService.setActive(code, true);
+  }
 }
@@ -3,11 +3,12 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { AssetType } from './entities/asset-type.entity';
 import { AssetTypesService } from './asset-types.service';
 import { AssetTypesController } from './asset-types.controller';
+import { AssetAmountConstraint } from './validators/asset-amount.validator';
 
 @Module({
   imports: [TypeOrmModule.forFeature([AssetType])],
   controllers: [AssetTypesController],
-  providers: [AssetTypesService],
-  exports: [AssetTypesService],
+  providers: [AssetTypesService, AssetAmountConstraint],
+  exports: [AssetTypesService, AssetAmountConstraint],
 })
 export class AssetTypesModule {}
@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { AssetTypesService } from './asset-types.service';
+import { AssetType } from './entities/asset-type.entity';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { UserRole } from '../common/enums';
+
+describe('AssetTypesService', () => {
+  let service: AssetTypesService;
+  let assetTypeRepo: Record<string, jest.Mock>;
+  let manager: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    manager = {
+      findOne: jest.fn(),
+      create: jest.fn((entity, data) => ({ ...data })),
+      save: jest.fn((data) => ({ id: 'generated-id', ...data })),
+    };
+    assetTypeRepo = {
+      find: jest.fn(),
+      findOne: jest.fn(),
+      save: jest.fn((data) => data),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AssetTypesService,
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+        { provide: getRepositoryToken(AssetType), useValue: assetTypeRepo },
+      ],
+    }).compile();
+
+    service = module.get<AssetTypesService>(AssetTypesService);
+  });
+
+  describe('create', () => {
+    it('should provision the treasury wallet for the new asset', async () => {
+      manager.findOne.mockResolvedValue({
+        id: 'treasury-id',
+        role: UserRole.SYSTEM,
+      });
+
+      const result = await service.create({
+        code: 'PUMPKINS',
+        name: 'Pumpkins',
+        decimalPlaces: 0,
+      });
+
+      expect(result.id).toBe('generated-id');
+      expect(manager.create).toHaveBeenCalledWith(Wallet, {
+        userId: 'treasury-id',
+        assetTypeId: 'generated-id',
+        balance: '0',
+      });
+    });
+
+    it('should reject duplicate codes with a conflict', async () => {
+      manager.findOne.mockResolvedValue({ id: 'treasury-id' });
+      manager.save.mockRejectedValueOnce({ code: '23505' });
+
+      await expect(
+        service.create({ code: 'GOLD_COINS', name: 'Gold Coins' }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject a minimum above the maximum', async () => {
+      await expect(
+        service.create({
+          code: 'PUMPKINS',
+          name: 'Pumpkins',
+          minAmount: '10',
+          maxAmount: '5',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should change only the given fields and clear null limits', async () => {
+      assetTypeRepo.findOne.mockResolvedValue({
+        code: 'PUMPKINS',
+        name: 'Pumpkins',
+        minAmount: '1.0000',
+        maxBalance: '500.0000',
+      });
+
+      const result = await service.update('PUMPKINS', {
+        maxBalance: null,
+      });
+
+      expect(result).toEqual({
+        code: 'PUMPKINS',
+        name: 'Pumpkins',
+        minAmount: '1.0000',
+        maxBalance: null,
+      });
+    });
+
+    it('should check limits against the stored values', async () => {
+      assetTypeRepo.findOne.mockResolvedValue({
+        code: 'PUMPKINS',
+        minAmount: '10.0000',
+        maxAmount: null,
+      });
+
+      await expect(
+        service.update('PUMPKINS', { maxAmount: '5' }),
+      ).rejects.toThrow('minAmount cannot exceed maxAmount');
+    });
+
+    it('should keep the daily spend limit within the weekly one', async () => {
+      assetTypeRepo.findOne.mockResolvedValue({
+        code: 'PUMPKINS',
+        maxDailySpend: null,
+        maxWeeklySpend: '100.0000',
+      });
+
+      await expect(
+        service.update('PUMPKINS', { maxDailySpend: '150' }),
+      ).rejects.toThrow('maxDailySpend cannot exceed maxWeeklySpend');
+    });
+  });
+});
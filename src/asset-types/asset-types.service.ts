@@ -1,11 +1,39 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, Repository } from 'typeorm';
 import { AssetType } from './entities/asset-type.entity';
+import { User } from '../users/entities/user.entity';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { CreateAssetTypeDto } from './dto/create-asset-type.dto';
+import { UpdateAssetTypeDto } from './dto/update-asset-type.dto';
+import { UserRole } from '../common/enums';
+import { toMinor } from '../common/utils/money';
+
+/** Every field UpdateAssetTypeDto may change */
+const UPDATABLE_FIELDS: (keyof UpdateAssetTypeDto)[] = [
+  'name',
+  'description',
+  'decimalPlaces',
+  'minAmount',
+  'maxAmount',
+  'maxBalance',
+  'maxDailySpend',
+  'maxWeeklySpend',
+  'maxDailyBonus',
+  'maxDailyIssuance',
+  'issuanceBudget',
+  'issuanceAlertPercent',
+];
 
 @Injectable()
 export class AssetTypesService {
   constructor(
+    private readonly dataSource: DataSource,
     @InjectRepository(AssetType)
     private readonly assetTypeRepo: Repository<AssetType>,
   ) {}
@@ -21,4 +49,90 @@ export class AssetTypesService {
     }
     return assetType;
   }
+
+  /**
+   * Create the asset together with its treasury wallet, so it can be issued
+   * straight away. User wallets are created on their first credit.
+   */
+  async create(dto: CreateAssetTypeDto): Promise<AssetType> {
+    this.assertLimitsConsistent(dto);
+
+    try {
+      return await this.dataSource.transaction(async (manager) => {
+        const system = await manager.findOne(User, {
+          where: { role: UserRole.SYSTEM },
+        });
+        if (!system) {
+          throw new NotFoundException('System user not found');
+        }
+
+        const assetType = await manager.save(manager.create(AssetType, dto));
+        await manager.save(
+          manager.create(Wallet, {
+            userId: system.id,
+            assetTypeId: assetType.id,
+            balance: '0',
+          }),
+        );
+        return assetType;
+      });
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new ConflictException(`Asset type "${dto.code}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /** Limit changes apply to new operations only; balances are not revisited */
+  async update(code: string, dto: UpdateAssetTypeDto): Promise<AssetType> {
+    const assetType = await this.findByCode(code);
+    for (const field of UPDATABLE_FIELDS) {
+      assignIfGiven(assetType, dto, field);
+    }
+    this.assertLimitsConsistent(assetType);
+    return this.assetTypeRepo.save(assetType);
+  }
+
+  async setActive(code: string, isActive: boolean): Promise<AssetType> {
+    const assetType = await this.findByCode(code);
+    assetType.isActive = isActive;
+    return this.assetTypeRepo.save(assetType);
+  }
+
+  private assertLimitsConsistent(
+    limits: Pick<
+      CreateAssetTypeDto,
+      'minAmount' | 'maxAmount' | 'maxDailySpend' | 'maxWeeklySpend'
+    >,
+  ): void {
+    if (
+      limits.minAmount != null &&
+      limits.maxAmount != null &&
+      toMinor(limits.minAmount) > toMinor(limits.maxAmount)
+    ) {
+      throw new BadRequestException('minAmount cannot exceed maxAmount');
+    }
+    if (
+      limits.maxDailySpend != null &&
+      limits.maxWeeklySpend != null &&
+      toMinor(limits.maxDailySpend) > toMinor(limits.maxWeeklySpend)
+    ) {
+      throw new BadRequestException(
+        'maxDailySpend cannot exceed maxWeeklySpend',
+      );
+    }
+  }
+}
+
+/** Copy `field` from a partial update unless it was omitted */
+function assignIfGiven<T, K extends keyof T>(
+  target: T,
+  changes: Partial<Pick<T, K>>,
+  field: K,
+): void {
+  const value = changes[field];
+  if (value !== undefined) {
+    target[field] = value;
+  }
 }
@@ -0,0 +1,75 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { MONEY_SCALE } from '../../common/utils/money';
+
+export class CreateAssetTypeDto {
+  /** Immutable once created; referenced by every transaction request */
+  @IsString()
+  @Matches(/^[A-Z][A-Z0-9_]*$/, {
+    message: 'code must be upper case letters, digits and underscores',
+  })
+  @MaxLength(50)
+  code: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsInt()
+  @Min(0)
+  @Max(MONEY_SCALE)
+  @IsOptional()
+  decimalPlaces?: number;
+
+  @IsAmount()
+  @IsOptional()
+  minAmount?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxAmount?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxBalance?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxDailySpend?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxWeeklySpend?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxDailyBonus?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxDailyIssuance?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  issuanceBudget?: string | null;
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  issuanceAlertPercent?: number | null;
+}
@@ -0,0 +1,72 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { MONEY_SCALE } from '../../common/utils/money';
+
+/**
+ * Omitted fields are left unchanged; a limit set to null is removed. Fields
+ * that cannot be removed reject null instead of skipping validation.
+ */
+export class UpdateAssetTypeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @ValidateIf((_, value) => value !== undefined)
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsInt()
+  @Min(0)
+  @Max(MONEY_SCALE)
+  @ValidateIf((_, value) => value !== undefined)
+  decimalPlaces?: number;
+
+  @IsAmount()
+  @IsOptional()
+  minAmount?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxAmount?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxBalance?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxDailySpend?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxWeeklySpend?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxDailyBonus?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  maxDailyIssuance?: string | null;
+
+  @IsAmount()
+  @IsOptional()
+  issuanceBudget?: string | null;
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  issuanceAlertPercent?: number | null;
+}
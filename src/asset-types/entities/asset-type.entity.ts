@@ -19,6 +19,108 @@ export class AssetType {
   @Column({ type: 'text', nullable: true })
   description: string;
 
+  /** Decimal places allowed in amounts, 0 (whole units) to MONEY_SCALE */
+  @Column({ name: 'decimal_places', type: 'smallint', default: 4 })
+  decimalPlaces: number;
+
+  /** Smallest single-transaction amount; null for no minimum */
+  @Column({
+    name: 'min_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  minAmount: string | null;
+
+  /** Largest single-transaction amount; null for no maximum */
+  @Column({
+    name: 'max_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  maxAmount: string | null;
+
+  /** Cap on any user wallet's balance; the treasury is exempt */
+  @Column({
+    name: 'max_balance',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  maxBalance: string | null;
+
+  /**
+   * Purchases, transfers and exchanges one user wallet may make over a
+   * rolling 24 hours; null for no limit
+   */
+  @Column({
+    name: 'max_daily_spend',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  maxDailySpend: string | null;
+
+  /** The same over a rolling 7 days */
+  @Column({
+    name: 'max_weekly_spend',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  maxWeeklySpend: string | null;
+
+  /** Bonuses one user wallet may receive over a rolling 24 hours */
+  @Column({
+    name: 'max_daily_bonus',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  maxDailyBonus: string | null;
+
+  /** Top-ups and bonuses the treasury may issue over a rolling 24 hours */
+  @Column({
+    name: 'max_daily_issuance',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  maxDailyIssuance: string | null;
+
+  /**
+   * Most of the asset that may be in circulation: issued by the treasury
+   * and not yet returned to it. Issuance past it is rejected; null for no
+   * budget
+   */
+  @Column({
+    name: 'issuance_budget',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  issuanceBudget: string | null;
+
+  /** Share of the budget (1–100) whose crossing raises an alert */
+  @Column({ name: 'issuance_alert_percent', type: 'smallint', nullable: true })
+  issuanceAlertPercent: number | null;
+
+  /**
+   * Inactive assets reject new operations; existing balances stay readable
+   * and reversals and hold captures still settle
+   */
+  @Column({ name: 'is_active', type: 'boolean', default: true })
+  isActive: boolean;
+
   @CreateDateColumn({ type: 'timestamptz' })
   createdAt: Date;
 }
@@ -0,0 +1,63 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ValidationArguments,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import { AssetTypesService } from '../asset-types.service';
+import { AssetType } from '../entities/asset-type.entity';
+import { amountViolation } from '../asset-type-limits';
+
+/**
+ * Checks a DTO's `amount` against the precision and limits of the asset
+ * named by its sibling `assetTypeCode`. Resolved through Nest's container
+ * (see `useContainer` in main.ts) so it can reach the database.
+ *
+ * Malformed amounts and unknown asset codes pass here: IsAmount and the
+ * wallet lookup report those with clearer errors.
+ */
+@ValidatorConstraint({ name: 'assetAmount', async: true })
+@Injectable()
+export class AssetAmountConstraint implements ValidatorConstraintInterface {
+  // The constraint is a singleton, so messages are keyed by DTO instance
+  private readonly messages = new WeakMap<object, string>();
+
+  constructor(private readonly assetTypesService: AssetTypesService) {}
+
+  async validate(amount: unknown, args: ValidationArguments): Promise<boolean> {
+    const { assetTypeCode } = args.object as { assetTypeCode?: unknown };
+    if (typeof amount !== 'string' || typeof assetTypeCode !== 'string') {
+      return true;
+    }
+
+    let assetType: AssetType;
+    try {
+      assetType = await this.assetTypesService.findByCode(assetTypeCode);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return true;
+      }
+      throw error;
+    }
+
+    let violation: string | null;
+    try {
+      violation = amountViolation(assetType, amount);
+    } catch {
+      // Malformed amount — reported by IsAmount
+      return true;
+    }
+    if (violation) {
+      this.messages.set(args.object, violation);
+      return false;
+    }
+    return true;
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return (
+      this.messages.get(args.object) ??
+      `${args.property} is not allowed for this asset`
+    );
+  }
+}
@@ -3,14 +3,18 @@ import {
   ExecutionContext,
   BadRequestException,
 } from '@nestjs/common';
+import {
+  buildIdempotencyContext,
+  IdempotencyContext,
+} from '../utils/idempotency-context';
 
-export const IdempotencyKey = createParamDecorator(
-  (data: unknown, ctx: ExecutionContext): string => {
+export const Idempotency = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): IdempotencyContext => {
     const request = ctx.switchToHttp().getRequest();
     const key = request.headers['idempotency-key'];
     if (!key) {
       throw new BadRequestException('Idempotency-Key header is required');
     }
-    return key;
+    return buildIdempotencyContext(request, key);
   },
 );
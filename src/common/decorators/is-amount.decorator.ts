@@ -0,0 +1,30 @@
+import { applyDecorators } from '@nestjs/common';
+import { Transform } from 'class-transformer';
+import { ValidateBy } from 'class-validator';
+import { MONEY_SCALE, toMinor } from '../utils/money';
+
+/** Up to 14 integer digits and MONEY_SCALE decimals — fits DECIMAL(18,4) */
+const AMOUNT_PATTERN = new RegExp(`^\\d{1,14}(\\.\\d{1,${MONEY_SCALE}})?$`);
+
+/**
+ * A strictly positive money amount, validated and kept as a decimal string
+ * so it never passes through floating point. JSON numbers are still
+ * accepted and converted to their string form.
+ */
+export const IsAmount = () =>
+  applyDecorators(
+    Transform(({ value }) =>
+      typeof value === 'number' ? String(value) : value,
+    ),
+    ValidateBy({
+      name: 'isAmount',
+      validator: {
+        validate: (value: unknown) =>
+          typeof value === 'string' &&
+          AMOUNT_PATTERN.test(value) &&
+          toMinor(value) > 0n,
+        defaultMessage: (args) =>
+          `${args?.property} must be a positive decimal string with at most ${MONEY_SCALE} decimal places`,
+      },
+    }),
+  );
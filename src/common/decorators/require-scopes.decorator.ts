@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiScope } from '../enums';
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+
+/** Scopes the calling API client must hold; method-level overrides class-level */
+export const RequireScopes = (...scopes: ApiScope[]) =>
+  SetMetadata(REQUIRED_SCOPES_KEY, scopes);
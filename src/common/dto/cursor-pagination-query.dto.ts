@@ -0,0 +1,18 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export const MAX_PAGE_SIZE = 100;
+
+/** Pass the previous response's nextCursor to fetch the following page */
+export class CursorPaginationQueryDto {
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  @IsOptional()
+  limit: number = 20;
+}
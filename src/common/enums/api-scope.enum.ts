@@ -0,0 +1,21 @@
+export enum ApiScope {
+  TRANSACTIONS_TOPUP = 'transactions:topup',
+  TRANSACTIONS_BONUS = 'transactions:bonus',
+  TRANSACTIONS_PURCHASE = 'transactions:purchase',
+  TRANSACTIONS_TRANSFER = 'transactions:transfer',
+  TRANSACTIONS_EXCHANGE = 'transactions:exchange',
+  TRANSACTIONS_REVERSE = 'transactions:reverse',
+  TRANSACTIONS_BATCH = 'transactions:batch',
+  TRANSACTIONS_HOLD = 'transactions:hold',
+  TRANSACTIONS_READ = 'transactions:read',
+  WALLETS_READ = 'wallets:read',
+  WALLETS_MANAGE = 'wallets:manage',
+  USERS_READ = 'users:read',
+  USERS_MANAGE = 'users:manage',
+  ASSET_TYPES_READ = 'asset-types:read',
+  ASSET_TYPES_MANAGE = 'asset-types:manage',
+  API_CLIENTS_MANAGE = 'api-clients:manage',
+  WEBHOOKS_MANAGE = 'webhooks:manage',
+  SCHEDULES_MANAGE = 'schedules:manage',
+  ADMIN_READ = 'admin:read',
+}
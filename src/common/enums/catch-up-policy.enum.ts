@@ -0,0 +1,9 @@
+/** What the scheduler does with occurrences that fell due while it was down */
+export enum CatchUpPolicy {
+  /** Run every missed occurrence, oldest first */
+  ALL = 'ALL',
+  /** Run only the most recent missed occurrence and skip the rest */
+  LATEST = 'LATEST',
+  /** Skip anything overdue by more than the grace period */
+  NONE = 'NONE',
+}
@@ -0,0 +1,7 @@
+export enum HoldStatus {
+  ACTIVE = 'ACTIVE',
+  CAPTURED = 'CAPTURED',
+  VOIDED = 'VOIDED',
+  EXPIRED = 'EXPIRED',
+  FAILED = 'FAILED',
+}
@@ -1,4 +1,15 @@
 export { UserRole } from './user-role.enum';
+export { UserStatus } from './user-status.enum';
 export { TransactionType } from './transaction-type.enum';
 export { TransactionStatus } from './transaction-status.enum';
 export { EntryType } from './entry-type.enum';
+export { ApiScope } from './api-scope.enum';
+export { HoldStatus } from './hold-status.enum';
+export { WalletStatus } from './wallet-status.enum';
+export { WalletEventType } from './wallet-event-type.enum';
+export { WebhookDeliveryStatus } from './webhook-delivery-status.enum';
+export { StatementFormat } from './statement-format.enum';
+export { ScheduleStatus } from './schedule-status.enum';
+export { ScheduleInterval } from './schedule-interval.enum';
+export { CatchUpPolicy } from './catch-up-policy.enum';
+export { SupplyInterval } from './supply-interval.enum';
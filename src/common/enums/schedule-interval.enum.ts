@@ -0,0 +1,6 @@
+/** Fixed UTC periods between occurrences of a recurring schedule */
+export enum ScheduleInterval {
+  HOURLY = 'HOURLY',
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+}
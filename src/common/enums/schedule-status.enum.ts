@@ -0,0 +1,7 @@
+export enum ScheduleStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED',
+  /** Past its last occurrence (or end date); nothing left to run */
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+}
@@ -0,0 +1,4 @@
+export enum StatementFormat {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+}
@@ -0,0 +1,6 @@
+/** Width of the UTC periods a supply report is broken into */
+export enum SupplyInterval {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
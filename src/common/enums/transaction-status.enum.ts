@@ -2,4 +2,6 @@ export enum TransactionStatus {
   PENDING = 'PENDING',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
+  PARTIALLY_REVERSED = 'PARTIALLY_REVERSED',
+  REVERSED = 'REVERSED',
 }
@@ -2,4 +2,10 @@ export enum TransactionType {
   TOP_UP = 'TOP_UP',
   BONUS = 'BONUS',
   PURCHASE = 'PURCHASE',
+  TRANSFER = 'TRANSFER',
+  REFUND = 'REFUND',
+  REVERSAL = 'REVERSAL',
+  SWEEP = 'SWEEP',
+  EXCHANGE = 'EXCHANGE',
+  EXPIRY = 'EXPIRY',
 }
@@ -0,0 +1,6 @@
+export enum WalletEventType {
+  TRANSACTION_COMPLETED = 'transaction.completed',
+  TRANSACTION_FAILED = 'transaction.failed',
+  WALLET_BALANCE_CHANGED = 'wallet.balance_changed',
+  ISSUANCE_BUDGET_ALERT = 'treasury.issuance_alert',
+}
@@ -0,0 +1,9 @@
+export enum WalletStatus {
+  ACTIVE = 'ACTIVE',
+  /** Can receive but not spend */
+  FROZEN_DEBIT = 'FROZEN_DEBIT',
+  /** Can neither receive nor spend */
+  FROZEN_ALL = 'FROZEN_ALL',
+  /** Terminal; only reachable with a zero balance and no active holds */
+  CLOSED = 'CLOSED',
+}
@@ -0,0 +1,6 @@
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  DELIVERED = 'DELIVERED',
+  /** Gave up after the maximum number of attempts; can be retried manually */
+  DEAD = 'DEAD',
+}
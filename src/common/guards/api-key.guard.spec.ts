@@ -0,0 +1,78 @@
+import { Reflector } from '@nestjs/core';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiScope } from '../enums';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+
+describe('ApiKeyGuard', () => {
+  let guard: ApiKeyGuard;
+  let apiClientsService: { authenticate: jest.Mock };
+  let reflector: Reflector;
+
+  const shopClient = {
+    id: 'client-1',
+    name: 'shop-backend',
+    scopes: [ApiScope.TRANSACTIONS_PURCHASE],
+  };
+
+  const handler = () => undefined;
+
+  const mockExecutionContext = (request: any): ExecutionContext =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => handler,
+      getClass: () => class {},
+    }) as any;
+
+  beforeEach(() => {
+    apiClientsService = { authenticate: jest.fn() };
+    reflector = new Reflector();
+    guard = new ApiKeyGuard(reflector, apiClientsService as any);
+  });
+
+  const requireScopes = (...scopes: ApiScope[]) =>
+    Reflect.defineMetadata(REQUIRED_SCOPES_KEY, scopes, handler);
+
+  it('should reject requests without an API key', async () => {
+    await expect(
+      guard.canActivate(mockExecutionContext({ headers: {} })),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject unknown or revoked keys', async () => {
+    apiClientsService.authenticate.mockResolvedValue(null);
+
+    await expect(
+      guard.canActivate(
+        mockExecutionContext({ headers: { 'x-api-key': 'wk_bad' } }),
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject clients missing a required scope', async () => {
+    apiClientsService.authenticate.mockResolvedValue(shopClient);
+    requireScopes(ApiScope.TRANSACTIONS_TOPUP);
+
+    await expect(
+      guard.canActivate(
+        mockExecutionContext({ headers: { 'x-api-key': 'wk_shop' } }),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should attach the client to the request when scopes match', async () => {
+    apiClientsService.authenticate.mockResolvedValue(shopClient);
+    requireScopes(ApiScope.TRANSACTIONS_PURCHASE);
+    const request: any = { headers: { 'x-api-key': 'wk_shop' } };
+
+    await expect(guard.canActivate(mockExecutionContext(request))).resolves.toBe(
+      true,
+    );
+    expect(apiClientsService.authenticate).toHaveBeenCalledWith('wk_shop');
+    expect(request.apiClient).toBe(shopClient);
+  });
+});
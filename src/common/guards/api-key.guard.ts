@@ -0,0 +1,60 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { ApiClientsService } from '../../api-clients/api-clients.service';
+import { ApiClient } from '../../api-clients/entities/api-client.entity';
+import { ApiScope } from '../enums';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+
+export interface AuthenticatedRequest extends Request {
+  apiClient: ApiClient;
+}
+
+/**
+ * Global guard: every route requires a valid `X-API-Key`, and the client
+ * must hold all scopes declared with @RequireScopes on the handler or class.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiClientsService: ApiClientsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const apiKey = request.headers['x-api-key'];
+
+    if (!apiKey || typeof apiKey !== 'string') {
+      throw new UnauthorizedException('X-API-Key header is required');
+    }
+
+    const client = await this.apiClientsService.authenticate(apiKey);
+    if (!client) {
+      throw new UnauthorizedException('Invalid or revoked API key');
+    }
+
+    const requiredScopes =
+      this.reflector.getAllAndOverride<ApiScope[]>(REQUIRED_SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+    const missing = requiredScopes.filter(
+      (scope) => !client.scopes.includes(scope),
+    );
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `Missing required scope: ${missing.join(', ')}`,
+      );
+    }
+
+    request.apiClient = client;
+    return true;
+  }
+}
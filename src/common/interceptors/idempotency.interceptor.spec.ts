@@ -1,47 +1,71 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
 import {
   CallHandler,
   ConflictException,
   ExecutionContext,
+  HttpException,
   UnprocessableEntityException,
 } from '@nestjs/common';
 import { of } from 'rxjs';
 import { IdempotencyInterceptor } from './idempotency.interceptor';
-import { Transaction } from '../../transactions/entities/transaction.entity';
+import { IdempotencyService } from '../../idempotency/idempotency.service';
+import { IdempotencyRecord } from '../../idempotency/entities/idempotency-record.entity';
 import { TransactionStatus } from '../enums';
+import { computeRequestFingerprint } from '../utils/request-fingerprint';
 
 describe('IdempotencyInterceptor', () => {
   let interceptor: IdempotencyInterceptor;
-  let transactionRepo: Record<string, jest.Mock>;
+  let recordRepo: Record<string, jest.Mock>;
+
+  const mockRequest = (
+    idempotencyKey?: string,
+    body: any = {},
+    clientId?: string,
+  ) => ({
+    method: 'POST',
+    path: '/api/v1/transactions/top-up',
+    route: { path: '/api/v1/transactions/top-up' },
+    body,
+    headers: idempotencyKey ? { 'idempotency-key': idempotencyKey } : {},
+    apiClient: { id: clientId ?? 'client-1' },
+  });
 
-  const mockExecutionContext = (idempotencyKey?: string): ExecutionContext =>
+  const mockExecutionContext = (
+    idempotencyKey?: string,
+    body?: any,
+    clientId?: string,
+  ): ExecutionContext =>
     ({
       switchToHttp: () => ({
-        getRequest: () => ({
-          headers: idempotencyKey
-            ? { 'idempotency-key': idempotencyKey }
-            : {},
-        }),
+        getRequest: () => mockRequest(idempotencyKey, body, clientId),
       }),
     }) as any;
 
+  const recordFor = (transaction: any, body: any = {}) => ({
+    requestHash: computeRequestFingerprint(mockRequest('key', body) as any),
+    transaction,
+  });
+
   const mockCallHandler: CallHandler = {
     handle: () => of({ id: 'new-txn', status: 'COMPLETED' }),
   };
 
   beforeEach(async () => {
-    transactionRepo = {
+    recordRepo = {
       findOne: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         IdempotencyInterceptor,
+        IdempotencyService,
         {
-          provide: getRepositoryToken(Transaction),
-          useValue: transactionRepo,
+          provide: getRepositoryToken(IdempotencyRecord),
+          useValue: recordRepo,
         },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
       ],
     }).compile();
 
@@ -52,13 +76,13 @@ describe('IdempotencyInterceptor', () => {
     const ctx = mockExecutionContext();
     const result = await interceptor.intercept(ctx, mockCallHandler);
 
-    expect(transactionRepo.findOne).not.toHaveBeenCalled();
+    expect(recordRepo.findOne).not.toHaveBeenCalled();
     const value = await result.toPromise();
     expect(value).toEqual({ id: 'new-txn', status: 'COMPLETED' });
   });
 
-  it('should pass through when key is new (no existing transaction)', async () => {
-    transactionRepo.findOne.mockResolvedValue(null);
+  it('should pass through when key is new (no existing record)', async () => {
+    recordRepo.findOne.mockResolvedValue(null);
 
     const ctx = mockExecutionContext('new-key');
     const result = await interceptor.intercept(ctx, mockCallHandler);
@@ -67,13 +91,30 @@ describe('IdempotencyInterceptor', () => {
     expect(value).toEqual({ id: 'new-txn', status: 'COMPLETED' });
   });
 
+  it('should scope the lookup by client and route', async () => {
+    recordRepo.findOne.mockResolvedValue(null);
+
+    const ctx = mockExecutionContext('scoped-key', {}, 'shop-backend');
+    await interceptor.intercept(ctx, mockCallHandler);
+
+    expect(recordRepo.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          clientId: 'shop-backend',
+          route: 'POST /api/v1/transactions/top-up',
+          key: 'scoped-key',
+        }),
+      }),
+    );
+  });
+
   it('should return cached result for COMPLETED transaction', async () => {
     const completedTxn = {
       id: 'existing-txn',
       status: TransactionStatus.COMPLETED,
       ledgerEntries: [],
     };
-    transactionRepo.findOne.mockResolvedValue(completedTxn);
+    recordRepo.findOne.mockResolvedValue(recordFor(completedTxn));
 
     const ctx = mockExecutionContext('existing-key');
     const result = await interceptor.intercept(ctx, mockCallHandler);
@@ -82,11 +123,63 @@ describe('IdempotencyInterceptor', () => {
     expect(value).toEqual(completedTxn);
   });
 
-  it('should throw ConflictException for PENDING transaction', async () => {
-    transactionRepo.findOne.mockResolvedValue({
-      id: 'pending-txn',
-      status: TransactionStatus.PENDING,
+  it('should return cached result for REVERSED transaction', async () => {
+    const reversedTxn = {
+      id: 'reversed-txn',
+      status: TransactionStatus.REVERSED,
+      ledgerEntries: [],
+    };
+    recordRepo.findOne.mockResolvedValue(recordFor(reversedTxn));
+
+    const ctx = mockExecutionContext('reversed-key');
+    const result = await interceptor.intercept(ctx, mockCallHandler);
+
+    const value = await result.toPromise();
+    expect(value).toEqual(reversedTxn);
+  });
+
+  it('should return cached result when payload fingerprint matches', async () => {
+    const completedTxn = {
+      id: 'existing-txn',
+      status: TransactionStatus.COMPLETED,
+    };
+    recordRepo.findOne.mockResolvedValue(
+      recordFor(completedTxn, { userId: 'user-1', amount: 100 }),
+    );
+
+    // Same payload, different key order
+    const ctx = mockExecutionContext('existing-key', {
+      amount: 100,
+      userId: 'user-1',
     });
+    const result = await interceptor.intercept(ctx, mockCallHandler);
+
+    const value = await result.toPromise();
+    expect(value).toEqual(completedTxn);
+  });
+
+  it('should throw UnprocessableEntityException when key is reused with a different payload', async () => {
+    recordRepo.findOne.mockResolvedValue(
+      recordFor(
+        { id: 'existing-txn', status: TransactionStatus.COMPLETED },
+        { userId: 'user-1', amount: 100 },
+      ),
+    );
+
+    const ctx = mockExecutionContext('existing-key', {
+      userId: 'user-1',
+      amount: 999,
+    });
+
+    await expect(
+      interceptor.intercept(ctx, mockCallHandler),
+    ).rejects.toThrow(UnprocessableEntityException);
+  });
+
+  it('should throw ConflictException for PENDING transaction', async () => {
+    recordRepo.findOne.mockResolvedValue(
+      recordFor({ id: 'pending-txn', status: TransactionStatus.PENDING }),
+    );
 
     const ctx = mockExecutionContext('pending-key');
 
@@ -96,11 +189,13 @@ describe('IdempotencyInterceptor', () => {
   });
 
   it('should throw UnprocessableEntityException for FAILED transaction', async () => {
-    transactionRepo.findOne.mockResolvedValue({
-      id: 'failed-txn',
-      status: TransactionStatus.FAILED,
-      errorMessage: 'Insufficient balance',
-    });
+    recordRepo.findOne.mockResolvedValue(
+      recordFor({
+        id: 'failed-txn',
+        status: TransactionStatus.FAILED,
+        errorMessage: 'Insufficient balance',
+      }),
+    );
 
     const ctx = mockExecutionContext('failed-key');
 
@@ -108,4 +203,21 @@ describe('IdempotencyInterceptor', () => {
       interceptor.intercept(ctx, mockCallHandler),
     ).rejects.toThrow(UnprocessableEntityException);
   });
+
+  it('should replay the original status code for FAILED transaction', async () => {
+    recordRepo.findOne.mockResolvedValue(
+      recordFor({
+        id: 'failed-txn',
+        status: TransactionStatus.FAILED,
+        errorMessage: 'Wallet not found',
+        errorStatus: 404,
+      }),
+    );
+
+    const ctx = mockExecutionContext('failed-key');
+    const promise = interceptor.intercept(ctx, mockCallHandler);
+
+    await expect(promise).rejects.toThrow(HttpException);
+    await expect(promise).rejects.toMatchObject({ status: 404 });
+  });
 });
@@ -3,21 +3,14 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
-  ConflictException,
-  UnprocessableEntityException,
 } from '@nestjs/common';
 import { Observable, of } from 'rxjs';
-import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Transaction } from '../../transactions/entities/transaction.entity';
-import { TransactionStatus } from '../enums';
+import { IdempotencyService } from '../../idempotency/idempotency.service';
+import { buildIdempotencyContext } from '../utils/idempotency-context';
 
 @Injectable()
 export class IdempotencyInterceptor implements NestInterceptor {
-  constructor(
-    @InjectRepository(Transaction)
-    private readonly transactionRepo: Repository<Transaction>,
-  ) {}
+  constructor(private readonly idempotencyService: IdempotencyService) {}
 
   async intercept(
     context: ExecutionContext,
@@ -30,29 +23,11 @@ export class IdempotencyInterceptor implements NestInterceptor {
       return next.handle();
     }
 
-    const existing = await this.transactionRepo.findOne({
-      where: { idempotencyKey },
-      relations: [
-        'ledgerEntries',
-        'sourceWallet',
-        'sourceWallet.assetType',
-        'sourceWallet.user',
-        'destinationWallet',
-        'destinationWallet.assetType',
-        'destinationWallet.user',
-      ],
-    });
+    const idempotency = buildIdempotencyContext(request, idempotencyKey);
+    const existing = await this.idempotencyService.findActive(idempotency);
 
     if (existing) {
-      if (existing.status === TransactionStatus.COMPLETED) {
-        return of(existing);
-      }
-      if (existing.status === TransactionStatus.PENDING) {
-        throw new ConflictException('Transaction is currently being processed');
-      }
-      if (existing.status === TransactionStatus.FAILED) {
-        throw new UnprocessableEntityException(existing.errorMessage);
-      }
+      return of(this.idempotencyService.replay(existing, idempotency));
     }
 
     return next.handle();
@@ -0,0 +1,36 @@
+import {
+  ArgumentMetadata,
+  BadRequestException,
+  Injectable,
+  Optional,
+  PipeTransform,
+} from '@nestjs/common';
+import { isISO8601 } from 'class-validator';
+
+/** Parses an ISO 8601 query parameter into a Date */
+@Injectable()
+export class ParseTimestampPipe implements PipeTransform<
+  string | undefined,
+  Date | undefined
+> {
+  constructor(
+    @Optional() private readonly options: { optional?: boolean } = {},
+  ) {}
+
+  transform(
+    value: string | undefined,
+    metadata: ArgumentMetadata,
+  ): Date | undefined {
+    const name = metadata.data ?? 'value';
+    if (value === undefined || value === '') {
+      if (this.options.optional) {
+        return undefined;
+      }
+      throw new BadRequestException(`${name} is required`);
+    }
+    if (!isISO8601(value, { strict: true })) {
+      throw new BadRequestException(`${name} must be an ISO 8601 timestamp`);
+    }
+    return new Date(value);
+  }
+}
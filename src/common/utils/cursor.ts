@@ -0,0 +1,26 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Keyset cursors are opaque to clients: the sort key of the last row of a
+ * page, as base64url JSON. Timestamps travel as Postgres text so they keep
+ * their microseconds, which a JS Date would drop.
+ */
+export function encodeCursor(key: string[]): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, length: number): string[] {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      Array.isArray(key) &&
+      key.length === length &&
+      key.every((part) => typeof part === 'string')
+    ) {
+      return key;
+    }
+  } catch {
+    // Fall through to the 400 below
+  }
+  throw new BadRequestException('Invalid cursor');
+}
@@ -0,0 +1,28 @@
+import { computeRequestFingerprint } from './request-fingerprint';
+import { AuthenticatedRequest } from '../guards/api-key.guard';
+
+/**
+ * Everything needed to claim or replay an Idempotency-Key. Keys are scoped
+ * per API client and route, so two services generating the same key for
+ * different endpoints never collide.
+ */
+export interface IdempotencyContext {
+  key: string;
+  /** Authenticated API client; also recorded as the transaction's creator */
+  clientId: string;
+  /** Method and route pattern, e.g. "POST /api/v1/transactions/:id/reverse" */
+  route: string;
+  requestHash: string;
+}
+
+export function buildIdempotencyContext(
+  request: AuthenticatedRequest,
+  key: string,
+): IdempotencyContext {
+  return {
+    key,
+    clientId: request.apiClient.id,
+    route: `${request.method} ${request.route?.path ?? request.path}`,
+    requestHash: computeRequestFingerprint(request),
+  };
+}
@@ -0,0 +1,42 @@
+import { fromMinor, normalizeAmount, toMinor } from './money';
+
+describe('money', () => {
+  describe('toMinor', () => {
+    it('should parse decimal strings exactly', () => {
+      expect(toMinor('1000.0000')).toBe(10000000n);
+      expect(toMinor('0.1')).toBe(1000n);
+      expect(toMinor('-2.5')).toBe(-25000n);
+      expect(toMinor('99999999999999.9999')).toBe(999999999999999999n);
+    });
+
+    it('should accept numbers via their string form', () => {
+      expect(toMinor(0.3)).toBe(3000n);
+      expect(toMinor(500)).toBe(5000000n);
+    });
+
+    it('should tolerate trailing zeros beyond the scale', () => {
+      expect(toMinor('1.500000')).toBe(15000n);
+    });
+
+    it('should reject extra precision and malformed input', () => {
+      expect(() => toMinor('1.00001')).toThrow('more than 4 decimal places');
+      expect(() => toMinor('1e21')).toThrow('Invalid decimal amount');
+      expect(() => toMinor('abc')).toThrow('Invalid decimal amount');
+    });
+  });
+
+  describe('fromMinor', () => {
+    it('should format with a fixed scale', () => {
+      expect(fromMinor(15n)).toBe('0.0015');
+      expect(fromMinor(10000000n)).toBe('1000.0000');
+      expect(fromMinor(-25000n)).toBe('-2.5000');
+      expect(fromMinor(0n)).toBe('0.0000');
+    });
+  });
+
+  it('should add without floating-point drift', () => {
+    // 0.1 + 0.2 !== 0.3 in IEEE 754
+    expect(fromMinor(toMinor('0.1') + toMinor('0.2'))).toBe('0.3000');
+    expect(normalizeAmount('0.3')).toBe('0.3000');
+  });
+});
@@ -0,0 +1,47 @@
+/** Fractional digits of every DECIMAL(18,4) money column */
+export const MONEY_SCALE = 4;
+
+const FACTOR = 10n ** BigInt(MONEY_SCALE);
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * Parse a decimal string (as returned by Postgres for DECIMAL columns) into
+ * exact integer minor units. Numbers are accepted for convenience and go
+ * through their shortest string form, never through float arithmetic.
+ */
+export function toMinor(value: string | number): bigint {
+  const text = String(value).trim();
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match) {
+    throw new Error(`Invalid decimal amount: ${value}`);
+  }
+  const [, sign, whole, fraction = ''] = match;
+  if (/[1-9]/.test(fraction.slice(MONEY_SCALE))) {
+    throw new Error(
+      `Amount ${value} has more than ${MONEY_SCALE} decimal places`,
+    );
+  }
+  const minor =
+    BigInt(whole) * FACTOR +
+    BigInt(fraction.slice(0, MONEY_SCALE).padEnd(MONEY_SCALE, '0'));
+  return sign ? -minor : minor;
+}
+
+/** Format minor units as a fixed-scale decimal string, e.g. 15n → "0.0015" */
+export function fromMinor(minor: bigint): string {
+  const sign = minor < 0n ? '-' : '';
+  const abs = minor < 0n ? -minor : minor;
+  const fraction = (abs % FACTOR).toString().padStart(MONEY_SCALE, '0');
+  return `${sign}${abs / FACTOR}.${fraction}`;
+}
+
+/** Canonical fixed-scale form of a decimal amount */
+export function normalizeAmount(value: string | number): string {
+  return fromMinor(toMinor(value));
+}
+
+/** Significant decimal places of an amount: "1.50" → 1, "2" → 0 */
+export function decimalPlaces(value: string | number): number {
+  const fraction = String(value).split('.')[1] ?? '';
+  return fraction.replace(/0+$/, '').length;
+}
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { Request } from 'express';
+
+/**
+ * Recursively sort object keys so that semantically identical payloads
+ * serialize identically regardless of client key order.
+ */
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = normalize((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * SHA-256 of the HTTP method, path and normalized body. Stored alongside the
+ * idempotency key so a replayed key can be checked against the original request.
+ */
+export function computeRequestFingerprint(request: Request): string {
+  const payload = JSON.stringify({
+    method: request.method,
+    path: request.path,
+    body: normalize(request.body ?? {}),
+  });
+  return createHash('sha256').update(payload).digest('hex');
+}
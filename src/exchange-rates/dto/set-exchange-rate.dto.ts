@@ -0,0 +1,34 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class SetExchangeRateDto {
+  @IsString()
+  @IsNotEmpty()
+  fromAssetTypeCode: string;
+
+  @IsString()
+  @IsNotEmpty()
+  toAssetTypeCode: string;
+
+  /** Units of the target asset per unit of the source asset */
+  @IsString()
+  @Matches(/^\d{1,10}(\.\d{1,8})?$/, {
+    message:
+      'rate must be a decimal string with at most 10 integer and 8 decimal digits',
+  })
+  rate: string;
+
+  /** Defaults to 0; 10000 would keep the whole amount */
+  @IsInt()
+  @Min(0)
+  @Max(9999)
+  @IsOptional()
+  spreadBps?: number;
+}
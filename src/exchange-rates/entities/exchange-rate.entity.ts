@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { AssetType } from '../../asset-types/entities/asset-type.entity';
+import { ApiClient } from '../../api-clients/entities/api-client.entity';
+
+/**
+ * One version of the rate for converting one asset into another. Rates are
+ * never edited: setting a pair's rate appends the next version, and each
+ * EXCHANGE transaction references the version it was priced at.
+ */
+@Entity('exchange_rates')
+@Unique(['fromAssetTypeId', 'toAssetTypeId', 'version'])
+export class ExchangeRate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => AssetType)
+  @JoinColumn({ name: 'from_asset_type_id' })
+  fromAssetType: AssetType;
+
+  @Column({ name: 'from_asset_type_id' })
+  fromAssetTypeId: string;
+
+  @ManyToOne(() => AssetType)
+  @JoinColumn({ name: 'to_asset_type_id' })
+  toAssetType: AssetType;
+
+  @Column({ name: 'to_asset_type_id' })
+  toAssetTypeId: string;
+
+  /** Starts at 1 for each pair and increments on every change */
+  @Column({ type: 'int' })
+  version: number;
+
+  /** Units of the target asset per unit of the source asset */
+  @Column({ type: 'decimal', precision: 18, scale: 8 })
+  rate: string;
+
+  /** Share of the converted amount kept by the house, in basis points */
+  @Column({ name: 'spread_bps', type: 'int', default: 0 })
+  spreadBps: number;
+
+  @ManyToOne(() => ApiClient, { nullable: true })
+  @JoinColumn({ name: 'api_client_id' })
+  apiClient: ApiClient;
+
+  /** API client that set this version; null for seeded rates */
+  @Column({ name: 'api_client_id', nullable: true })
+  apiClientId: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
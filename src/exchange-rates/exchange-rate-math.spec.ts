@@ -0,0 +1,37 @@
+import { convertAmount, parseRate } from './exchange-rate-math';
+
+describe('exchange rate math', () => {
+  describe('parseRate', () => {
+    it('should parse rates exactly at 8 decimal places', () => {
+      expect(parseRate('100')).toBe(10_000_000_000n);
+      expect(parseRate('0.00000001')).toBe(1n);
+    });
+
+    it('should reject malformed or over-precise rates', () => {
+      expect(() => parseRate('-1')).toThrow('Invalid exchange rate');
+      expect(() => parseRate('0.000000001')).toThrow(
+        'more than 8 decimal places',
+      );
+    });
+  });
+
+  describe('convertAmount', () => {
+    it('should multiply by the rate', () => {
+      expect(convertAmount('10', '100', 0, 4)).toBe('1000.0000');
+    });
+
+    it('should deduct the spread', () => {
+      // 200 points × 0.1 = 20 gold, less 5%
+      expect(convertAmount('200', '0.1', 500, 4)).toBe('19.0000');
+    });
+
+    it('should round down to the target precision', () => {
+      expect(convertAmount('1.5', '3.33333333', 0, 4)).toBe('4.9999');
+      expect(convertAmount('1.5', '3.33333333', 0, 0)).toBe('4.0000');
+    });
+
+    it('should round sub-unit results down to zero', () => {
+      expect(convertAmount('5', '0.1', 0, 0)).toBe('0.0000');
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { fromMinor, MONEY_SCALE, toMinor } from '../common/utils/money';
+
+/** Fractional digits of the DECIMAL(18,8) rate column */
+export const RATE_SCALE = 8;
+
+const RATE_FACTOR = 10n ** BigInt(RATE_SCALE);
+const BPS = 10_000n;
+const RATE_PATTERN = /^(\d+)(?:\.(\d+))?$/;
+
+/** Parse a non-negative rate into exact units of 10^-RATE_SCALE */
+export function parseRate(rate: string): bigint {
+  const match = RATE_PATTERN.exec(rate.trim());
+  if (!match) {
+    throw new Error(`Invalid exchange rate: ${rate}`);
+  }
+  const [, whole, fraction = ''] = match;
+  if (/[1-9]/.test(fraction.slice(RATE_SCALE))) {
+    throw new Error(
+      `Exchange rate ${rate} has more than ${RATE_SCALE} decimal places`,
+    );
+  }
+  return (
+    BigInt(whole) * RATE_FACTOR +
+    BigInt(fraction.slice(0, RATE_SCALE).padEnd(RATE_SCALE, '0'))
+  );
+}
+
+/**
+ * Amount of the target asset bought with `amount` of the source asset:
+ * amount × rate, less the spread, rounded down to the target asset's
+ * decimal places. Every rounding step favours the house, so an exchange
+ * can never mint value.
+ */
+export function convertAmount(
+  amount: string,
+  rate: string,
+  spreadBps: number,
+  decimalPlaces: number,
+): string {
+  const converted =
+    (toMinor(amount) * parseRate(rate) * (BPS - BigInt(spreadBps))) /
+    (RATE_FACTOR * BPS);
+  const step = 10n ** BigInt(MONEY_SCALE - decimalPlaces);
+  return fromMinor(converted - (converted % step));
+}
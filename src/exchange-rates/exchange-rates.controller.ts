@@ -0,0 +1,43 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Req,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { SetExchangeRateDto } from './dto/set-exchange-rate.dto';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope } from '../common/enums';
+import { AuthenticatedRequest } from '../common/guards/api-key.guard';
+
+@Controller('exchange-rates')
+@RequireScopes(ApiScope.ASSET_TYPES_READ)
+export class ExchangeRatesController {
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  @Get()
+  findAll() {
+    return this.exchangeRatesService.findAll();
+  }
+
+  @Get(':from/:to')
+  findCurrent(@Param('from') from: string, @Param('to') to: string) {
+    return this.exchangeRatesService.findCurrent(from, to);
+  }
+
+  @Get(':from/:to/history')
+  findHistory(@Param('from') from: string, @Param('to') to: string) {
+    return this.exchangeRatesService.findHistory(from, to);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequireScopes(ApiScope.ASSET_TYPES_MANAGE)
+  set(@Body() dto: SetExchangeRateDto, @Req() request: AuthenticatedRequest) {
+    return this.exchangeRatesService.set(dto, request.apiClient.id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRatesController } from './exchange-rates.controller';
+import { AssetTypesModule } from '../asset-types/asset-types.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ExchangeRate]), AssetTypesModule],
+  controllers: [ExchangeRatesController],
+  providers: [ExchangeRatesService],
+  exports: [ExchangeRatesService],
+})
+export class ExchangeRatesModule {}
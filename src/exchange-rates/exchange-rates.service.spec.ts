@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException } from '@nestjs/common';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { AssetTypesService } from '../asset-types/asset-types.service';
+
+describe('ExchangeRatesService', () => {
+  let service: ExchangeRatesService;
+  let rateRepo: Record<string, jest.Mock>;
+
+  const dto = {
+    fromAssetTypeCode: 'DIAMONDS',
+    toAssetTypeCode: 'GOLD_COINS',
+    rate: '100',
+  };
+
+  beforeEach(async () => {
+    rateRepo = {
+      findOne: jest.fn().mockResolvedValue(null),
+      find: jest.fn(),
+      create: jest.fn((entity) => entity),
+      save: jest.fn((entity) => ({ id: 'rate-id', ...entity })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExchangeRatesService,
+        { provide: getRepositoryToken(ExchangeRate), useValue: rateRepo },
+        {
+          provide: AssetTypesService,
+          useValue: {
+            findByCode: jest.fn(async (code: string) => ({
+              id: `${code}-id`,
+              code,
+            })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExchangeRatesService>(ExchangeRatesService);
+  });
+
+  describe('set', () => {
+    it('should start a new pair at version 1 with no spread', async () => {
+      const rate = await service.set(dto, 'client-1');
+
+      expect(rate).toEqual(
+        expect.objectContaining({
+          fromAssetTypeId: 'DIAMONDS-id',
+          toAssetTypeId: 'GOLD_COINS-id',
+          version: 1,
+          rate: '100',
+          spreadBps: 0,
+          apiClientId: 'client-1',
+        }),
+      );
+    });
+
+    it('should append the next version instead of editing the current one', async () => {
+      rateRepo.findOne.mockResolvedValue({ id: 'old', version: 3 });
+
+      const rate = await service.set({ ...dto, spreadBps: 250 }, 'client-1');
+
+      expect(rate.version).toBe(4);
+      expect(rate.spreadBps).toBe(250);
+      expect(rateRepo.save).toHaveBeenCalledWith(
+        expect.not.objectContaining({ id: 'old' }),
+      );
+    });
+
+    it('should reject a rate from an asset to itself', async () => {
+      await expect(
+        service.set({ ...dto, toAssetTypeCode: 'DIAMONDS' }, 'client-1'),
+      ).rejects.toThrow('Cannot set an exchange rate from an asset to itself');
+    });
+
+    it('should reject a zero rate', async () => {
+      await expect(
+        service.set({ ...dto, rate: '0.00' }, 'client-1'),
+      ).rejects.toThrow('rate must be greater than zero');
+    });
+
+    it('should report a concurrent change to the pair as a conflict', async () => {
+      rateRepo.save.mockRejectedValue({ code: '23505' });
+
+      await expect(service.set(dto, 'client-1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  it('should throw NotFoundException for pairs without a rate', async () => {
+    await expect(service.findCurrent('GOLD_COINS', 'DIAMONDS')).rejects.toThrow(
+      'No exchange rate from GOLD_COINS to DIAMONDS',
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { AssetTypesService } from '../asset-types/asset-types.service';
+import { SetExchangeRateDto } from './dto/set-exchange-rate.dto';
+import { parseRate } from './exchange-rate-math';
+
+@Injectable()
+export class ExchangeRatesService {
+  constructor(
+    @InjectRepository(ExchangeRate)
+    private readonly rateRepo: Repository<ExchangeRate>,
+    private readonly assetTypesService: AssetTypesService,
+  ) {}
+
+  /** The current version of every pair */
+  async findAll(): Promise<ExchangeRate[]> {
+    return this.rateRepo
+      .createQueryBuilder('rate')
+      .innerJoinAndSelect('rate.fromAssetType', 'fromAssetType')
+      .innerJoinAndSelect('rate.toAssetType', 'toAssetType')
+      .distinctOn(['rate.fromAssetTypeId', 'rate.toAssetTypeId'])
+      .orderBy('rate.fromAssetTypeId')
+      .addOrderBy('rate.toAssetTypeId')
+      .addOrderBy('rate.version', 'DESC')
+      .getMany();
+  }
+
+  /** The rate an exchange from one asset into another is priced at now */
+  async findCurrent(
+    fromAssetTypeCode: string,
+    toAssetTypeCode: string,
+  ): Promise<ExchangeRate> {
+    const rate = await this.rateRepo.findOne({
+      where: {
+        fromAssetType: { code: fromAssetTypeCode },
+        toAssetType: { code: toAssetTypeCode },
+      },
+      relations: ['fromAssetType', 'toAssetType'],
+      order: { version: 'DESC' },
+    });
+    if (!rate) {
+      throw new NotFoundException(
+        `No exchange rate from ${fromAssetTypeCode} to ${toAssetTypeCode}`,
+      );
+    }
+    return rate;
+  }
+
+  /** Every version of a pair, newest first */
+  async findHistory(
+    fromAssetTypeCode: string,
+    toAssetTypeCode: string,
+  ): Promise<ExchangeRate[]> {
+    const current = await this.findCurrent(fromAssetTypeCode, toAssetTypeCode);
+    return this.rateRepo.find({
+      where: {
+        fromAssetTypeId: current.fromAssetTypeId,
+        toAssetTypeId: current.toAssetTypeId,
+      },
+      order: { version: 'DESC' },
+    });
+  }
+
+  /**
+   * Append the next version of a pair's rate. Rates are directional: the
+   * reverse conversion needs a rate of its own.
+   */
+  async set(
+    dto: SetExchangeRateDto,
+    apiClientId: string,
+  ): Promise<ExchangeRate> {
+    if (dto.fromAssetTypeCode === dto.toAssetTypeCode) {
+      throw new BadRequestException(
+        'Cannot set an exchange rate from an asset to itself',
+      );
+    }
+    if (parseRate(dto.rate) === 0n) {
+      throw new BadRequestException('rate must be greater than zero');
+    }
+    const [fromAssetType, toAssetType] = await Promise.all([
+      this.assetTypesService.findByCode(dto.fromAssetTypeCode),
+      this.assetTypesService.findByCode(dto.toAssetTypeCode),
+    ]);
+
+    const latest = await this.rateRepo.findOne({
+      where: {
+        fromAssetTypeId: fromAssetType.id,
+        toAssetTypeId: toAssetType.id,
+      },
+      order: { version: 'DESC' },
+    });
+
+    try {
+      const rate = await this.rateRepo.save(
+        this.rateRepo.create({
+          fromAssetTypeId: fromAssetType.id,
+          toAssetTypeId: toAssetType.id,
+          version: (latest?.version ?? 0) + 1,
+          rate: dto.rate,
+          spreadBps: dto.spreadBps ?? 0,
+          apiClientId,
+        }),
+      );
+      return { ...rate, fromAssetType, toAssetType };
+    } catch (error: any) {
+      // UNIQUE (from, to, version): another change to the pair won the race
+      if (error?.code === '23505') {
+        throw new ConflictException(
+          `Exchange rate from ${dto.fromAssetTypeCode} to ${dto.toAssetTypeCode} was changed concurrently`,
+        );
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+  Index,
+} from 'typeorm';
+import { Transaction } from '../../transactions/entities/transaction.entity';
+import { TransactionBatch } from '../../transactions/entities/transaction-batch.entity';
+import { Hold } from '../../transactions/entities/hold.entity';
+
+@Entity('idempotency_records')
+@Unique(['clientId', 'route', 'key'])
+@Index(['expiresAt'])
+export class IdempotencyRecord {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'client_id', type: 'varchar', length: 100 })
+  clientId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  route: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  key: string;
+
+  /** SHA-256 of method, path and normalized body of the originating request */
+  @Column({ name: 'request_hash', type: 'varchar', length: 64 })
+  requestHash: string;
+
+  /** Exactly one of transactionId / batchId / holdId is set */
+  @ManyToOne(() => Transaction, { nullable: true })
+  @JoinColumn({ name: 'transaction_id' })
+  transaction: Transaction;
+
+  @Column({ name: 'transaction_id', nullable: true })
+  transactionId: string;
+
+  @ManyToOne(() => TransactionBatch, { nullable: true })
+  @JoinColumn({ name: 'batch_id' })
+  batch: TransactionBatch;
+
+  @Column({ name: 'batch_id', nullable: true })
+  batchId: string;
+
+  @ManyToOne(() => Hold, { nullable: true })
+  @JoinColumn({ name: 'hold_id' })
+  hold: Hold;
+
+  @Column({ name: 'hold_id', nullable: true })
+  holdId: string;
+
+  @Column({ name: 'expires_at', type: 'timestamptz' })
+  expiresAt: Date;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
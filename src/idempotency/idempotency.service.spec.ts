@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyRecord } from './entities/idempotency-record.entity';
+import { IdempotencyContext } from '../common/utils/idempotency-context';
+import { TransactionStatus } from '../common/enums';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+  let recordRepo: Record<string, jest.Mock>;
+  let configService: { get: jest.Mock };
+
+  const context: IdempotencyContext = {
+    key: 'key-1',
+    clientId: 'shop-backend',
+    route: 'POST /api/v1/transactions/purchase',
+    requestHash: 'hash-1',
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        {
+          provide: getRepositoryToken(IdempotencyRecord),
+          useValue: recordRepo,
+        },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    return module.get<IdempotencyService>(IdempotencyService);
+  };
+
+  beforeEach(async () => {
+    recordRepo = {
+      findOne: jest.fn(),
+      delete: jest.fn(),
+    };
+    configService = { get: jest.fn() };
+
+    service = await createService();
+  });
+
+  describe('claim', () => {
+    it('should drop an expired record and insert one with the default 24h TTL', async () => {
+      const manager = { delete: jest.fn(), insert: jest.fn() };
+      const before = Date.now();
+
+      await service.claim(manager as any, context, { transactionId: 'txn-1' });
+
+      expect(manager.delete).toHaveBeenCalledWith(
+        IdempotencyRecord,
+        expect.objectContaining({
+          clientId: 'shop-backend',
+          route: 'POST /api/v1/transactions/purchase',
+          key: 'key-1',
+        }),
+      );
+      const inserted = manager.insert.mock.calls[0][1];
+      expect(inserted).toMatchObject({
+        clientId: 'shop-backend',
+        key: 'key-1',
+        requestHash: 'hash-1',
+        transactionId: 'txn-1',
+      });
+      expect(inserted.expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + 24 * 60 * 60 * 1000,
+      );
+    });
+
+    it('should honour IDEMPOTENCY_TTL_HOURS', async () => {
+      configService.get.mockReturnValue('1');
+      service = await createService();
+      const manager = { delete: jest.fn(), insert: jest.fn() };
+      const before = Date.now();
+
+      await service.claim(manager as any, context, { transactionId: 'txn-1' });
+
+      const { expiresAt } = manager.insert.mock.calls[0][1];
+      expect(expiresAt.getTime() - before).toBeLessThanOrEqual(
+        60 * 60 * 1000 + 1000,
+      );
+    });
+  });
+
+  describe('replayExisting', () => {
+    it('should return the transaction of the winning request', async () => {
+      const transaction = { id: 'txn-1', status: TransactionStatus.COMPLETED };
+      recordRepo.findOne.mockResolvedValue({
+        requestHash: 'hash-1',
+        transaction,
+      });
+
+      await expect(service.replayExisting(context)).resolves.toBe(transaction);
+    });
+
+    it('should throw ConflictException when no live record exists', async () => {
+      recordRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.replayExisting(context)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('should delete expired records and return the count', async () => {
+      recordRepo.delete.mockResolvedValue({ affected: 3 });
+
+      await expect(service.purgeExpired()).resolves.toBe(3);
+      expect(recordRepo.delete).toHaveBeenCalledWith({
+        expiresAt: expect.anything(),
+      });
+    });
+  });
+});
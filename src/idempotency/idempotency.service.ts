@@ -0,0 +1,160 @@
+import {
+  Injectable,
+  ConflictException,
+  HttpException,
+  UnprocessableEntityException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { EntityManager, LessThanOrEqual, MoreThan, Repository } from 'typeorm';
+import { IdempotencyRecord } from './entities/idempotency-record.entity';
+import { Transaction } from '../transactions/entities/transaction.entity';
+import { TransactionBatch } from '../transactions/entities/transaction-batch.entity';
+import { Hold } from '../transactions/entities/hold.entity';
+import { TransactionStatus } from '../common/enums';
+import { IdempotencyContext } from '../common/utils/idempotency-context';
+
+const DEFAULT_TTL_HOURS = 24;
+
+/** What a key resolves to: a transaction, an atomic batch or a hold */
+export type IdempotencyTarget =
+  | { transactionId: string }
+  | { batchId: string }
+  | { holdId: string };
+
+type IdempotentResult = Transaction | TransactionBatch | Hold;
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly ttlMs: number;
+
+  constructor(
+    @InjectRepository(IdempotencyRecord)
+    private readonly recordRepo: Repository<IdempotencyRecord>,
+    configService: ConfigService,
+  ) {
+    const ttlHours =
+      Number(configService.get<string>('IDEMPOTENCY_TTL_HOURS')) ||
+      DEFAULT_TTL_HOURS;
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
+  }
+
+  /** Find the unexpired record for a (client, route, key) scope, if any */
+  async findActive(
+    context: IdempotencyContext,
+  ): Promise<IdempotencyRecord | null> {
+    return this.recordRepo.findOne({
+      where: {
+        clientId: context.clientId,
+        route: context.route,
+        key: context.key,
+        expiresAt: MoreThan(new Date()),
+      },
+      relations: [
+        'transaction',
+        'transaction.ledgerEntries',
+        'transaction.sourceWallet',
+        'transaction.sourceWallet.assetType',
+        'transaction.sourceWallet.user',
+        'transaction.destinationWallet',
+        'transaction.destinationWallet.assetType',
+        'transaction.destinationWallet.user',
+        'batch',
+        'batch.transactions',
+        'batch.transactions.ledgerEntries',
+        'hold',
+      ],
+    });
+  }
+
+  /**
+   * Bind a key to its outcome inside the caller's DB transaction.
+   * An expired record for the same scope is dropped first so the key can be
+   * reused; a live one makes the INSERT fail with 23505.
+   */
+  async claim(
+    manager: EntityManager,
+    context: IdempotencyContext,
+    target: IdempotencyTarget,
+  ): Promise<void> {
+    const now = new Date();
+    await manager.delete(IdempotencyRecord, {
+      clientId: context.clientId,
+      route: context.route,
+      key: context.key,
+      expiresAt: LessThanOrEqual(now),
+    });
+    await manager.insert(IdempotencyRecord, {
+      clientId: context.clientId,
+      route: context.route,
+      key: context.key,
+      requestHash: context.requestHash,
+      ...target,
+      expiresAt: new Date(now.getTime() + this.ttlMs),
+    });
+  }
+
+  /**
+   * Resolve a replayed key to the original outcome:
+   * - different request → 422
+   * - COMPLETED (or since reversed) → the stored transaction, batch or hold
+   * - PENDING → 409
+   * - FAILED → the original error, with its original status code
+   */
+  replay<T extends IdempotentResult = Transaction>(
+    record: IdempotencyRecord,
+    context: IdempotencyContext,
+  ): T {
+    // Stripe-style: a key is bound to the request that first used it
+    if (record.requestHash !== context.requestHash) {
+      throw new UnprocessableEntityException(
+        'Idempotency-Key was already used with a different request',
+      );
+    }
+
+    const result: IdempotentResult =
+      record.transaction ?? record.batch ?? record.hold;
+    // Holds share the FAILED value but have no PENDING state
+    const status: string = result.status;
+    if (status === TransactionStatus.PENDING) {
+      throw new ConflictException('Transaction is currently being processed');
+    }
+    if (status === TransactionStatus.FAILED) {
+      // Replay the original rejection with its original status code
+      if (result.errorStatus) {
+        throw new HttpException(result.errorMessage, result.errorStatus);
+      }
+      throw new UnprocessableEntityException(result.errorMessage);
+    }
+    return result as T;
+  }
+
+  /**
+   * Replay the winner of a race detected by the UNIQUE constraint. The
+   * competing request has committed by the time its conflict is reported.
+   */
+  async replayExisting<T extends IdempotentResult = Transaction>(
+    context: IdempotencyContext,
+  ): Promise<T> {
+    const record = await this.findActive(context);
+    if (!record) {
+      throw new ConflictException('Transaction is currently being processed');
+    }
+    return this.replay<T>(record, context);
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpired(): Promise<number> {
+    const result = await this.recordRepo.delete({
+      expiresAt: LessThanOrEqual(new Date()),
+    });
+    const purged = result.affected ?? 0;
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} expired idempotency records`);
+    }
+    return purged;
+  }
+}
@@ -0,0 +1,23 @@
+import { Controller, Get, ParseUUIDPipe, Query } from '@nestjs/common';
+import { IntegrityService } from './integrity.service';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope } from '../common/enums';
+
+@Controller('admin/integrity')
+@RequireScopes(ApiScope.ADMIN_READ)
+export class IntegrityController {
+  constructor(private readonly integrityService: IntegrityService) {}
+
+  @Get()
+  check() {
+    return this.integrityService.check();
+  }
+
+  @Get('ledger-chain')
+  verifyLedgerChain(
+    @Query('walletId', new ParseUUIDPipe({ optional: true }))
+    walletId?: string,
+  ) {
+    return this.integrityService.verifyLedgerChain(walletId);
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { IntegrityService } from './integrity.service';
+import { IntegrityController } from './integrity.controller';
+
+@Module({
+  controllers: [IntegrityController],
+  providers: [IntegrityService],
+})
+export class IntegrityModule {}
@@ -0,0 +1,191 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { IntegrityService } from './integrity.service';
+import { EntryType, TransactionStatus } from '../common/enums';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { LedgerEntry } from '../transactions/entities/ledger-entry.entity';
+import { hashLedgerEntry } from '../transactions/ledger-chain';
+
+describe('IntegrityService', () => {
+  let service: IntegrityService;
+  let mockQueryRunner: any;
+  let walletRepo: Record<string, jest.Mock>;
+  let getMany: jest.Mock;
+
+  beforeEach(async () => {
+    mockQueryRunner = {
+      connect: jest.fn(),
+      startTransaction: jest.fn(),
+      commitTransaction: jest.fn(),
+      rollbackTransaction: jest.fn(),
+      release: jest.fn(),
+      isTransactionActive: true,
+      query: jest.fn().mockResolvedValue([]),
+    };
+    walletRepo = { findOne: jest.fn(), find: jest.fn() };
+    getMany = jest.fn().mockResolvedValue([]);
+    const entryRepo = {
+      createQueryBuilder: jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        getMany,
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IntegrityService,
+        {
+          provide: DataSource,
+          useValue: {
+            createQueryRunner: jest.fn().mockReturnValue(mockQueryRunner),
+            getRepository: jest.fn((entity) =>
+              entity === Wallet ? walletRepo : entryRepo,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<IntegrityService>(IntegrityService);
+  });
+
+  it('should report clean books from a single snapshot', async () => {
+    const report = await service.check();
+
+    expect(report.ok).toBe(true);
+    expect(mockQueryRunner.startTransaction).toHaveBeenCalledWith(
+      'REPEATABLE READ',
+    );
+    expect(mockQueryRunner.query).toHaveBeenCalledTimes(3);
+    expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    expect(mockQueryRunner.release).toHaveBeenCalled();
+  });
+
+  it('should only expect ledger entries for posted transactions', async () => {
+    await service.check();
+
+    const [, params] = mockQueryRunner.query.mock.calls[0];
+    expect(params[0]).toEqual([
+      TransactionStatus.COMPLETED,
+      TransactionStatus.PARTIALLY_REVERSED,
+      TransactionStatus.REVERSED,
+    ]);
+  });
+
+  it('should fail the report when any category has discrepancies', async () => {
+    const mismatch = {
+      walletId: 'wallet-1',
+      balance: '900.0000',
+      latestBalanceAfter: null,
+      replayedBalance: '0.0000',
+      firstBrokenEntryId: null,
+    };
+    mockQueryRunner.query
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([mismatch]);
+
+    const report = await service.check();
+
+    expect(report.ok).toBe(false);
+    expect(report.walletMismatches).toEqual([mismatch]);
+  });
+
+  it('should roll back and rethrow when a query fails', async () => {
+    mockQueryRunner.query.mockRejectedValueOnce(new Error('boom'));
+
+    await expect(service.check()).rejects.toThrow('boom');
+    expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    expect(mockQueryRunner.release).toHaveBeenCalled();
+  });
+
+  it('should swallow errors in the scheduled run', async () => {
+    mockQueryRunner.query.mockRejectedValueOnce(new Error('boom'));
+
+    await expect(service.checkScheduled()).resolves.toBeUndefined();
+  });
+
+  describe('verifyLedgerChain', () => {
+    const chain = (): LedgerEntry[] => {
+      const entries: LedgerEntry[] = [];
+      let previousHash: string | null = null;
+      ['100', '60', '75'].forEach((balanceAfter, i) => {
+        const entry = {
+          id: `entry-${i}`,
+          sequence: String(i + 1),
+          transactionId: `txn-${i}`,
+          walletId: 'wallet-1',
+          entryType: EntryType.CREDIT,
+          amount: '10.0000',
+          balanceAfter,
+          previousHash,
+        } as LedgerEntry;
+        entry.hash = hashLedgerEntry(entry);
+        previousHash = entry.hash;
+        entries.push(entry);
+      });
+      return entries;
+    };
+
+    it('should accept an intact chain', async () => {
+      walletRepo.findOne.mockResolvedValue({ id: 'wallet-1' });
+      getMany.mockResolvedValueOnce(chain());
+
+      const report = await service.verifyLedgerChain('wallet-1');
+
+      expect(report).toEqual(
+        expect.objectContaining({
+          ok: true,
+          walletsChecked: 1,
+          entriesChecked: 3,
+          breaks: [],
+        }),
+      );
+    });
+
+    it('should detect an entry edited in place', async () => {
+      walletRepo.find.mockResolvedValue([{ id: 'wallet-1' }]);
+      const entries = chain();
+      entries[1].amount = '1000.0000';
+      getMany.mockResolvedValueOnce(entries);
+
+      const report = await service.verifyLedgerChain();
+
+      expect(report.ok).toBe(false);
+      expect(report.breaks).toEqual([
+        {
+          walletId: 'wallet-1',
+          entryId: 'entry-1',
+          sequence: '2',
+          reason: 'HASH_MISMATCH',
+        },
+      ]);
+    });
+
+    it('should detect a deleted entry', async () => {
+      walletRepo.find.mockResolvedValue([{ id: 'wallet-1' }]);
+      const [first, , third] = chain();
+      getMany.mockResolvedValueOnce([first, third]);
+
+      const report = await service.verifyLedgerChain();
+
+      expect(report.breaks[0]).toEqual(
+        expect.objectContaining({
+          entryId: 'entry-2',
+          reason: 'PREVIOUS_HASH_MISMATCH',
+        }),
+      );
+    });
+
+    it('should throw NotFoundException for unknown wallets', async () => {
+      walletRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.verifyLedgerChain('missing')).rejects.toThrow(
+        'Wallet missing not found',
+      );
+    });
+  });
+});
@@ -0,0 +1,370 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, QueryRunner } from 'typeorm';
+import { TransactionStatus } from '../common/enums';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { LedgerEntry } from '../transactions/entities/ledger-entry.entity';
+import { hashLedgerEntry } from '../transactions/ledger-chain';
+
+/** Each category of the report lists at most this many discrepancies */
+const MAX_DISCREPANCIES = 100;
+/** Entries read per query while walking a wallet's hash chain */
+const CHAIN_PAGE_SIZE = 1000;
+
+/** Statuses whose transactions moved funds and must have ledger entries */
+const POSTED_STATUSES = [
+  TransactionStatus.COMPLETED,
+  TransactionStatus.PARTIALLY_REVERSED,
+  TransactionStatus.REVERSED,
+];
+
+export interface UnbalancedTransaction {
+  transactionId: string;
+  status: TransactionStatus;
+  amount: string;
+  debits: number;
+  credits: number;
+  debitAmount: string;
+  creditAmount: string;
+}
+
+export interface AssetImbalance {
+  assetTypeId: string;
+  assetTypeCode: string;
+  /** Sum of credits minus debits, net of genesis mints; should be zero */
+  net: string;
+}
+
+export interface WalletMismatch {
+  walletId: string;
+  balance: string;
+  /** balanceAfter of the wallet's most recent entry (null: no entries) */
+  latestBalanceAfter: string | null;
+  /** Running sum of every entry, in insertion order */
+  replayedBalance: string;
+  /** First entry whose balanceAfter disagrees with the running sum */
+  firstBrokenEntryId: string | null;
+}
+
+export interface IntegrityReport {
+  checkedAt: Date;
+  ok: boolean;
+  unbalancedTransactions: UnbalancedTransaction[];
+  assetImbalances: AssetImbalance[];
+  walletMismatches: WalletMismatch[];
+}
+
+export type ChainBreakReason =
+  | 'MISSING_HASH'
+  | 'PREVIOUS_HASH_MISMATCH'
+  | 'HASH_MISMATCH';
+
+export interface ChainBreak {
+  walletId: string;
+  entryId: string;
+  sequence: string;
+  reason: ChainBreakReason;
+}
+
+export interface LedgerChainReport {
+  checkedAt: Date;
+  ok: boolean;
+  walletsChecked: number;
+  entriesChecked: number;
+  /** First break per wallet; later entries hang off the broken one */
+  breaks: ChainBreak[];
+}
+
+function chainBreakReason(
+  entry: LedgerEntry,
+  previousHash: string | null,
+): ChainBreakReason | null {
+  if (!entry.hash) {
+    return 'MISSING_HASH';
+  }
+  if (entry.previousHash !== previousHash) {
+    return 'PREVIOUS_HASH_MISMATCH';
+  }
+  if (entry.hash !== hashLedgerEntry(entry)) {
+    return 'HASH_MISMATCH';
+  }
+  return null;
+}
+
+/**
+ * Re-derives the books from the ledger and reports where they disagree:
+ * - every posted transaction has exactly one DEBIT on its source wallet and
+ *   one CREDIT on its destination, both for the transaction amount. A
+ *   genesis mint (source = destination, written by the seed) has a single
+ *   CREDIT and nothing else. An EXCHANGE also credits `amount` to one
+ *   treasury and debits `counter_amount` from another, and credits
+ *   `counter_amount` (not `amount`) to its destination
+ * - per asset, credits minus debits equal what was minted
+ * - every wallet balance equals its latest balanceAfter and the replayed
+ *   running sum, and every balanceAfter along the way matches the replay
+ *
+ * All checks read one REPEATABLE READ snapshot, so writes committing while
+ * the check runs cannot show up as false positives.
+ */
+@Injectable()
+export class IntegrityService {
+  private readonly logger = new Logger(IntegrityService.name);
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  async check(): Promise<IntegrityReport> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('REPEATABLE READ');
+
+    try {
+      const unbalancedTransactions =
+        await this.findUnbalancedTransactions(queryRunner);
+      const assetImbalances = await this.findAssetImbalances(queryRunner);
+      const walletMismatches = await this.findWalletMismatches(queryRunner);
+      await queryRunner.commitTransaction();
+
+      return {
+        checkedAt: new Date(),
+        ok:
+          unbalancedTransactions.length === 0 &&
+          assetImbalances.length === 0 &&
+          walletMismatches.length === 0,
+        unbalancedTransactions,
+        assetImbalances,
+        walletMismatches,
+      };
+    } catch (error) {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Walk the hash chain of one wallet, or of every wallet, recomputing each
+   * entry's hash and checking that it links to the entry before it
+   */
+  async verifyLedgerChain(walletId?: string): Promise<LedgerChainReport> {
+    const walletRepo = this.dataSource.getRepository(Wallet);
+    let walletIds: string[];
+    if (walletId) {
+      const wallet = await walletRepo.findOne({ where: { id: walletId } });
+      if (!wallet) {
+        throw new NotFoundException(`Wallet ${walletId} not found`);
+      }
+      walletIds = [walletId];
+    } else {
+      const wallets = await walletRepo.find({
+        select: { id: true },
+        order: { id: 'ASC' },
+      });
+      walletIds = wallets.map((wallet) => wallet.id);
+    }
+
+    const breaks: ChainBreak[] = [];
+    let entriesChecked = 0;
+    for (const id of walletIds) {
+      const result = await this.walkChain(id);
+      entriesChecked += result.entriesChecked;
+      if (result.break && breaks.length < MAX_DISCREPANCIES) {
+        breaks.push(result.break);
+      }
+    }
+
+    return {
+      checkedAt: new Date(),
+      ok: breaks.length === 0,
+      walletsChecked: walletIds.length,
+      entriesChecked,
+      breaks,
+    };
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async checkScheduled(): Promise<void> {
+    try {
+      const report = await this.check();
+      if (!report.ok) {
+        this.logger.error(
+          `Ledger integrity check failed: ${report.unbalancedTransactions.length} unbalanced transactions, ${report.assetImbalances.length} asset imbalances, ${report.walletMismatches.length} wallet mismatches`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Ledger integrity check could not run: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  /**
+   * Entries are appended under the wallet lock, so sequence order is chain
+   * order. Stops at the first break.
+   */
+  private async walkChain(
+    walletId: string,
+  ): Promise<{ entriesChecked: number; break?: ChainBreak }> {
+    const entryRepo = this.dataSource.getRepository(LedgerEntry);
+    let previousHash: string | null = null;
+    let afterSequence = '0';
+    let entriesChecked = 0;
+
+    for (;;) {
+      const entries = await entryRepo
+        .createQueryBuilder('entry')
+        .where('entry.walletId = :walletId', { walletId })
+        .andWhere('entry.sequence > :afterSequence', { afterSequence })
+        .orderBy('entry.sequence', 'ASC')
+        .limit(CHAIN_PAGE_SIZE)
+        .getMany();
+
+      for (const entry of entries) {
+        entriesChecked++;
+        const reason = chainBreakReason(entry, previousHash);
+        if (reason) {
+          return {
+            entriesChecked,
+            break: {
+              walletId,
+              entryId: entry.id,
+              sequence: entry.sequence,
+              reason,
+            },
+          };
+        }
+        previousHash = entry.hash;
+      }
+
+      if (entries.length < CHAIN_PAGE_SIZE) {
+        return { entriesChecked };
+      }
+      afterSequence = entries[entries.length - 1].sequence;
+    }
+  }
+
+  private async findUnbalancedTransactions(
+    queryRunner: QueryRunner,
+  ): Promise<UnbalancedTransaction[]> {
+    return queryRunner.query(
+      `SELECT t.id AS "transactionId", t.status, t.amount,
+              COUNT(e.id) FILTER (WHERE e.entry_type = 'DEBIT')::int AS debits,
+              COUNT(e.id) FILTER (WHERE e.entry_type = 'CREDIT')::int AS credits,
+              COALESCE(SUM(e.amount) FILTER (WHERE e.entry_type = 'DEBIT'), 0)
+                AS "debitAmount",
+              COALESCE(SUM(e.amount) FILTER (WHERE e.entry_type = 'CREDIT'), 0)
+                AS "creditAmount"
+         FROM transactions t
+         LEFT JOIN ledger_entries e ON e.transaction_id = t.id
+        GROUP BY t.id
+       HAVING CASE
+                WHEN t.status <> ALL($1) THEN COUNT(e.id) > 0
+                WHEN t.source_wallet_id = t.dest_wallet_id THEN NOT (
+                  COUNT(e.id) = 1
+                  AND BOOL_AND(e.entry_type = 'CREDIT'
+                               AND e.wallet_id = t.dest_wallet_id
+                               AND e.amount = t.amount)
+                )
+                WHEN t.type = 'EXCHANGE' THEN NOT (
+                  COUNT(e.id) FILTER (WHERE e.entry_type = 'DEBIT'
+                                        AND e.wallet_id = t.source_wallet_id
+                                        AND e.amount = t.amount) = 1
+                  AND COUNT(e.id) FILTER (WHERE e.entry_type = 'CREDIT'
+                                        AND e.wallet_id NOT IN (t.source_wallet_id, t.dest_wallet_id)
+                                        AND e.amount = t.amount) = 1
+                  AND COUNT(e.id) FILTER (WHERE e.entry_type = 'DEBIT'
+                                        AND e.wallet_id NOT IN (t.source_wallet_id, t.dest_wallet_id)
+                                        AND e.amount = t.counter_amount) = 1
+                  AND COUNT(e.id) FILTER (WHERE e.entry_type = 'CREDIT'
+                                        AND e.wallet_id = t.dest_wallet_id
+                                        AND e.amount = t.counter_amount) = 1
+                  AND COUNT(e.id) = 4
+                )
+                ELSE NOT (
+                  COUNT(e.id) FILTER (WHERE e.entry_type = 'DEBIT'
+                                        AND e.wallet_id = t.source_wallet_id
+                                        AND e.amount = t.amount) = 1
+                  AND COUNT(e.id) FILTER (WHERE e.entry_type = 'CREDIT'
+                                        AND e.wallet_id = t.dest_wallet_id
+                                        AND e.amount = t.amount) = 1
+                  AND COUNT(e.id) = 2
+                )
+              END
+        ORDER BY t."createdAt"
+        LIMIT $2`,
+      [POSTED_STATUSES, MAX_DISCREPANCIES],
+    );
+  }
+
+  private async findAssetImbalances(
+    queryRunner: QueryRunner,
+  ): Promise<AssetImbalance[]> {
+    return queryRunner.query(
+      `SELECT a.id AS "assetTypeId", a.code AS "assetTypeCode",
+              SUM(
+                CASE
+                  WHEN t.source_wallet_id = t.dest_wallet_id THEN 0
+                  WHEN e.entry_type = 'CREDIT' THEN e.amount
+                  ELSE -e.amount
+                END
+              ) AS net
+         FROM ledger_entries e
+         JOIN transactions t ON t.id = e.transaction_id
+         JOIN wallets w ON w.id = e.wallet_id
+         JOIN asset_types a ON a.id = w.asset_type_id
+        GROUP BY a.id, a.code
+       HAVING SUM(
+                CASE
+                  WHEN t.source_wallet_id = t.dest_wallet_id THEN 0
+                  WHEN e.entry_type = 'CREDIT' THEN e.amount
+                  ELSE -e.amount
+                END
+              ) <> 0
+        ORDER BY a.code
+        LIMIT $1`,
+      [MAX_DISCREPANCIES],
+    );
+  }
+
+  private async findWalletMismatches(
+    queryRunner: QueryRunner,
+  ): Promise<WalletMismatch[]> {
+    return queryRunner.query(
+      `WITH replay AS (
+         SELECT e.id, e.wallet_id, e.sequence, e.balance_after,
+                SUM(CASE WHEN e.entry_type = 'CREDIT'
+                         THEN e.amount ELSE -e.amount END)
+                  OVER (PARTITION BY e.wallet_id ORDER BY e.sequence)
+                  AS running,
+                ROW_NUMBER()
+                  OVER (PARTITION BY e.wallet_id ORDER BY e.sequence DESC)
+                  AS position
+           FROM ledger_entries e
+       ), per_wallet AS (
+         SELECT wallet_id,
+                MAX(balance_after) FILTER (WHERE position = 1)
+                  AS latest_balance_after,
+                MAX(running) FILTER (WHERE position = 1) AS replayed,
+                (ARRAY_AGG(id ORDER BY sequence)
+                  FILTER (WHERE balance_after <> running))[1]
+                  AS first_broken_entry_id
+           FROM replay
+          GROUP BY wallet_id
+       )
+       SELECT w.id AS "walletId", w.balance,
+              r.latest_balance_after AS "latestBalanceAfter",
+              COALESCE(r.replayed, 0)::decimal(18, 4) AS "replayedBalance",
+              r.first_broken_entry_id AS "firstBrokenEntryId"
+         FROM wallets w
+         LEFT JOIN per_wallet r ON r.wallet_id = w.id
+        WHERE w.balance <> COALESCE(r.replayed, 0)
+           OR w.balance <> COALESCE(r.latest_balance_after, 0)
+           OR r.first_broken_entry_id IS NOT NULL
+        ORDER BY w.id
+        LIMIT $1`,
+      [MAX_DISCREPANCIES],
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { useContainer } from 'class-validator';
 import { AppModule } from './app.module';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
 
@@ -18,6 +19,8 @@ async function bootstrap() {
     }),
   );
   app.useGlobalFilters(new AllExceptionsFilter());
+  // Lets DB-backed validators (e.g. AssetAmountConstraint) use Nest DI
+  useContainer(app.select(AppModule), { fallbackOnErrors: true });
 
   const port = configService.get<number>('APP_PORT') || 3000;
   await app.listen(port);
@@ -0,0 +1,49 @@
+import {
+  IsEnum,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Validate,
+} from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { AssetAmountConstraint } from '../../asset-types/validators/asset-amount.validator';
+import { CatchUpPolicy, ScheduleInterval } from '../../common/enums';
+
+export class CreateScheduleDto {
+  @IsUUID()
+  @IsNotEmpty()
+  userId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  assetTypeCode: string;
+
+  @IsAmount()
+  @Validate(AssetAmountConstraint)
+  amount: string;
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+
+  /** Omit for a one-off bonus */
+  @IsEnum(ScheduleInterval)
+  @IsOptional()
+  interval?: ScheduleInterval;
+
+  /** First occurrence; defaults to now */
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  startAt?: string;
+
+  /** Recurring schedules only */
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  endsAt?: string;
+
+  /** Defaults to LATEST */
+  @IsEnum(CatchUpPolicy)
+  @IsOptional()
+  catchUpPolicy?: CatchUpPolicy;
+}
@@ -0,0 +1,12 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ScheduleStatus } from '../../common/enums';
+
+export class ListSchedulesQueryDto {
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @IsEnum(ScheduleStatus)
+  @IsOptional()
+  status?: ScheduleStatus;
+}
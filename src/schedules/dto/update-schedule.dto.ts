@@ -0,0 +1,22 @@
+import { IsEnum, IsISO8601, IsOptional } from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { CatchUpPolicy } from '../../common/enums';
+
+/** Timing other than the end date is fixed; replace the schedule instead */
+export class UpdateScheduleDto {
+  @IsAmount()
+  @IsOptional()
+  amount?: string;
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+
+  /** null removes the end date */
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  endsAt?: string | null;
+
+  @IsEnum(CatchUpPolicy)
+  @IsOptional()
+  catchUpPolicy?: CatchUpPolicy;
+}
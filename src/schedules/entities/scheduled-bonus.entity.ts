@@ -0,0 +1,105 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import {
+  CatchUpPolicy,
+  ScheduleInterval,
+  ScheduleStatus,
+} from '../../common/enums';
+import { User } from '../../users/entities/user.entity';
+import { ApiClient } from '../../api-clients/entities/api-client.entity';
+
+/**
+ * A future-dated or recurring BONUS. Occurrences fall at startAt plus whole
+ * intervals; nextRunAt is the earliest one not yet run or skipped.
+ */
+@Entity('scheduled_bonuses')
+@Index(['status', 'nextRunAt'])
+@Index(['userId'])
+export class ScheduledBonus {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @Column({ name: 'asset_type_code', type: 'varchar', length: 50 })
+  assetTypeCode: string;
+
+  @Column({ type: 'decimal', precision: 18, scale: 4 })
+  amount: string;
+
+  /** Copied onto every bonus, alongside scheduleId and occurrenceAt */
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  metadata: Record<string, any>;
+
+  /** Null for a one-off bonus */
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  interval: ScheduleInterval | null;
+
+  @Column({ name: 'start_at', type: 'timestamptz' })
+  startAt: Date;
+
+  /** No occurrence after this instant; null runs until cancelled */
+  @Column({ name: 'ends_at', type: 'timestamptz', nullable: true })
+  endsAt: Date | null;
+
+  @Column({
+    name: 'catch_up_policy',
+    type: 'varchar',
+    length: 20,
+    default: CatchUpPolicy.LATEST,
+  })
+  catchUpPolicy: CatchUpPolicy;
+
+  @Column({ type: 'varchar', length: 20, default: ScheduleStatus.ACTIVE })
+  status: ScheduleStatus;
+
+  /** Null once the schedule is completed or cancelled */
+  @Column({ name: 'next_run_at', type: 'timestamptz', nullable: true })
+  nextRunAt: Date | null;
+
+  /** Occurrences executed, including those the bonus rejected */
+  @Column({ name: 'run_count', type: 'int', default: 0 })
+  runCount: number;
+
+  /** Occurrences dropped by the catch-up policy or while paused */
+  @Column({ name: 'skipped_count', type: 'int', default: 0 })
+  skippedCount: number;
+
+  @Column({ name: 'last_run_at', type: 'timestamptz', nullable: true })
+  lastRunAt: Date | null;
+
+  /** Most recent bonus the schedule issued successfully */
+  @Column({ name: 'last_transaction_id', type: 'uuid', nullable: true })
+  lastTransactionId: string | null;
+
+  /** Why the most recent occurrence was rejected; cleared on success */
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null;
+
+  @ManyToOne(() => ApiClient)
+  @JoinColumn({ name: 'api_client_id' })
+  apiClient: ApiClient;
+
+  /** Client that created the schedule; its bonuses are issued in its name */
+  @Column({ name: 'api_client_id' })
+  apiClientId: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,165 @@
+import { CatchUpPolicy, ScheduleInterval } from '../common/enums';
+import { ScheduledBonus } from './entities/scheduled-bonus.entity';
+import {
+  occurrenceAfter,
+  planOccurrences,
+  skipDue,
+} from './schedule-occurrences';
+
+describe('schedule occurrences', () => {
+  const GRACE_MS = 5 * 60 * 1000;
+  const at = (iso: string) => new Date(iso);
+  const daily = (overrides: Partial<ScheduledBonus> = {}): ScheduledBonus =>
+    ({
+      interval: ScheduleInterval.DAILY,
+      endsAt: null,
+      nextRunAt: at('2026-03-01T09:00:00Z'),
+      catchUpPolicy: CatchUpPolicy.ALL,
+      ...overrides,
+    }) as ScheduledBonus;
+
+  describe('occurrenceAfter', () => {
+    it('should step by the interval until the end date', () => {
+      const schedule = daily({ endsAt: at('2026-03-02T09:00:00Z') });
+
+      expect(occurrenceAfter(schedule, at('2026-03-01T09:00:00Z'))).toEqual(
+        at('2026-03-02T09:00:00Z'),
+      );
+      expect(occurrenceAfter(schedule, at('2026-03-02T09:00:00Z'))).toBeNull();
+    });
+
+    it('should end a one-off schedule after its only occurrence', () => {
+      expect(
+        occurrenceAfter(daily({ interval: null }), at('2026-03-01T09:00:00Z')),
+      ).toBeNull();
+    });
+  });
+
+  describe('planOccurrences', () => {
+    // Three occurrences missed; the latest is 3 hours overdue
+    const now = at('2026-03-03T12:00:00Z');
+
+    it('should run nothing before the next occurrence', () => {
+      const plan = planOccurrences(
+        daily(),
+        at('2026-03-01T08:59:59Z'),
+        GRACE_MS,
+        100,
+      );
+
+      expect(plan).toEqual({
+        run: [],
+        skipped: 0,
+        nextRunAt: at('2026-03-01T09:00:00Z'),
+      });
+    });
+
+    it('should run every missed occurrence under ALL', () => {
+      const plan = planOccurrences(daily(), now, GRACE_MS, 100);
+
+      expect(plan).toEqual({
+        run: [
+          at('2026-03-01T09:00:00Z'),
+          at('2026-03-02T09:00:00Z'),
+          at('2026-03-03T09:00:00Z'),
+        ],
+        skipped: 0,
+        nextRunAt: at('2026-03-04T09:00:00Z'),
+      });
+    });
+
+    it('should leave the rest of a long backlog for later under ALL', () => {
+      const plan = planOccurrences(daily(), now, GRACE_MS, 2);
+
+      expect(plan.run).toHaveLength(2);
+      expect(plan.nextRunAt).toEqual(at('2026-03-03T09:00:00Z'));
+    });
+
+    it('should run only the latest occurrence under LATEST', () => {
+      const plan = planOccurrences(
+        daily({ catchUpPolicy: CatchUpPolicy.LATEST }),
+        now,
+        GRACE_MS,
+        100,
+      );
+
+      expect(plan).toEqual({
+        run: [at('2026-03-03T09:00:00Z')],
+        skipped: 2,
+        nextRunAt: at('2026-03-04T09:00:00Z'),
+      });
+    });
+
+    it('should skip overdue occurrences under NONE', () => {
+      const plan = planOccurrences(
+        daily({ catchUpPolicy: CatchUpPolicy.NONE }),
+        now,
+        GRACE_MS,
+        100,
+      );
+
+      expect(plan).toEqual({
+        run: [],
+        skipped: 3,
+        nextRunAt: at('2026-03-04T09:00:00Z'),
+      });
+    });
+
+    it('should still run an on-time occurrence under NONE', () => {
+      const plan = planOccurrences(
+        daily({ catchUpPolicy: CatchUpPolicy.NONE }),
+        at('2026-03-01T09:01:00Z'),
+        GRACE_MS,
+        100,
+      );
+
+      expect(plan.run).toEqual([at('2026-03-01T09:00:00Z')]);
+    });
+
+    it('should not run occurrences past the end date', () => {
+      const plan = planOccurrences(
+        daily({ endsAt: at('2026-03-02T10:00:00Z') }),
+        now,
+        GRACE_MS,
+        100,
+      );
+
+      expect(plan).toEqual({
+        run: [at('2026-03-01T09:00:00Z'), at('2026-03-02T09:00:00Z')],
+        skipped: 0,
+        nextRunAt: null,
+      });
+    });
+
+    it('should complete a one-off schedule once it runs', () => {
+      const plan = planOccurrences(
+        daily({ interval: null }),
+        now,
+        GRACE_MS,
+        100,
+      );
+
+      expect(plan).toEqual({
+        run: [at('2026-03-01T09:00:00Z')],
+        skipped: 0,
+        nextRunAt: null,
+      });
+    });
+  });
+
+  describe('skipDue', () => {
+    it('should skip everything due and resume at the next occurrence', () => {
+      expect(skipDue(daily(), at('2026-03-03T12:00:00Z'))).toEqual({
+        skipped: 3,
+        nextRunAt: at('2026-03-04T09:00:00Z'),
+      });
+    });
+
+    it('should keep a future occurrence', () => {
+      expect(skipDue(daily(), at('2026-03-01T08:00:00Z'))).toEqual({
+        skipped: 0,
+        nextRunAt: at('2026-03-01T09:00:00Z'),
+      });
+    });
+  });
+});
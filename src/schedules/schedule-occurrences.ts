@@ -0,0 +1,111 @@
+import { CatchUpPolicy, ScheduleInterval } from '../common/enums';
+import { ScheduledBonus } from './entities/scheduled-bonus.entity';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const INTERVAL_MS: Record<ScheduleInterval, number> = {
+  [ScheduleInterval.HOURLY]: HOUR_MS,
+  [ScheduleInterval.DAILY]: 24 * HOUR_MS,
+  [ScheduleInterval.WEEKLY]: 7 * 24 * HOUR_MS,
+};
+
+type ScheduleTiming = Pick<
+  ScheduledBonus,
+  'interval' | 'endsAt' | 'nextRunAt' | 'catchUpPolicy'
+>;
+
+export interface OccurrencePlan {
+  /** Occurrences to run now, oldest first */
+  run: Date[];
+  /** Due occurrences the catch-up policy drops */
+  skipped: number;
+  /** Where the schedule continues; null when nothing is left */
+  nextRunAt: Date | null;
+}
+
+/** The occurrence after `at`, or null past the end of the schedule */
+export function occurrenceAfter(
+  schedule: Pick<ScheduledBonus, 'interval' | 'endsAt'>,
+  at: Date,
+): Date | null {
+  if (!schedule.interval) {
+    return null;
+  }
+  const next = new Date(at.getTime() + INTERVAL_MS[schedule.interval]);
+  return schedule.endsAt && next > schedule.endsAt ? null : next;
+}
+
+/**
+ * How many occurrences from nextRunAt on have fallen due by `now`. Counted
+ * arithmetically so a long outage costs nothing to skip.
+ */
+function countDue(schedule: ScheduleTiming, now: Date): number {
+  const first = schedule.nextRunAt;
+  if (!first || first > now) {
+    return 0;
+  }
+  if (!schedule.interval) {
+    return 1;
+  }
+  const step = INTERVAL_MS[schedule.interval];
+  const last = schedule.endsAt && schedule.endsAt < now ? schedule.endsAt : now;
+  return Math.max(Math.floor((last.getTime() - first.getTime()) / step) + 1, 0);
+}
+
+function occurrenceAt(schedule: ScheduleTiming, index: number): Date {
+  const step = schedule.interval ? INTERVAL_MS[schedule.interval] : 0;
+  return new Date(schedule.nextRunAt!.getTime() + index * step);
+}
+
+/**
+ * Decide which due occurrences to run. Under ALL at most `limit` run per
+ * call; the rest stay due for the next call.
+ */
+export function planOccurrences(
+  schedule: ScheduleTiming,
+  now: Date,
+  graceMs: number,
+  limit: number,
+): OccurrencePlan {
+  const due = countDue(schedule, now);
+  if (due === 0) {
+    return { run: [], skipped: 0, nextRunAt: schedule.nextRunAt };
+  }
+
+  if (schedule.catchUpPolicy === CatchUpPolicy.ALL) {
+    const count = Math.min(due, limit);
+    const run = Array.from({ length: count }, (_, i) =>
+      occurrenceAt(schedule, i),
+    );
+    return {
+      run,
+      skipped: 0,
+      nextRunAt: occurrenceAfter(schedule, run[count - 1]),
+    };
+  }
+
+  const latest = occurrenceAt(schedule, due - 1);
+  const onTime = now.getTime() - latest.getTime() <= graceMs;
+  const run =
+    schedule.catchUpPolicy === CatchUpPolicy.LATEST || onTime ? [latest] : [];
+  return {
+    run,
+    skipped: due - run.length,
+    nextRunAt: occurrenceAfter(schedule, latest),
+  };
+}
+
+/** Drop every occurrence due by `now`, e.g. those missed while paused */
+export function skipDue(
+  schedule: ScheduleTiming,
+  now: Date,
+): Pick<OccurrencePlan, 'skipped' | 'nextRunAt'> {
+  const due = countDue(schedule, now);
+  if (due === 0) {
+    return { skipped: 0, nextRunAt: schedule.nextRunAt };
+  }
+  return {
+    skipped: due,
+    nextRunAt: occurrenceAfter(schedule, occurrenceAt(schedule, due - 1)),
+  };
+}
@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import {
+  ScheduleRunner,
+  SCHEDULE_ROUTE,
+  occurrenceKey,
+} from './schedule-runner.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import { ScheduledBonus } from './entities/scheduled-bonus.entity';
+import {
+  CatchUpPolicy,
+  ScheduleInterval,
+  ScheduleStatus,
+} from '../common/enums';
+
+describe('ScheduleRunner', () => {
+  let runner: ScheduleRunner;
+  let manager: any;
+  let getOne: jest.Mock;
+  let bonus: jest.Mock;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const schedule = (overrides: Partial<ScheduledBonus> = {}): ScheduledBonus =>
+    ({
+      id: 'schedule-1',
+      userId: 'user-1',
+      assetTypeCode: 'GOLD',
+      amount: '10.0000',
+      metadata: { campaign: 'daily-login' },
+      interval: ScheduleInterval.DAILY,
+      endsAt: null,
+      // Two daily occurrences are due, the latest an hour ago
+      nextRunAt: new Date(Date.now() - 25 * HOUR_MS),
+      catchUpPolicy: CatchUpPolicy.ALL,
+      status: ScheduleStatus.ACTIVE,
+      runCount: 0,
+      skippedCount: 0,
+      lastRunAt: null,
+      lastTransactionId: null,
+      lastError: null,
+      apiClientId: 'client-1',
+      ...overrides,
+    }) as ScheduledBonus;
+
+  beforeEach(async () => {
+    getOne = jest.fn().mockResolvedValue(null);
+    manager = {
+      save: jest.fn((entity) => entity),
+      getRepository: jest.fn().mockReturnValue({
+        createQueryBuilder: jest.fn().mockReturnValue({
+          setLock: jest.fn().mockReturnThis(),
+          setOnLocked: jest.fn().mockReturnThis(),
+          where: jest.fn().mockReturnThis(),
+          andWhere: jest.fn().mockReturnThis(),
+          orderBy: jest.fn().mockReturnThis(),
+          limit: jest.fn().mockReturnThis(),
+          getOne,
+        }),
+      }),
+    };
+    bonus = jest.fn().mockResolvedValue({ id: 'txn-1' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduleRunner,
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+        { provide: TransactionsService, useValue: { bonus } },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    runner = module.get<ScheduleRunner>(ScheduleRunner);
+  });
+
+  it('should issue each due occurrence with its own idempotency key', async () => {
+    const due = schedule();
+    const first = due.nextRunAt!;
+    const second = new Date(first.getTime() + 24 * HOUR_MS);
+    getOne.mockResolvedValueOnce(due);
+
+    await expect(runner.runDue()).resolves.toBe(2);
+
+    expect(bonus).toHaveBeenCalledTimes(2);
+    const [dto, idempotency] = bonus.mock.calls[0];
+    expect(dto).toEqual({
+      userId: 'user-1',
+      assetTypeCode: 'GOLD',
+      amount: '10.0000',
+      metadata: {
+        campaign: 'daily-login',
+        scheduleId: 'schedule-1',
+        occurrenceAt: first.toISOString(),
+      },
+    });
+    expect(idempotency).toEqual(
+      expect.objectContaining({
+        key: occurrenceKey('schedule-1', first),
+        clientId: 'client-1',
+        route: SCHEDULE_ROUTE,
+      }),
+    );
+    expect(bonus.mock.calls[1][1].key).toBe(
+      occurrenceKey('schedule-1', second),
+    );
+    expect(due.runCount).toBe(2);
+    expect(due.lastTransactionId).toBe('txn-1');
+    expect(due.nextRunAt).toEqual(new Date(second.getTime() + 24 * HOUR_MS));
+  });
+
+  it('should derive the same key and fingerprint on every retry', async () => {
+    const nextRunAt = new Date(Date.now() - HOUR_MS);
+    getOne.mockResolvedValueOnce(schedule({ nextRunAt }));
+    await runner.runDue();
+    const firstRun = bonus.mock.calls[0][1];
+
+    bonus.mockClear();
+    getOne.mockResolvedValueOnce(schedule({ amount: '25.0000', nextRunAt }));
+    await runner.runDue();
+
+    expect(bonus.mock.calls[0][1]).toEqual(firstRun);
+  });
+
+  it('should record a rejected occurrence and move on', async () => {
+    const due = schedule({ catchUpPolicy: CatchUpPolicy.LATEST });
+    getOne.mockResolvedValueOnce(due);
+    bonus.mockRejectedValueOnce(new BadRequestException('User u is CLOSED'));
+
+    await runner.runDue();
+
+    expect(bonus).toHaveBeenCalledTimes(1);
+    expect(due.skippedCount).toBe(1);
+    expect(due.runCount).toBe(1);
+    expect(due.lastError).toBe('User u is CLOSED');
+    expect(due.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should stop at a transient failure and leave the occurrence due', async () => {
+    const due = schedule();
+    const first = due.nextRunAt!;
+    getOne.mockResolvedValueOnce(due);
+    bonus.mockRejectedValueOnce(new ServiceUnavailableException());
+
+    await expect(runner.runDue()).resolves.toBe(0);
+
+    expect(bonus).toHaveBeenCalledTimes(1);
+    expect(due.nextRunAt).toEqual(first);
+    expect(due.runCount).toBe(0);
+    expect(manager.save).toHaveBeenCalledWith(due);
+    // Not claimed again in the same pass
+    expect(getOne).toHaveBeenCalledTimes(2);
+  });
+
+  it('should complete a one-off schedule after it runs', async () => {
+    const due = schedule({
+      interval: null,
+      nextRunAt: new Date(Date.now() - 1000),
+    });
+    getOne.mockResolvedValueOnce(due);
+
+    await runner.runDue();
+
+    expect(due.status).toBe(ScheduleStatus.COMPLETED);
+    expect(due.nextRunAt).toBeNull();
+  });
+
+  it('should swallow errors in the scheduled run', async () => {
+    getOne.mockRejectedValueOnce(new Error('boom'));
+
+    await expect(runner.runScheduled()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,190 @@
+import { Injectable, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHash } from 'crypto';
+import { DataSource, EntityManager } from 'typeorm';
+import { ScheduledBonus } from './entities/scheduled-bonus.entity';
+import { TransactionsService } from '../transactions/transactions.service';
+import { IdempotencyContext } from '../common/utils/idempotency-context';
+import { ScheduleStatus } from '../common/enums';
+import { planOccurrences } from './schedule-occurrences';
+
+const BATCH_SIZE = 100;
+/** Occurrences one schedule may run per pass when catching up with ALL */
+const MAX_CATCH_UP = 100;
+const DEFAULT_GRACE_SECONDS = 300;
+/**
+ * Scheduler runs are not HTTP requests; this pseudo-route keeps their
+ * idempotency keys apart from any a client sends to /transactions/bonus.
+ */
+export const SCHEDULE_ROUTE = 'SCHEDULE /api/v1/schedules/:id';
+
+/** Idempotency-Key of one occurrence; identical on every retry */
+export function occurrenceKey(scheduleId: string, occurrenceAt: Date): string {
+  return `schedule:${scheduleId}:${occurrenceAt.toISOString()}`;
+}
+
+/**
+ * Rejections are final: the bonus recorded a FAILED transaction and would
+ * replay the same error. 409 means the occurrence is still in flight.
+ */
+function isRejection(error: unknown): error is HttpException {
+  return (
+    error instanceof HttpException &&
+    error.getStatus() < 500 &&
+    error.getStatus() !== HttpStatus.CONFLICT
+  );
+}
+
+/**
+ * Executes due schedules through TransactionsService.bonus. Each schedule
+ * is claimed with SKIP LOCKED and held locked while its occurrences run, so
+ * instances never run the same schedule twice. Every occurrence uses a
+ * deterministic Idempotency-Key: if the process dies after a bonus commits
+ * but before the schedule advances, the retry replays that bonus instead
+ * of issuing it again.
+ */
+@Injectable()
+export class ScheduleRunner {
+  private readonly logger = new Logger(ScheduleRunner.name);
+  private readonly graceMs: number;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly transactionsService: TransactionsService,
+    configService: ConfigService,
+  ) {
+    this.graceMs =
+      (Number(configService.get<string>('SCHEDULE_GRACE_SECONDS')) ||
+        DEFAULT_GRACE_SECONDS) * 1000;
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async runScheduled(): Promise<void> {
+    try {
+      await this.runDue();
+    } catch (error) {
+      this.logger.error(
+        `Scheduled bonus run failed: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  /** Run every due schedule once; returns how many occurrences ran */
+  async runDue(): Promise<number> {
+    const seen: string[] = [];
+    let ran = 0;
+    while (seen.length < BATCH_SIZE) {
+      const result = await this.dataSource.transaction(async (manager) => {
+        const schedule = await this.claimDue(manager, seen);
+        if (!schedule) {
+          return null;
+        }
+        seen.push(schedule.id);
+        return this.runSchedule(manager, schedule);
+      });
+      if (result === null) {
+        break;
+      }
+      ran += result;
+    }
+    return ran;
+  }
+
+  private async claimDue(
+    manager: EntityManager,
+    exclude: string[],
+  ): Promise<ScheduledBonus | null> {
+    const query = manager
+      .getRepository(ScheduledBonus)
+      .createQueryBuilder('schedule')
+      .setLock('pessimistic_write')
+      .setOnLocked('skip_locked')
+      .where('schedule.status = :status', { status: ScheduleStatus.ACTIVE })
+      .andWhere('schedule.next_run_at <= now()');
+    if (exclude.length > 0) {
+      query.andWhere('schedule.id NOT IN (:...exclude)', { exclude });
+    }
+    return query.orderBy('schedule.next_run_at', 'ASC').limit(1).getOne();
+  }
+
+  /**
+   * Run the occurrences the catch-up policy keeps and advance the schedule
+   * past them. A transient failure stops at that occurrence, leaving it due
+   * for the next pass.
+   */
+  private async runSchedule(
+    manager: EntityManager,
+    schedule: ScheduledBonus,
+  ): Promise<number> {
+    const plan = planOccurrences(
+      schedule,
+      new Date(),
+      this.graceMs,
+      MAX_CATCH_UP,
+    );
+    schedule.skippedCount += plan.skipped;
+
+    let ran = 0;
+    for (const occurrenceAt of plan.run) {
+      try {
+        const transaction = await this.transactionsService.bonus(
+          {
+            userId: schedule.userId,
+            assetTypeCode: schedule.assetTypeCode,
+            amount: schedule.amount,
+            metadata: {
+              ...schedule.metadata,
+              scheduleId: schedule.id,
+              occurrenceAt: occurrenceAt.toISOString(),
+            },
+          },
+          this.idempotencyFor(schedule, occurrenceAt),
+        );
+        schedule.lastTransactionId = transaction.id;
+        schedule.lastError = null;
+      } catch (error) {
+        if (!isRejection(error)) {
+          this.logger.error(
+            `Schedule ${schedule.id} occurrence ${occurrenceAt.toISOString()} will be retried: ${error instanceof Error ? error.message : error}`,
+          );
+          schedule.nextRunAt = occurrenceAt;
+          await manager.save(schedule);
+          return ran;
+        }
+        this.logger.warn(
+          `Schedule ${schedule.id} occurrence ${occurrenceAt.toISOString()} rejected: ${error.message}`,
+        );
+        schedule.lastError = error.message;
+      }
+      schedule.runCount++;
+      schedule.lastRunAt = new Date();
+      ran++;
+    }
+
+    schedule.nextRunAt = plan.nextRunAt;
+    if (!plan.nextRunAt) {
+      schedule.status = ScheduleStatus.COMPLETED;
+    }
+    await manager.save(schedule);
+    return ran;
+  }
+
+  /**
+   * Bonuses are issued in the name of the client that created the
+   * schedule. The fingerprint covers the occurrence only, so editing the
+   * amount never turns a replay into a 422.
+   */
+  private idempotencyFor(
+    schedule: ScheduledBonus,
+    occurrenceAt: Date,
+  ): IdempotencyContext {
+    const key = occurrenceKey(schedule.id, occurrenceAt);
+    return {
+      key,
+      clientId: schedule.apiClientId,
+      route: SCHEDULE_ROUTE,
+      requestHash: createHash('sha256').update(key).digest('hex'),
+    };
+  }
+}
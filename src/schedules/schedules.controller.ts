@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { SchedulesService } from './schedules.service';
+import { CreateScheduleDto } from './dto/create-schedule.dto';
+import { UpdateScheduleDto } from './dto/update-schedule.dto';
+import { ListSchedulesQueryDto } from './dto/list-schedules-query.dto';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope } from '../common/enums';
+import { AuthenticatedRequest } from '../common/guards/api-key.guard';
+
+/**
+ * Schedules issue bonuses on the creating client's behalf, so anything that
+ * can make one pay out also requires transactions:bonus.
+ */
+@Controller('schedules')
+@RequireScopes(ApiScope.SCHEDULES_MANAGE)
+export class SchedulesController {
+  constructor(private readonly schedulesService: SchedulesService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequireScopes(ApiScope.SCHEDULES_MANAGE, ApiScope.TRANSACTIONS_BONUS)
+  create(@Body() dto: CreateScheduleDto, @Req() request: AuthenticatedRequest) {
+    return this.schedulesService.create(dto, request.apiClient.id);
+  }
+
+  @Get()
+  findAll(@Query() query: ListSchedulesQueryDto) {
+    return this.schedulesService.findAll(query);
+  }
+
+  @Get(':id')
+  findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.schedulesService.findById(id);
+  }
+
+  @Patch(':id')
+  @RequireScopes(ApiScope.SCHEDULES_MANAGE, ApiScope.TRANSACTIONS_BONUS)
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateScheduleDto,
+  ) {
+    return this.schedulesService.update(id, dto);
+  }
+
+  @Post(':id/pause')
+  @HttpCode(HttpStatus.OK)
+  pause(@Param('id', ParseUUIDPipe) id: string) {
+    return this.schedulesService.pause(id);
+  }
+
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes(ApiScope.SCHEDULES_MANAGE, ApiScope.TRANSACTIONS_BONUS)
+  resume(@Param('id', ParseUUIDPipe) id: string) {
+    return this.schedulesService.resume(id);
+  }
+
+  @Delete(':id')
+  cancel(@Param('id', ParseUUIDPipe) id: string) {
+    return this.schedulesService.cancel(id);
+  }
+}
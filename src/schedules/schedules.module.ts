@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduledBonus } from './entities/scheduled-bonus.entity';
+import { User } from '../users/entities/user.entity';
+import { SchedulesService } from './schedules.service';
+import { ScheduleRunner } from './schedule-runner.service';
+import { SchedulesController } from './schedules.controller';
+import { AssetTypesModule } from '../asset-types/asset-types.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ScheduledBonus, User]),
+    AssetTypesModule,
+    TransactionsModule,
+  ],
+  controllers: [SchedulesController],
+  providers: [SchedulesService, ScheduleRunner],
+})
+export class SchedulesModule {}
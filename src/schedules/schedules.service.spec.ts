@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { SchedulesService } from './schedules.service';
+import { ScheduledBonus } from './entities/scheduled-bonus.entity';
+import { User } from '../users/entities/user.entity';
+import { AssetTypesService } from '../asset-types/asset-types.service';
+import {
+  CatchUpPolicy,
+  ScheduleInterval,
+  ScheduleStatus,
+} from '../common/enums';
+
+describe('SchedulesService', () => {
+  let service: SchedulesService;
+  let scheduleRepo: Record<string, jest.Mock>;
+  let userRepo: Record<string, jest.Mock>;
+  let manager: any;
+  let getOne: jest.Mock;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const dto = {
+    userId: 'user-1',
+    assetTypeCode: 'GOLD',
+    amount: '10',
+    interval: ScheduleInterval.DAILY,
+  };
+
+  beforeEach(async () => {
+    scheduleRepo = {
+      create: jest.fn((entity) => entity),
+      save: jest.fn((entity) => entity),
+      find: jest.fn(),
+      findOne: jest.fn(),
+    };
+    userRepo = { findOne: jest.fn().mockResolvedValue({ id: 'user-1' }) };
+    getOne = jest.fn();
+    manager = {
+      save: jest.fn((entity) => entity),
+      getRepository: jest.fn().mockReturnValue({
+        createQueryBuilder: jest.fn().mockReturnValue({
+          setLock: jest.fn().mockReturnThis(),
+          where: jest.fn().mockReturnThis(),
+          getOne,
+        }),
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulesService,
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+        {
+          provide: getRepositoryToken(ScheduledBonus),
+          useValue: scheduleRepo,
+        },
+        { provide: getRepositoryToken(User), useValue: userRepo },
+        {
+          provide: AssetTypesService,
+          useValue: {
+            findByCode: jest.fn().mockResolvedValue({
+              code: 'GOLD',
+              decimalPlaces: 0,
+              isActive: true,
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SchedulesService>(SchedulesService);
+  });
+
+  describe('create', () => {
+    it('should start now with the LATEST catch-up policy by default', async () => {
+      const schedule = await service.create(dto, 'client-1');
+
+      expect(schedule).toEqual(
+        expect.objectContaining({
+          status: ScheduleStatus.ACTIVE,
+          catchUpPolicy: CatchUpPolicy.LATEST,
+          apiClientId: 'client-1',
+          endsAt: null,
+        }),
+      );
+      expect(schedule.nextRunAt).toEqual(schedule.startAt);
+    });
+
+    it('should throw NotFoundException for unknown users', async () => {
+      userRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.create(dto, 'client-1')).rejects.toThrow(
+        'User with id user-1 not found',
+      );
+    });
+
+    it('should reject a start in the past', async () => {
+      await expect(
+        service.create(
+          { ...dto, startAt: new Date(Date.now() - HOUR_MS).toISOString() },
+          'client-1',
+        ),
+      ).rejects.toThrow('startAt must not be in the past');
+    });
+
+    it('should reject an end date on a one-off bonus', async () => {
+      await expect(
+        service.create(
+          {
+            ...dto,
+            interval: undefined,
+            endsAt: new Date(Date.now() + HOUR_MS).toISOString(),
+          },
+          'client-1',
+        ),
+      ).rejects.toThrow('endsAt requires an interval');
+    });
+  });
+
+  describe('update', () => {
+    it('should validate a new amount against the asset', async () => {
+      getOne.mockResolvedValue({
+        id: 'schedule-1',
+        status: ScheduleStatus.ACTIVE,
+      });
+
+      await expect(
+        service.update('schedule-1', { amount: '1.5' }),
+      ).rejects.toThrow('Amount for GOLD must be a whole number');
+    });
+
+    it('should complete a schedule whose end moves before its next run', async () => {
+      getOne.mockResolvedValue({
+        id: 'schedule-1',
+        status: ScheduleStatus.ACTIVE,
+        interval: ScheduleInterval.DAILY,
+        nextRunAt: new Date(Date.now() + 2 * HOUR_MS),
+      });
+
+      const schedule = await service.update('schedule-1', {
+        endsAt: new Date(Date.now() + HOUR_MS).toISOString(),
+      });
+
+      expect(schedule.status).toBe(ScheduleStatus.COMPLETED);
+      expect(schedule.nextRunAt).toBeNull();
+    });
+  });
+
+  describe('resume', () => {
+    it('should skip occurrences that fell due while paused', async () => {
+      const nextRunAt = new Date(Date.now() - 49 * HOUR_MS);
+      getOne.mockResolvedValue({
+        id: 'schedule-1',
+        status: ScheduleStatus.PAUSED,
+        interval: ScheduleInterval.DAILY,
+        endsAt: null,
+        nextRunAt,
+        skippedCount: 0,
+      });
+
+      const schedule = await service.resume('schedule-1');
+
+      expect(schedule.status).toBe(ScheduleStatus.ACTIVE);
+      expect(schedule.skippedCount).toBe(3);
+      expect(schedule.nextRunAt).toEqual(
+        new Date(nextRunAt.getTime() + 72 * HOUR_MS),
+      );
+    });
+
+    it('should reject schedules that are not paused', async () => {
+      getOne.mockResolvedValue({
+        id: 'schedule-1',
+        status: ScheduleStatus.CANCELLED,
+      });
+
+      await expect(service.resume('schedule-1')).rejects.toThrow(
+        'Schedule schedule-1 is CANCELLED',
+      );
+    });
+  });
+
+  it('should stop a cancelled schedule from running', async () => {
+    getOne.mockResolvedValue({
+      id: 'schedule-1',
+      status: ScheduleStatus.PAUSED,
+      nextRunAt: new Date(),
+    });
+
+    const schedule = await service.cancel('schedule-1');
+
+    expect(schedule.status).toBe(ScheduleStatus.CANCELLED);
+    expect(schedule.nextRunAt).toBeNull();
+  });
+
+  it('should throw NotFoundException for unknown schedules', async () => {
+    getOne.mockResolvedValue(null);
+
+    await expect(service.pause('missing')).rejects.toThrow(
+      'Schedule missing not found',
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { ScheduledBonus } from './entities/scheduled-bonus.entity';
+import { User } from '../users/entities/user.entity';
+import { AssetTypesService } from '../asset-types/asset-types.service';
+import { assertAmountAllowed } from '../asset-types/asset-type-limits';
+import { CreateScheduleDto } from './dto/create-schedule.dto';
+import { UpdateScheduleDto } from './dto/update-schedule.dto';
+import { ListSchedulesQueryDto } from './dto/list-schedules-query.dto';
+import { CatchUpPolicy, ScheduleStatus, UserRole } from '../common/enums';
+import { skipDue } from './schedule-occurrences';
+
+/**
+ * CRUD and lifecycle of scheduled bonuses; ScheduleRunner executes them.
+ * Every change locks the schedule row, so it waits for an occurrence the
+ * runner is executing rather than overwriting its progress.
+ */
+@Injectable()
+export class SchedulesService {
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(ScheduledBonus)
+    private readonly scheduleRepo: Repository<ScheduledBonus>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly assetTypesService: AssetTypesService,
+  ) {}
+
+  async create(
+    dto: CreateScheduleDto,
+    apiClientId: string,
+  ): Promise<ScheduledBonus> {
+    const user = await this.userRepo.findOne({
+      where: { id: dto.userId, role: UserRole.USER },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with id ${dto.userId} not found`);
+    }
+    await this.assetTypesService.findByCode(dto.assetTypeCode);
+
+    const now = new Date();
+    const startAt = dto.startAt ? new Date(dto.startAt) : now;
+    const endsAt = dto.endsAt ? new Date(dto.endsAt) : null;
+    if (startAt < now) {
+      throw new BadRequestException('startAt must not be in the past');
+    }
+    if (endsAt && !dto.interval) {
+      throw new BadRequestException('endsAt requires an interval');
+    }
+    if (endsAt && endsAt < startAt) {
+      throw new BadRequestException('endsAt must not be before startAt');
+    }
+
+    return this.scheduleRepo.save(
+      this.scheduleRepo.create({
+        userId: dto.userId,
+        assetTypeCode: dto.assetTypeCode,
+        amount: dto.amount,
+        metadata: dto.metadata ?? {},
+        interval: dto.interval ?? null,
+        startAt,
+        endsAt,
+        catchUpPolicy: dto.catchUpPolicy ?? CatchUpPolicy.LATEST,
+        status: ScheduleStatus.ACTIVE,
+        nextRunAt: startAt,
+        apiClientId,
+      }),
+    );
+  }
+
+  async findAll(query: ListSchedulesQueryDto): Promise<ScheduledBonus[]> {
+    return this.scheduleRepo.find({
+      where: { userId: query.userId, status: query.status },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findById(id: string): Promise<ScheduledBonus> {
+    const schedule = await this.scheduleRepo.findOne({ where: { id } });
+    if (!schedule) {
+      throw new NotFoundException(`Schedule ${id} not found`);
+    }
+    return schedule;
+  }
+
+  /** Changes apply from the next occurrence on */
+  async update(id: string, dto: UpdateScheduleDto): Promise<ScheduledBonus> {
+    return this.dataSource.transaction(async (manager) => {
+      const schedule = await this.lockSchedule(manager, id);
+      this.assertOpen(schedule);
+
+      if (dto.amount != null) {
+        const assetType = await this.assetTypesService.findByCode(
+          schedule.assetTypeCode,
+        );
+        assertAmountAllowed(assetType, dto.amount);
+        schedule.amount = dto.amount;
+      }
+      if (dto.metadata != null) {
+        schedule.metadata = dto.metadata;
+      }
+      if (dto.catchUpPolicy) {
+        schedule.catchUpPolicy = dto.catchUpPolicy;
+      }
+      if (dto.endsAt !== undefined) {
+        const endsAt = dto.endsAt ? new Date(dto.endsAt) : null;
+        if (endsAt && !schedule.interval) {
+          throw new BadRequestException('endsAt requires an interval');
+        }
+        schedule.endsAt = endsAt;
+        // Moving the end before the next occurrence finishes the schedule
+        if (endsAt && schedule.nextRunAt && schedule.nextRunAt > endsAt) {
+          schedule.nextRunAt = null;
+          schedule.status = ScheduleStatus.COMPLETED;
+        }
+      }
+      return manager.save(schedule);
+    });
+  }
+
+  async pause(id: string): Promise<ScheduledBonus> {
+    return this.dataSource.transaction(async (manager) => {
+      const schedule = await this.lockSchedule(manager, id);
+      if (schedule.status === ScheduleStatus.PAUSED) {
+        return schedule;
+      }
+      this.assertStatus(schedule, ScheduleStatus.ACTIVE);
+      schedule.status = ScheduleStatus.PAUSED;
+      return manager.save(schedule);
+    });
+  }
+
+  /**
+   * Occurrences that fell due while paused are skipped whatever the
+   * catch-up policy: pausing means they should not be paid.
+   */
+  async resume(id: string): Promise<ScheduledBonus> {
+    return this.dataSource.transaction(async (manager) => {
+      const schedule = await this.lockSchedule(manager, id);
+      if (schedule.status === ScheduleStatus.ACTIVE) {
+        return schedule;
+      }
+      this.assertStatus(schedule, ScheduleStatus.PAUSED);
+      const { skipped, nextRunAt } = skipDue(schedule, new Date());
+      schedule.skippedCount += skipped;
+      schedule.nextRunAt = nextRunAt;
+      schedule.status = nextRunAt
+        ? ScheduleStatus.ACTIVE
+        : ScheduleStatus.COMPLETED;
+      return manager.save(schedule);
+    });
+  }
+
+  /** Cancelled schedules are kept for audit; they never run again */
+  async cancel(id: string): Promise<ScheduledBonus> {
+    return this.dataSource.transaction(async (manager) => {
+      const schedule = await this.lockSchedule(manager, id);
+      if (schedule.status === ScheduleStatus.CANCELLED) {
+        return schedule;
+      }
+      this.assertOpen(schedule);
+      schedule.status = ScheduleStatus.CANCELLED;
+      schedule.nextRunAt = null;
+      return manager.save(schedule);
+    });
+  }
+
+  private async lockSchedule(
+    manager: EntityManager,
+    id: string,
+  ): Promise<ScheduledBonus> {
+    const schedule = await manager
+      .getRepository(ScheduledBonus)
+      .createQueryBuilder('schedule')
+      .setLock('pessimistic_write')
+      .where('schedule.id = :id', { id })
+      .getOne();
+    if (!schedule) {
+      throw new NotFoundException(`Schedule ${id} not found`);
+    }
+    return schedule;
+  }
+
+  private assertStatus(schedule: ScheduledBonus, status: ScheduleStatus): void {
+    if (schedule.status !== status) {
+      throw new BadRequestException(
+        `Schedule ${schedule.id} is ${schedule.status}`,
+      );
+    }
+  }
+
+  /** Only ACTIVE and PAUSED schedules can still change */
+  private assertOpen(schedule: ScheduledBonus): void {
+    if (
+      schedule.status === ScheduleStatus.COMPLETED ||
+      schedule.status === ScheduleStatus.CANCELLED
+    ) {
+      throw new BadRequestException(
+        `Schedule ${schedule.id} is ${schedule.status}`,
+      );
+    }
+  }
+}
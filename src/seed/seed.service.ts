@@ -5,7 +5,16 @@ import { AssetType } from '../asset-types/entities/asset-type.entity';
 import { Wallet } from '../wallets/entities/wallet.entity';
 import { Transaction } from '../transactions/entities/transaction.entity';
 import { LedgerEntry } from '../transactions/entities/ledger-entry.entity';
+import { chainLedgerEntries } from '../transactions/ledger-chain';
+import { ApiClient } from '../api-clients/entities/api-client.entity';
+import { ExchangeRate } from '../exchange-rates/entities/exchange-rate.entity';
+import { fromMinor, toMinor } from '../common/utils/money';
 import {
+  generateApiKey,
+  hashApiKey,
+} from '../api-clients/api-clients.service';
+import {
+  ApiScope,
   UserRole,
   TransactionType,
   TransactionStatus,
@@ -37,11 +46,14 @@ export class SeedService {
           code: 'DIAMONDS',
           name: 'Diamonds',
           description: 'Rare premium currency for exclusive items',
+          decimalPlaces: 0,
         },
         {
           code: 'LOYALTY_POINTS',
           name: 'Loyalty Points',
           description: 'Earned through gameplay activity and daily logins',
+          decimalPlaces: 0,
+          maxBalance: '100000',
         },
       ];
 
@@ -112,7 +124,7 @@ export class SeedService {
           wallet = queryRunner.manager.create(Wallet, {
             userId: treasury.id,
             assetTypeId: assetType.id,
-            balance: 0,
+            balance: '0',
           });
           wallet = await queryRunner.manager.save(wallet);
         }
@@ -123,7 +135,7 @@ export class SeedService {
         });
 
         if (!existingGenesis) {
-          const genesisAmount = 1000000;
+          const genesisAmount = '1000000.0000';
           const genesisTxn = queryRunner.manager.create(Transaction, {
             idempotencyKey: genesisKey,
             type: TransactionType.TOP_UP,
@@ -135,7 +147,9 @@ export class SeedService {
           });
           const savedGenesis = await queryRunner.manager.save(genesisTxn);
 
-          const newBalance = Number(wallet.balance) + genesisAmount;
+          const newBalance = fromMinor(
+            toMinor(wallet.balance) + toMinor(genesisAmount),
+          );
           await queryRunner.manager.update(Wallet, wallet.id, {
             balance: newBalance,
           });
@@ -148,6 +162,7 @@ export class SeedService {
             amount: genesisAmount,
             balanceAfter: newBalance,
           });
+          await chainLedgerEntries(queryRunner.manager, [creditEntry]);
           await queryRunner.manager.save(LedgerEntry, [creditEntry]);
 
           this.logger.log(
@@ -159,9 +174,9 @@ export class SeedService {
       }
 
       // 5. Create wallets for users and fund them via proper transactions
-      const initialBalances: Record<string, Record<string, number>> = {
-        alice: { GOLD_COINS: 1000, DIAMONDS: 500, LOYALTY_POINTS: 200 },
-        bob: { GOLD_COINS: 500, DIAMONDS: 100, LOYALTY_POINTS: 50 },
+      const initialBalances: Record<string, Record<string, string>> = {
+        alice: { GOLD_COINS: '1000', DIAMONDS: '500', LOYALTY_POINTS: '200' },
+        bob: { GOLD_COINS: '500', DIAMONDS: '100', LOYALTY_POINTS: '50' },
       };
 
       for (const user of users) {
@@ -174,7 +189,7 @@ export class SeedService {
             wallet = queryRunner.manager.create(Wallet, {
               userId: user.id,
               assetTypeId: assetType.id,
-              balance: 0,
+              balance: '0',
             });
             wallet = await queryRunner.manager.save(wallet);
           }
@@ -208,9 +223,12 @@ export class SeedService {
           const savedTxn = await queryRunner.manager.save(transaction);
 
           // Update balances
-          const newTreasuryBalance =
-            Number(treasuryWallet.balance) - amount;
-          const newUserBalance = Number(wallet.balance) + amount;
+          const newTreasuryBalance = fromMinor(
+            toMinor(treasuryWallet.balance) - toMinor(amount),
+          );
+          const newUserBalance = fromMinor(
+            toMinor(wallet.balance) + toMinor(amount),
+          );
 
           await queryRunner.manager.update(Wallet, treasuryWallet.id, {
             balance: newTreasuryBalance,
@@ -240,6 +258,10 @@ export class SeedService {
             balanceAfter: newUserBalance,
           });
 
+          await chainLedgerEntries(queryRunner.manager, [
+            debitEntry,
+            creditEntry,
+          ]);
           await queryRunner.manager.save(LedgerEntry, [
             debitEntry,
             creditEntry,
@@ -251,6 +273,65 @@ export class SeedService {
         }
       }
 
+      // 6. Exchange rates: premium currencies convert into gold, with a spread
+      const assetByCode = new Map(
+        assetTypes.map((assetType) => [assetType.code, assetType]),
+      );
+      const ratesData = [
+        { from: 'DIAMONDS', to: 'GOLD_COINS', rate: '100', spreadBps: 0 },
+        {
+          from: 'LOYALTY_POINTS',
+          to: 'GOLD_COINS',
+          rate: '0.1',
+          spreadBps: 500,
+        },
+      ];
+      for (const data of ratesData) {
+        const fromAssetType = assetByCode.get(data.from)!;
+        const toAssetType = assetByCode.get(data.to)!;
+        const existing = await queryRunner.manager.findOne(ExchangeRate, {
+          where: {
+            fromAssetTypeId: fromAssetType.id,
+            toAssetTypeId: toAssetType.id,
+          },
+        });
+        if (existing) {
+          this.logger.log(
+            `Exchange rate ${data.from} → ${data.to} already exists, skipping`,
+          );
+          continue;
+        }
+        await queryRunner.manager.save(
+          queryRunner.manager.create(ExchangeRate, {
+            fromAssetTypeId: fromAssetType.id,
+            toAssetTypeId: toAssetType.id,
+            version: 1,
+            rate: data.rate,
+            spreadBps: data.spreadBps,
+          }),
+        );
+        this.logger.log(`Created exchange rate ${data.from} → ${data.to}`);
+      }
+
+      // 7. Create an admin API client holding every scope
+      let adminKey: string | null = null;
+      const existingAdmin = await queryRunner.manager.findOne(ApiClient, {
+        where: { name: 'admin' },
+      });
+      if (!existingAdmin) {
+        adminKey = generateApiKey();
+        const adminClient = queryRunner.manager.create(ApiClient, {
+          name: 'admin',
+          scopes: Object.values(ApiScope),
+          keyPrefix: adminKey.slice(0, 10),
+          keyHash: hashApiKey(adminKey),
+        });
+        await queryRunner.manager.save(adminClient);
+        this.logger.log('Created admin API client');
+      } else {
+        this.logger.log('Admin API client already exists, skipping');
+      }
+
       await queryRunner.commitTransaction();
       this.logger.log('Database seeded successfully!');
       this.logger.log('');
@@ -263,6 +344,10 @@ export class SeedService {
       this.logger.log(
         'Bob: 500 Gold, 100 Diamonds, 50 Loyalty Points',
       );
+      if (adminKey) {
+        // Only the hash is stored — this is the one chance to copy the key
+        this.logger.log(`Admin API key: ${adminKey}`);
+      }
     } catch (error) {
       await queryRunner.rollbackTransaction();
       this.logger.error('Seed failed', error);
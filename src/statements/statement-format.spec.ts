@@ -0,0 +1,65 @@
+import { formatStatement } from './statement-format';
+import { StatementRecord } from './statements.service';
+import { EntryType, StatementFormat, TransactionType } from '../common/enums';
+
+describe('statement format', () => {
+  const record: StatementRecord = {
+    record: 'entry',
+    walletId: 'wallet-1',
+    assetTypeCode: 'GOLD_COINS',
+    createdAt: new Date('2026-01-15T10:00:00Z'),
+    sequence: '7',
+    transactionId: 'txn-1',
+    transactionType: TransactionType.PURCHASE,
+    referenceId: 'order "42", gift',
+    entryType: EntryType.DEBIT,
+    amount: '10.0000',
+    balanceAfter: '-5.0000',
+  };
+
+  const render = async (
+    records: StatementRecord[],
+    format: StatementFormat,
+  ) => {
+    let out = '';
+    for await (const chunk of formatStatement(
+      (async function* () {
+        yield* records;
+      })(),
+      format,
+    )) {
+      out += chunk;
+    }
+    return out;
+  };
+
+  it('should write a CSV header and quote fields that need it', async () => {
+    const csv = await render([record], StatementFormat.CSV);
+
+    expect(csv.split('\r\n')).toEqual([
+      'record,walletId,assetTypeCode,createdAt,sequence,transactionId,transactionType,referenceId,entryType,amount,balanceAfter',
+      'entry,wallet-1,GOLD_COINS,2026-01-15T10:00:00.000Z,7,txn-1,PURCHASE,"order ""42"", gift",DEBIT,10.0000,-5.0000',
+      '',
+    ]);
+  });
+
+  it('should defuse spreadsheet formulas in free-text fields only', async () => {
+    const csv = await render(
+      [{ ...record, referenceId: '=HYPERLINK("x")' }],
+      StatementFormat.CSV,
+    );
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(csv).toContain(',-5.0000\r\n');
+  });
+
+  it('should write one JSON object per line', async () => {
+    const ndjson = await render([record, record], StatementFormat.NDJSON);
+    const lines = ndjson.trimEnd().split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(
+      expect.objectContaining({ record: 'entry', amount: '10.0000' }),
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { Logger, StreamableFile } from '@nestjs/common';
+import { ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { StatementFormat } from '../common/enums';
+import { Statement, StatementRecord } from './statements.service';
+
+export const STATEMENT_COLUMNS: (keyof StatementRecord)[] = [
+  'record',
+  'walletId',
+  'assetTypeCode',
+  'createdAt',
+  'sequence',
+  'transactionId',
+  'transactionType',
+  'referenceId',
+  'entryType',
+  'amount',
+  'balanceAfter',
+];
+
+const CONTENT_TYPES: Record<StatementFormat, string> = {
+  [StatementFormat.CSV]: 'text/csv; charset=utf-8',
+  [StatementFormat.NDJSON]: 'application/x-ndjson',
+};
+
+const logger = new Logger('StatementExport');
+
+/**
+ * Quote a CSV field when needed. Free-text fields that a spreadsheet
+ * would run as a formula get a leading apostrophe.
+ */
+function csvField(value: unknown, column: keyof StatementRecord): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (column === 'referenceId' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function* formatStatement(
+  records: AsyncIterable<StatementRecord>,
+  format: StatementFormat,
+): AsyncGenerator<string> {
+  if (format === StatementFormat.CSV) {
+    yield STATEMENT_COLUMNS.join(',') + '\r\n';
+  }
+  for await (const record of records) {
+    yield format === StatementFormat.CSV
+      ? STATEMENT_COLUMNS.map((column) =>
+          csvField(record[column], column),
+        ).join(',') + '\r\n'
+      : JSON.stringify(record) + '\n';
+  }
+}
+
+/**
+ * Stream a statement as a download. A failure after the first bytes
+ * aborts the connection, so a cut-off file cannot pass for a complete one
+ * (complete statements end with their closing_balance records).
+ */
+export function toStreamableFile(
+  statement: Statement,
+  format: StatementFormat,
+): StreamableFile {
+  const file = new StreamableFile(
+    Readable.from(formatStatement(statement.records, format)),
+    {
+      type: CONTENT_TYPES[format],
+      disposition: `attachment; filename="${statement.filename}.${format}"`,
+    },
+  );
+  return file.setErrorHandler((error, response) => {
+    logger.error(`Statement ${statement.filename} failed: ${error.message}`);
+    if (response.destroyed) {
+      return;
+    }
+    if (response.headersSent) {
+      (response as unknown as ServerResponse).destroy(error);
+      return;
+    }
+    response.statusCode = 500;
+    response.send('Statement export failed');
+  });
+}
@@ -0,0 +1,55 @@
+import {
+  Controller,
+  DefaultValuePipe,
+  Get,
+  Param,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import { StatementsService } from './statements.service';
+import { toStreamableFile } from './statement-format';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope, StatementFormat } from '../common/enums';
+import { ParseTimestampPipe } from '../common/pipes/parse-timestamp.pipe';
+
+const formatPipes = [
+  new DefaultValuePipe(StatementFormat.CSV),
+  new ParseEnumPipe(StatementFormat),
+];
+
+@Controller('statements')
+export class StatementsController {
+  constructor(private readonly statementsService: StatementsService) {}
+
+  @Get('wallets/:walletId')
+  @RequireScopes(ApiScope.WALLETS_READ)
+  async walletStatement(
+    @Param('walletId', ParseUUIDPipe) walletId: string,
+    @Query('format', ...formatPipes) format: StatementFormat,
+    @Query('from', new ParseTimestampPipe({ optional: true })) from?: Date,
+    @Query('to', new ParseTimestampPipe({ optional: true })) to?: Date,
+  ): Promise<StreamableFile> {
+    const statement = await this.statementsService.walletStatement(walletId, {
+      from,
+      to,
+    });
+    return toStreamableFile(statement, format);
+  }
+
+  @Get('users/:userId')
+  @RequireScopes(ApiScope.TRANSACTIONS_READ)
+  async userStatement(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query('format', ...formatPipes) format: StatementFormat,
+    @Query('from', new ParseTimestampPipe({ optional: true })) from?: Date,
+    @Query('to', new ParseTimestampPipe({ optional: true })) to?: Date,
+  ): Promise<StreamableFile> {
+    const statement = await this.statementsService.userStatement(userId, {
+      from,
+      to,
+    });
+    return toStreamableFile(statement, format);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { LedgerEntry } from '../transactions/entities/ledger-entry.entity';
+import { User } from '../users/entities/user.entity';
+import { StatementsService } from './statements.service';
+import { StatementsController } from './statements.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Wallet, LedgerEntry, User])],
+  controllers: [StatementsController],
+  providers: [StatementsService],
+})
+export class StatementsModule {}
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { StatementsService, StatementRecord } from './statements.service';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { LedgerEntry } from '../transactions/entities/ledger-entry.entity';
+import { User } from '../users/entities/user.entity';
+import { EntryType, TransactionType } from '../common/enums';
+
+describe('StatementsService', () => {
+  let service: StatementsService;
+  let walletRepo: Record<string, jest.Mock>;
+  let ledgerEntryRepo: Record<string, jest.Mock>;
+  let userRepo: Record<string, jest.Mock>;
+  let entryQuery: Record<string, jest.Mock>;
+
+  const gold = { id: 'wallet-gold', assetType: { code: 'GOLD_COINS' } };
+  const gems = { id: 'wallet-gems', assetType: { code: 'DIAMONDS' } };
+  const from = new Date('2026-01-01T00:00:00Z');
+  const to = new Date('2026-02-01T00:00:00Z');
+
+  const entry = (sequence: string, walletId: string, balanceAfter: string) => ({
+    id: `entry-${sequence}`,
+    sequence,
+    walletId,
+    transactionId: `txn-${sequence}`,
+    transaction: { type: TransactionType.TOP_UP, referenceId: null },
+    entryType: EntryType.CREDIT,
+    amount: '10.0000',
+    balanceAfter,
+    createdAt: new Date('2026-01-15T00:00:00Z'),
+  });
+
+  const collect = async (records: AsyncIterable<StatementRecord>) => {
+    const out: StatementRecord[] = [];
+    for await (const record of records) {
+      out.push(record);
+    }
+    return out;
+  };
+
+  beforeEach(async () => {
+    entryQuery = {
+      leftJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+    walletRepo = { findOne: jest.fn(), find: jest.fn() };
+    ledgerEntryRepo = {
+      findOne: jest.fn(),
+      createQueryBuilder: jest.fn().mockReturnValue(entryQuery),
+    };
+    userRepo = { findOne: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StatementsService,
+        { provide: getRepositoryToken(Wallet), useValue: walletRepo },
+        {
+          provide: getRepositoryToken(LedgerEntry),
+          useValue: ledgerEntryRepo,
+        },
+        { provide: getRepositoryToken(User), useValue: userRepo },
+      ],
+    }).compile();
+
+    service = module.get<StatementsService>(StatementsService);
+  });
+
+  describe('walletStatement', () => {
+    it('should frame the entries with opening and closing balances', async () => {
+      walletRepo.findOne.mockResolvedValue(gold);
+      ledgerEntryRepo.findOne.mockResolvedValue({ balanceAfter: '40.0000' });
+      entryQuery.getMany.mockResolvedValueOnce([
+        entry('7', gold.id, '50.0000'),
+        entry('9', gold.id, '60.0000'),
+      ]);
+
+      const statement = await service.walletStatement(gold.id, { from, to });
+      const records = await collect(statement.records);
+
+      expect(statement.filename).toBe('wallet-wallet-gold');
+      expect(records.map((r) => [r.record, r.balanceAfter])).toEqual([
+        ['opening_balance', '40.0000'],
+        ['entry', '50.0000'],
+        ['entry', '60.0000'],
+        ['closing_balance', '60.0000'],
+      ]);
+      expect(records[0].createdAt).toBe(from);
+      expect(records[3].createdAt).toBe(to);
+    });
+
+    it('should start from zero without a from date', async () => {
+      walletRepo.findOne.mockResolvedValue(gold);
+
+      const statement = await service.walletStatement(gold.id, {});
+      const records = await collect(statement.records);
+
+      expect(ledgerEntryRepo.findOne).not.toHaveBeenCalled();
+      expect(records.map((r) => r.balanceAfter)).toEqual(['0.0000', '0.0000']);
+    });
+
+    it('should fail before streaming for unknown wallets', async () => {
+      walletRepo.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.walletStatement('missing', { from, to }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject an empty range', async () => {
+      await expect(
+        service.walletStatement(gold.id, { from: to, to: from }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('userStatement', () => {
+    it('should page through entries of every wallet by sequence', async () => {
+      userRepo.findOne.mockResolvedValue({ id: 'user-1' });
+      walletRepo.find.mockResolvedValue([gold, gems]);
+      ledgerEntryRepo.findOne.mockResolvedValue(null);
+      const firstPage = Array.from({ length: 1000 }, (_, i) =>
+        entry(String(i + 1), gold.id, `${i + 1}.0000`),
+      );
+      entryQuery.getMany
+        .mockResolvedValueOnce(firstPage)
+        .mockResolvedValueOnce([entry('1001', gems.id, '5.0000')]);
+
+      const statement = await service.userStatement('user-1', { from, to });
+      const records = await collect(statement.records);
+
+      expect(entryQuery.andWhere).toHaveBeenCalledWith(
+        'entry.sequence > :afterSequence',
+        { afterSequence: '1000' },
+      );
+      const closing = records.filter((r) => r.record === 'closing_balance');
+      expect(closing.map((r) => [r.assetTypeCode, r.balanceAfter])).toEqual([
+        ['GOLD_COINS', '1000.0000'],
+        ['DIAMONDS', '5.0000'],
+      ]);
+      expect(records).toHaveLength(2 + 1001 + 2);
+    });
+
+    it('should throw NotFoundException for unknown users', async () => {
+      userRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.userStatement('missing', {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
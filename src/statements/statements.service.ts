@@ -0,0 +1,216 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { LedgerEntry } from '../transactions/entities/ledger-entry.entity';
+import { User } from '../users/entities/user.entity';
+import { EntryType, TransactionType } from '../common/enums';
+import { normalizeAmount } from '../common/utils/money';
+
+/** Entries fetched per query while streaming */
+const STATEMENT_PAGE_SIZE = 1000;
+
+export interface StatementRange {
+  /** Inclusive; omitted means from the first entry */
+  from?: Date;
+  /** Exclusive; omitted means now */
+  to?: Date;
+}
+
+/**
+ * One line of a statement. Each wallet gets an opening_balance record
+ * first and a closing_balance record last; entries in between are in
+ * ledger (sequence) order across all wallets of the statement.
+ */
+export interface StatementRecord {
+  record: 'opening_balance' | 'entry' | 'closing_balance';
+  walletId: string;
+  assetTypeCode: string;
+  createdAt: Date | null;
+  sequence: string | null;
+  transactionId: string | null;
+  transactionType: TransactionType | null;
+  referenceId: string | null;
+  entryType: EntryType | null;
+  amount: string | null;
+  balanceAfter: string;
+}
+
+export interface Statement {
+  filename: string;
+  /** Lazy: rows are read from the database as the consumer pulls them */
+  records: AsyncIterable<StatementRecord>;
+}
+
+/**
+ * Statements are built from the ledger, so they show posted movements only
+ * (no FAILED attempts and no holds). Lookups that can fail run before the
+ * first record is produced, so a 404 is still a proper HTTP error.
+ */
+@Injectable()
+export class StatementsService {
+  constructor(
+    @InjectRepository(Wallet)
+    private readonly walletRepo: Repository<Wallet>,
+    @InjectRepository(LedgerEntry)
+    private readonly ledgerEntryRepo: Repository<LedgerEntry>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+  ) {}
+
+  async walletStatement(
+    walletId: string,
+    range: StatementRange,
+  ): Promise<Statement> {
+    const { from, to } = this.resolveRange(range);
+    const wallet = await this.walletRepo.findOne({
+      where: { id: walletId },
+      relations: ['assetType'],
+    });
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+    return {
+      filename: `wallet-${walletId}`,
+      records: this.generate([wallet], from, to),
+    };
+  }
+
+  /** Every wallet the user had before `to`, interleaved in ledger order */
+  async userStatement(
+    userId: string,
+    range: StatementRange,
+  ): Promise<Statement> {
+    const { from, to } = this.resolveRange(range);
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User with id ${userId} not found`);
+    }
+    const wallets = await this.walletRepo.find({
+      where: { userId, createdAt: LessThan(to) },
+      relations: ['assetType'],
+      order: { createdAt: 'ASC' },
+    });
+    return {
+      filename: `user-${userId}`,
+      records: this.generate(wallets, from, to),
+    };
+  }
+
+  private async *generate(
+    wallets: Wallet[],
+    from: Date | undefined,
+    to: Date,
+  ): AsyncGenerator<StatementRecord> {
+    if (wallets.length === 0) {
+      return;
+    }
+    const walletsById = new Map(wallets.map((wallet) => [wallet.id, wallet]));
+    const balances = new Map<string, string>();
+
+    for (const wallet of wallets) {
+      const opening = from
+        ? await this.balanceBefore(wallet.id, from)
+        : normalizeAmount(0);
+      balances.set(wallet.id, opening);
+      yield this.balanceRecord(
+        'opening_balance',
+        wallet,
+        from ?? null,
+        opening,
+      );
+    }
+
+    let afterSequence = '0';
+    for (;;) {
+      const qb = this.ledgerEntryRepo
+        .createQueryBuilder('entry')
+        .leftJoinAndSelect('entry.transaction', 'transaction')
+        .where('entry.walletId IN (:...walletIds)', {
+          walletIds: [...walletsById.keys()],
+        })
+        .andWhere('entry.createdAt < :to', { to })
+        .andWhere('entry.sequence > :afterSequence', { afterSequence })
+        .orderBy('entry.sequence', 'ASC')
+        .limit(STATEMENT_PAGE_SIZE);
+      if (from) {
+        qb.andWhere('entry.createdAt >= :from', { from });
+      }
+      const entries = await qb.getMany();
+
+      for (const entry of entries) {
+        const wallet = walletsById.get(entry.walletId)!;
+        balances.set(wallet.id, entry.balanceAfter);
+        yield {
+          record: 'entry',
+          walletId: wallet.id,
+          assetTypeCode: wallet.assetType.code,
+          createdAt: entry.createdAt,
+          sequence: entry.sequence,
+          transactionId: entry.transactionId,
+          transactionType: entry.transaction.type,
+          referenceId: entry.transaction.referenceId ?? null,
+          entryType: entry.entryType,
+          amount: entry.amount,
+          balanceAfter: entry.balanceAfter,
+        };
+      }
+
+      if (entries.length < STATEMENT_PAGE_SIZE) {
+        break;
+      }
+      afterSequence = entries[entries.length - 1].sequence;
+    }
+
+    for (const wallet of wallets) {
+      yield this.balanceRecord(
+        'closing_balance',
+        wallet,
+        to,
+        balances.get(wallet.id)!,
+      );
+    }
+  }
+
+  private resolveRange(range: StatementRange): { from?: Date; to: Date } {
+    const to = range.to ?? new Date();
+    if (range.from && range.from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    return { from: range.from, to };
+  }
+
+  /** balanceAfter of the wallet's last entry before `at` */
+  private async balanceBefore(walletId: string, at: Date): Promise<string> {
+    const entry = await this.ledgerEntryRepo.findOne({
+      where: { walletId, createdAt: LessThan(at) },
+      order: { sequence: 'DESC' },
+    });
+    return normalizeAmount(entry?.balanceAfter ?? 0);
+  }
+
+  private balanceRecord(
+    record: 'opening_balance' | 'closing_balance',
+    wallet: Wallet,
+    at: Date | null,
+    balance: string,
+  ): StatementRecord {
+    return {
+      record,
+      walletId: wallet.id,
+      assetTypeCode: wallet.assetType.code,
+      createdAt: at,
+      sequence: null,
+      transactionId: null,
+      transactionType: null,
+      referenceId: null,
+      entryType: null,
+      amount: null,
+      balanceAfter: balance,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import {
+  Controller,
+  DefaultValuePipe,
+  Get,
+  ParseEnumPipe,
+  Query,
+} from '@nestjs/common';
+import { SupplyService } from './supply.service';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope, SupplyInterval } from '../common/enums';
+import { ParseTimestampPipe } from '../common/pipes/parse-timestamp.pipe';
+
+@Controller('admin/supply')
+@RequireScopes(ApiScope.ADMIN_READ)
+export class SupplyController {
+  constructor(private readonly supplyService: SupplyService) {}
+
+  @Get()
+  report(
+    @Query(
+      'interval',
+      new DefaultValuePipe(SupplyInterval.DAY),
+      new ParseEnumPipe(SupplyInterval),
+    )
+    interval: SupplyInterval,
+    @Query('assetTypeCode') assetTypeCode?: string,
+    @Query('from', new ParseTimestampPipe({ optional: true })) from?: Date,
+    @Query('to', new ParseTimestampPipe({ optional: true })) to?: Date,
+  ) {
+    return this.supplyService.report({ interval, assetTypeCode, from, to });
+  }
+}
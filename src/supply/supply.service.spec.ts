@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { SupplyService } from './supply.service';
+import { SupplyInterval, UserRole } from '../common/enums';
+
+describe('SupplyService', () => {
+  let service: SupplyService;
+  let manager: Record<string, jest.Mock>;
+
+  const gold = { id: 'asset-gold', code: 'GOLD_COINS', issuanceBudget: null };
+  const gems = {
+    id: 'asset-gems',
+    code: 'DIAMONDS',
+    issuanceBudget: '500.0000',
+  };
+  const from = new Date('2026-03-01T00:00:00Z');
+  const to = new Date('2026-03-03T00:00:00Z');
+
+  beforeEach(async () => {
+    manager = {
+      find: jest.fn().mockResolvedValue([gems, gold]),
+      findOne: jest.fn(),
+      query: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SupplyService,
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((_level, work) => work(manager)) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(SupplyService);
+  });
+
+  it('should total each asset over the range and report its periods', async () => {
+    manager.query
+      .mockResolvedValueOnce([
+        {
+          assetTypeId: 'asset-gold',
+          periodStart: from,
+          minted: '100.0000',
+          burned: '0',
+          exchanged: '-20.0000',
+          reversed: '0',
+          reclaimed: '0',
+          circulating: '1580.0000',
+        },
+        {
+          assetTypeId: 'asset-gold',
+          periodStart: new Date('2026-03-02T00:00:00Z'),
+          minted: '50.0000',
+          burned: '30.0000',
+          exchanged: '0',
+          reversed: '10.0000',
+          reclaimed: '5.0000',
+          circulating: '1605.0000',
+        },
+      ])
+      .mockResolvedValueOnce([
+        { assetTypeId: 'asset-gold', circulating: '1500.0000' },
+      ])
+      .mockResolvedValueOnce([
+        { assetTypeId: 'asset-gold', circulating: '1605.0000' },
+      ]);
+
+    const report = await service.report({
+      interval: SupplyInterval.DAY,
+      from,
+      to,
+    });
+
+    expect(manager.query).toHaveBeenNthCalledWith(1, expect.any(String), [
+      UserRole.SYSTEM,
+      null,
+      'day',
+      from,
+      to,
+    ]);
+    expect(manager.query).toHaveBeenNthCalledWith(2, expect.any(String), [
+      UserRole.SYSTEM,
+      null,
+      from,
+    ]);
+    expect(report.assets).toEqual([
+      {
+        assetTypeId: 'asset-gems',
+        assetTypeCode: 'DIAMONDS',
+        issuanceBudget: '500.0000',
+        openingCirculating: '0.0000',
+        minted: '0.0000',
+        burned: '0.0000',
+        exchanged: '0.0000',
+        reversed: '0.0000',
+        reclaimed: '0.0000',
+        circulating: '0.0000',
+        periods: [],
+      },
+      {
+        assetTypeId: 'asset-gold',
+        assetTypeCode: 'GOLD_COINS',
+        issuanceBudget: null,
+        openingCirculating: '1500.0000',
+        minted: '150.0000',
+        burned: '30.0000',
+        exchanged: '-20.0000',
+        reversed: '10.0000',
+        reclaimed: '5.0000',
+        circulating: '1605.0000',
+        periods: [
+          {
+            periodStart: from,
+            minted: '100.0000',
+            burned: '0.0000',
+            exchanged: '-20.0000',
+            reversed: '0.0000',
+            reclaimed: '0.0000',
+            circulating: '1580.0000',
+          },
+          {
+            periodStart: new Date('2026-03-02T00:00:00Z'),
+            minted: '50.0000',
+            burned: '30.0000',
+            exchanged: '0.0000',
+            reversed: '10.0000',
+            reclaimed: '5.0000',
+            circulating: '1605.0000',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should default to the last 30 days', async () => {
+    const report = await service.report({
+      interval: SupplyInterval.WEEK,
+      to,
+    });
+
+    expect(report.from).toEqual(new Date('2026-02-01T00:00:00Z'));
+  });
+
+  it('should narrow the report to one asset', async () => {
+    manager.findOne.mockResolvedValue(gold);
+
+    const report = await service.report({
+      interval: SupplyInterval.MONTH,
+      assetTypeCode: 'GOLD_COINS',
+    });
+
+    expect(report.assets.map((asset) => asset.assetTypeCode)).toEqual([
+      'GOLD_COINS',
+    ]);
+    expect(manager.query.mock.calls[0][1][1]).toBe('asset-gold');
+  });
+
+  it('should reject unknown assets', async () => {
+    manager.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.report({ interval: SupplyInterval.DAY, assetTypeCode: 'NOPE' }),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('should reject an empty range', async () => {
+    await expect(
+      service.report({ interval: SupplyInterval.DAY, from: to, to }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,263 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
+import { SupplyInterval, UserRole } from '../common/enums';
+import { fromMinor, normalizeAmount, toMinor } from '../common/utils/money';
+
+/** Range of a report when the caller gives no `from` */
+const DEFAULT_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SupplyQuery {
+  interval: SupplyInterval;
+  assetTypeCode?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Treasury flows, each counted once. `exchanged` and `reversed` are net
+ * amounts put into circulation and go negative when more came back.
+ */
+export interface SupplyFlows {
+  /** Issued as top-ups and bonuses */
+  minted: string;
+  /** Spent back as purchases */
+  burned: string;
+  /** Paid out for exchanges into the asset less taken in for exchanges out */
+  exchanged: string;
+  /** Refunds and reversals of treasury transactions */
+  reversed: string;
+  /** Taken back by closure sweeps and credit-lot expiries */
+  reclaimed: string;
+}
+
+export interface SupplyPeriod extends SupplyFlows {
+  periodStart: Date;
+  /** At the end of the period (or at `to` for the last one) */
+  circulating: string;
+}
+
+/**
+ * Flows are totals within the range, so circulating = openingCirculating
+ * + minted - burned + exchanged + reversed - reclaimed
+ */
+export interface AssetSupply extends SupplyFlows {
+  assetTypeId: string;
+  assetTypeCode: string;
+  issuanceBudget: string | null;
+  /** Held by users at `from` */
+  openingCirculating: string;
+  /** Held by users at `to` */
+  circulating: string;
+  /** Periods with any treasury activity, oldest first */
+  periods: SupplyPeriod[];
+}
+
+export interface SupplyReport {
+  from: Date;
+  to: Date;
+  interval: SupplyInterval;
+  assets: AssetSupply[];
+}
+
+interface PeriodRow extends SupplyFlows {
+  assetTypeId: string;
+  periodStart: Date;
+  circulating: string;
+}
+
+/**
+ * Every movement into or out of circulation goes through an asset's
+ * treasury, so supply is read from the treasury ledger alone: its debits
+ * put funds into circulation and its credits take them back. Genesis mints
+ * (source = destination) only stock the treasury and are left out.
+ */
+const CIRCULATING_DELTA = `
+  CASE
+    WHEN t.source_wallet_id = t.dest_wallet_id THEN 0
+    WHEN e.entry_type = 'DEBIT' THEN e.amount
+    ELSE -e.amount
+  END`;
+
+const TREASURY_ENTRIES = `
+  FROM ledger_entries e
+  JOIN transactions t ON t.id = e.transaction_id
+  JOIN wallets w ON w.id = e.wallet_id
+  JOIN users u ON u.id = w.user_id
+ WHERE u.role = $1
+   AND ($2::uuid IS NULL OR w.asset_type_id = $2::uuid)`;
+
+/** Minted, burned and circulating supply per asset type over time */
+@Injectable()
+export class SupplyService {
+  constructor(private readonly dataSource: DataSource) {}
+
+  async report(query: SupplyQuery): Promise<SupplyReport> {
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - DEFAULT_RANGE_MS);
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    // One snapshot, so the periods add up to the totals
+    return this.dataSource.transaction('REPEATABLE READ', async (manager) => {
+      const assetTypes = await this.findAssetTypes(
+        manager,
+        query.assetTypeCode,
+      );
+      const assetTypeId = query.assetTypeCode ? assetTypes[0].id : null;
+      const periods = await this.findPeriods(
+        manager,
+        assetTypeId,
+        query.interval,
+        from,
+        to,
+      );
+      const opening = await this.findCirculating(manager, assetTypeId, from);
+      const circulating = await this.findCirculating(manager, assetTypeId, to);
+
+      return {
+        from,
+        to,
+        interval: query.interval,
+        assets: assetTypes.map((assetType) => {
+          const own = periods.filter(
+            (period) => period.assetTypeId === assetType.id,
+          );
+          return {
+            assetTypeId: assetType.id,
+            assetTypeCode: assetType.code,
+            issuanceBudget: assetType.issuanceBudget,
+            openingCirculating: normalizeAmount(opening.get(assetType.id) ?? 0),
+            ...totalFlows(own),
+            circulating: normalizeAmount(circulating.get(assetType.id) ?? 0),
+            periods: own.map((period) => ({
+              periodStart: period.periodStart,
+              ...flowsOf(period),
+              circulating: normalizeAmount(period.circulating),
+            })),
+          };
+        }),
+      };
+    });
+  }
+
+  private async findAssetTypes(
+    manager: EntityManager,
+    code?: string,
+  ): Promise<AssetType[]> {
+    if (!code) {
+      return manager.find(AssetType, { order: { code: 'ASC' } });
+    }
+    const assetType = await manager.findOne(AssetType, { where: { code } });
+    if (!assetType) {
+      throw new NotFoundException(`Asset type "${code}" not found`);
+    }
+    return [assetType];
+  }
+
+  /**
+   * Whole UTC periods overlapping the range. Flows only count entries
+   * inside the range; circulating is a running total from the
+   * start of the ledger.
+   */
+  private findPeriods(
+    manager: EntityManager,
+    assetTypeId: string | null,
+    interval: SupplyInterval,
+    from: Date,
+    to: Date,
+  ): Promise<PeriodRow[]> {
+    return manager.query(
+      `WITH periods AS (
+         SELECT w.asset_type_id,
+                date_trunc($3, e."createdAt" AT TIME ZONE 'UTC') AS period,
+                SUM(e.amount) FILTER (
+                  WHERE e."createdAt" >= $4 AND e.entry_type = 'DEBIT'
+                    AND t.type IN ('TOP_UP', 'BONUS')
+                ) AS minted,
+                SUM(e.amount) FILTER (
+                  WHERE e."createdAt" >= $4 AND e.entry_type = 'CREDIT'
+                    AND t.type = 'PURCHASE'
+                ) AS burned,
+                SUM(${CIRCULATING_DELTA}) FILTER (
+                  WHERE e."createdAt" >= $4 AND t.type = 'EXCHANGE'
+                ) AS exchanged,
+                SUM(${CIRCULATING_DELTA}) FILTER (
+                  WHERE e."createdAt" >= $4
+                    AND t.type IN ('REFUND', 'REVERSAL')
+                ) AS reversed,
+                -SUM(${CIRCULATING_DELTA}) FILTER (
+                  WHERE e."createdAt" >= $4 AND t.type IN ('SWEEP', 'EXPIRY')
+                ) AS reclaimed,
+                SUM(SUM(${CIRCULATING_DELTA})) OVER (
+                  PARTITION BY w.asset_type_id
+                  ORDER BY date_trunc($3, e."createdAt" AT TIME ZONE 'UTC')
+                ) AS circulating
+         ${TREASURY_ENTRIES}
+            AND e."createdAt" < $5
+          GROUP BY w.asset_type_id,
+                   date_trunc($3, e."createdAt" AT TIME ZONE 'UTC')
+       )
+       SELECT asset_type_id AS "assetTypeId",
+              period AT TIME ZONE 'UTC' AS "periodStart",
+              COALESCE(minted, 0) AS minted,
+              COALESCE(burned, 0) AS burned,
+              COALESCE(exchanged, 0) AS exchanged,
+              COALESCE(reversed, 0) AS reversed,
+              COALESCE(reclaimed, 0) AS reclaimed,
+              circulating
+         FROM periods
+        WHERE period >= date_trunc($3, $4::timestamptz AT TIME ZONE 'UTC')
+        ORDER BY period`,
+      [UserRole.SYSTEM, assetTypeId, interval, from, to],
+    );
+  }
+
+  private async findCirculating(
+    manager: EntityManager,
+    assetTypeId: string | null,
+    at: Date,
+  ): Promise<Map<string, string>> {
+    const rows: { assetTypeId: string; circulating: string }[] =
+      await manager.query(
+        `SELECT w.asset_type_id AS "assetTypeId",
+                SUM(${CIRCULATING_DELTA}) AS circulating
+         ${TREASURY_ENTRIES}
+            AND e."createdAt" < $3
+          GROUP BY w.asset_type_id`,
+        [UserRole.SYSTEM, assetTypeId, at],
+      );
+    return new Map(rows.map((row) => [row.assetTypeId, row.circulating]));
+  }
+}
+
+function flowsOf(period: PeriodRow): SupplyFlows {
+  return {
+    minted: normalizeAmount(period.minted),
+    burned: normalizeAmount(period.burned),
+    exchanged: normalizeAmount(period.exchanged),
+    reversed: normalizeAmount(period.reversed),
+    reclaimed: normalizeAmount(period.reclaimed),
+  };
+}
+
+function totalFlows(periods: PeriodRow[]): SupplyFlows {
+  return {
+    minted: sumOf(periods, 'minted'),
+    burned: sumOf(periods, 'burned'),
+    exchanged: sumOf(periods, 'exchanged'),
+    reversed: sumOf(periods, 'reversed'),
+    reclaimed: sumOf(periods, 'reclaimed'),
+  };
+}
+
+function sumOf(periods: PeriodRow[], field: keyof SupplyFlows): string {
+  return fromMinor(
+    periods.reduce((sum, period) => sum + toMinor(period[field]), 0n),
+  );
+}
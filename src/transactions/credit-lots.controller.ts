@@ -0,0 +1,15 @@
+import { Controller, Get, Param, ParseUUIDPipe } from '@nestjs/common';
+import { CreditLotsService } from './credit-lots.service';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope } from '../common/enums';
+
+@Controller('wallets')
+@RequireScopes(ApiScope.WALLETS_READ)
+export class CreditLotsController {
+  constructor(private readonly creditLotsService: CreditLotsService) {}
+
+  @Get(':walletId/credit-lots')
+  findByWallet(@Param('walletId', ParseUUIDPipe) walletId: string) {
+    return this.creditLotsService.findByWallet(walletId);
+  }
+}
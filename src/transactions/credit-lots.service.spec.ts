@@ -0,0 +1,68 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { CreditLotsService } from './credit-lots.service';
+import { CreditLot } from './entities/credit-lot.entity';
+import { TransactionsService } from './transactions.service';
+import { WalletsService } from '../wallets/wallets.service';
+
+describe('CreditLotsService', () => {
+  let service: CreditLotsService;
+  let lotRepo: Record<string, jest.Mock>;
+  let walletsService: Record<string, jest.Mock>;
+  let transactionsService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    lotRepo = { find: jest.fn().mockResolvedValue([]) };
+    walletsService = { getWalletById: jest.fn() };
+    transactionsService = { expireCreditLot: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CreditLotsService,
+        { provide: getRepositoryToken(CreditLot), useValue: lotRepo },
+        { provide: WalletsService, useValue: walletsService },
+        { provide: TransactionsService, useValue: transactionsService },
+      ],
+    }).compile();
+
+    service = module.get<CreditLotsService>(CreditLotsService);
+  });
+
+  it('should list the lots of an existing wallet', async () => {
+    walletsService.getWalletById.mockResolvedValue({ id: 'wallet-1' });
+
+    await service.findByWallet('wallet-1');
+
+    expect(lotRepo.find).toHaveBeenCalledWith({
+      where: { walletId: 'wallet-1' },
+      order: { expiresAt: 'ASC', createdAt: 'ASC' },
+    });
+  });
+
+  it('should throw NotFoundException for unknown wallets', async () => {
+    walletsService.getWalletById.mockRejectedValue(
+      new NotFoundException('Wallet not found'),
+    );
+
+    await expect(service.findByWallet('missing')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(lotRepo.find).not.toHaveBeenCalled();
+  });
+
+  it('should count only the lots it expired and carry on past failures', async () => {
+    lotRepo.find.mockResolvedValue([
+      { id: 'lot-1' },
+      { id: 'lot-2' },
+      { id: 'lot-3' },
+    ]);
+    transactionsService.expireCreditLot
+      .mockResolvedValueOnce({ id: 'expiry-1' })
+      .mockResolvedValueOnce(null)
+      .mockRejectedValueOnce(new Error('deadlock detected'));
+
+    await expect(service.expireDue()).resolves.toBe(1);
+    expect(transactionsService.expireCreditLot).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,69 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThanOrEqual, MoreThan, Repository } from 'typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { CreditLot } from './entities/credit-lot.entity';
+import { TransactionsService } from './transactions.service';
+import { WalletsService } from '../wallets/wallets.service';
+
+const EXPIRY_BATCH_SIZE = 100;
+
+/**
+ * Reads credit lots and sweeps the overdue ones. Lots are opened and drawn
+ * on inside TransactionsService, under the wallet lock (see credit-lots.ts).
+ */
+@Injectable()
+export class CreditLotsService {
+  private readonly logger = new Logger(CreditLotsService.name);
+
+  constructor(
+    @InjectRepository(CreditLot)
+    private readonly lotRepo: Repository<CreditLot>,
+    private readonly walletsService: WalletsService,
+    private readonly transactionsService: TransactionsService,
+  ) {}
+
+  /** Every lot of a wallet, soonest expiry first, spent and expired included */
+  async findByWallet(walletId: string): Promise<CreditLot[]> {
+    await this.walletsService.getWalletById(walletId);
+    return this.lotRepo.find({
+      where: { walletId },
+      order: { expiresAt: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Expire lots whose expiry has passed. Until the sweep runs, an overdue
+   * lot still counts towards the balance but can no longer be spent.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async expireDue(): Promise<number> {
+    const due = await this.lotRepo.find({
+      where: {
+        expiredAt: IsNull(),
+        remainingAmount: MoreThan('0'),
+        expiresAt: LessThanOrEqual(new Date()),
+      },
+      order: { expiresAt: 'ASC' },
+      take: EXPIRY_BATCH_SIZE,
+    });
+
+    let expired = 0;
+    for (const lot of due) {
+      try {
+        // Null when the lot was spent since the scan
+        if (await this.transactionsService.expireCreditLot(lot.id)) {
+          expired++;
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to expire credit lot ${lot.id}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+    if (expired > 0) {
+      this.logger.log(`Expired ${expired} credit lots`);
+    }
+    return expired;
+  }
+}
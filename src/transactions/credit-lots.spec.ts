@@ -0,0 +1,122 @@
+import { carryLots, drawOnLots, overdueAmount } from './credit-lots';
+import { CreditLot } from './entities/credit-lot.entity';
+import { toMinor } from '../common/utils/money';
+
+describe('credit lots', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  const lot = (id: string, remainingAmount: string, offsetMs: number) =>
+    ({
+      id,
+      remainingAmount,
+      expiresAt: new Date(now.getTime() + offsetMs),
+    }) as CreditLot;
+  let manager: { save: jest.Mock; create: jest.Mock };
+
+  beforeEach(() => {
+    manager = {
+      save: jest.fn(),
+      create: jest.fn((entity, data) => ({ ...data })),
+    };
+  });
+
+  it('should sum only the lots past their expiry', () => {
+    const lots = [lot('a', '10', -1), lot('b', '5', 0), lot('c', '7', 1)];
+
+    expect(overdueAmount(lots, now)).toBe(toMinor('15'));
+  });
+
+  it('should draw on live lots before untracked promotional funds', async () => {
+    const lots = [lot('a', '30', 1000), lot('b', '50', 2000)];
+
+    await drawOnLots(manager as any, lots, toMinor('100'), toMinor('40'), now);
+
+    expect(lots.map((l) => l.remainingAmount)).toEqual(['0.0000', '40.0000']);
+    expect(manager.save).toHaveBeenCalledWith(CreditLot, lots);
+  });
+
+  it('should leave overdue lots to the sweep', async () => {
+    const lots = [lot('a', '30', -1000), lot('b', '50', 1000)];
+
+    // 50 from the live lot, 20 from the untracked balance
+    await drawOnLots(manager as any, lots, toMinor('100'), toMinor('70'), now);
+
+    expect(lots.map((l) => l.remainingAmount)).toEqual(['30', '0.0000']);
+  });
+
+  it('should draw on overdue lots once nothing else is left', async () => {
+    const lots = [lot('a', '30', -1000), lot('b', '50', 1000)];
+
+    await drawOnLots(manager as any, lots, toMinor('100'), toMinor('100'), now);
+
+    expect(lots.map((l) => l.remainingAmount)).toEqual(['0.0000', '0.0000']);
+  });
+
+  it('should not write anything for wallets without lots', async () => {
+    await drawOnLots(manager as any, [], toMinor('100'), toMinor('40'), now);
+
+    expect(manager.save).not.toHaveBeenCalled();
+  });
+
+  it('should report what it took from each lot', async () => {
+    const lots = [lot('a', '30', 1000), lot('b', '50', 2000)];
+
+    const draws = await drawOnLots(
+      manager as any,
+      lots,
+      toMinor('100'),
+      toMinor('40'),
+      now,
+    );
+
+    expect(draws).toEqual([
+      { lot: lots[0], amount: toMinor('30') },
+      { lot: lots[1], amount: toMinor('10') },
+    ]);
+  });
+
+  it('should carry drawn funds to new lots with the same expiry', async () => {
+    const a = lot('a', '0', 1000);
+    const b = lot('b', '40', 2000);
+
+    await carryLots(
+      manager as any,
+      [
+        { lot: a, amount: toMinor('30') },
+        { lot: b, amount: toMinor('10') },
+      ],
+      'recipient-wallet',
+      'transfer-id',
+    );
+
+    expect(manager.save).toHaveBeenCalledWith(CreditLot, [
+      {
+        walletId: 'recipient-wallet',
+        transactionId: 'transfer-id',
+        amount: '30.0000',
+        remainingAmount: '30.0000',
+        expiresAt: a.expiresAt,
+      },
+      {
+        walletId: 'recipient-wallet',
+        transactionId: 'transfer-id',
+        amount: '10.0000',
+        remainingAmount: '10.0000',
+        expiresAt: b.expiresAt,
+      },
+    ]);
+  });
+
+  it('should scale carried funds and drop what rounds to nothing', async () => {
+    const draws = [
+      { lot: lot('a', '0', 1000), amount: 5n },
+      { lot: lot('b', '0', 2000), amount: 1n },
+    ];
+
+    // One third of the drawn amount, rounded down
+    await carryLots(manager as any, draws, 'w', 'exchange-id', (x) => x / 3n);
+
+    expect(manager.save).toHaveBeenCalledWith(CreditLot, [
+      expect.objectContaining({ amount: '0.0001', remainingAmount: '0.0001' }),
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { EntityManager, IsNull, MoreThan } from 'typeorm';
+import { CreditLot } from './entities/credit-lot.entity';
+import { fromMinor, toMinor } from '../common/utils/money';
+
+/**
+ * Lots of a wallet with something left and not yet swept, soonest expiry
+ * first. The caller must hold the wallet lock.
+ */
+export function findOpenLots(
+  manager: EntityManager,
+  walletId: string,
+): Promise<CreditLot[]> {
+  return manager.find(CreditLot, {
+    where: { walletId, expiredAt: IsNull(), remainingAmount: MoreThan('0') },
+    order: { expiresAt: 'ASC', createdAt: 'ASC' },
+  });
+}
+
+/** What a debit took from one lot */
+export interface LotDraw {
+  lot: CreditLot;
+  amount: bigint;
+}
+
+/** What lots past their expiry still hold: awaiting the sweep, not spendable */
+export function overdueAmount(lots: CreditLot[], now: Date): bigint {
+  return lots
+    .filter((lot) => lot.expiresAt <= now)
+    .reduce((sum, lot) => sum + toMinor(lot.remainingAmount), 0n);
+}
+
+/**
+ * Draw the promotional part `amount` of a debit on the open lots of a
+ * wallet whose promoBalance was `promo` before the debit: live lots soonest
+ * expiry first, then the promotional funds no lot tracks. Overdue lots are
+ * drawn on last, only by debits that exceed everything else (such as a
+ * closing account's sweep), so the lots never hold more than the wallet's
+ * promotional funds. Returns what was taken from each lot.
+ */
+export async function drawOnLots(
+  manager: EntityManager,
+  lots: CreditLot[],
+  promo: bigint,
+  amount: bigint,
+  now: Date,
+): Promise<LotDraw[]> {
+  const tracked = lots.reduce(
+    (sum, lot) => sum + toMinor(lot.remainingAmount),
+    0n,
+  );
+  const draws: LotDraw[] = [];
+  let rest = amount;
+  const draw = (lot: CreditLot) => {
+    const remaining = toMinor(lot.remainingAmount);
+    const take = rest < remaining ? rest : remaining;
+    if (take > 0n) {
+      lot.remainingAmount = fromMinor(remaining - take);
+      rest -= take;
+      draws.push({ lot, amount: take });
+    }
+  };
+
+  lots.filter((lot) => lot.expiresAt > now).forEach(draw);
+  const untracked = promo > tracked ? promo - tracked : 0n;
+  rest -= rest < untracked ? rest : untracked;
+  lots.filter((lot) => lot.expiresAt <= now).forEach(draw);
+
+  if (draws.length > 0) {
+    await manager.save(
+      CreditLot,
+      draws.map(({ lot }) => lot),
+    );
+  }
+  return draws;
+}
+
+/**
+ * Open lots on the wallet credited by `transactionId` for what a debit
+ * drew on the sender's lots, keeping each lot's expiry, so moving expiring
+ * funds to another wallet does not escape it. `scale` converts the drawn
+ * amounts when the credit is in another asset; the result is rounded down
+ * so the new lots never hold more than the promotional funds credited.
+ */
+export async function carryLots(
+  manager: EntityManager,
+  draws: LotDraw[],
+  walletId: string,
+  transactionId: string,
+  scale: (amount: bigint) => bigint = (amount) => amount,
+): Promise<void> {
+  const carried = draws
+    .map(({ lot, amount }) => ({ lot, amount: scale(amount) }))
+    .filter(({ amount }) => amount > 0n)
+    .map(({ lot, amount }) =>
+      manager.create(CreditLot, {
+        walletId,
+        transactionId,
+        amount: fromMinor(amount),
+        remainingAmount: fromMinor(amount),
+        expiresAt: lot.expiresAt,
+      }),
+    );
+  if (carried.length > 0) {
+    await manager.save(CreditLot, carried);
+  }
+}
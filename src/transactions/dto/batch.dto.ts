@@ -0,0 +1,74 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Validate,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TransactionType } from '../../common/enums';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { AssetAmountConstraint } from '../../asset-types/validators/asset-amount.validator';
+
+export const BATCH_OPERATION_TYPES = [
+  TransactionType.TOP_UP,
+  TransactionType.BONUS,
+  TransactionType.PURCHASE,
+  TransactionType.TRANSFER,
+] as const;
+
+export type BatchOperationType = (typeof BATCH_OPERATION_TYPES)[number];
+
+/**
+ * One movement inside a batch. TRANSFER uses fromUserId/toUserId; every
+ * other type uses userId, exactly like the single-operation DTOs.
+ */
+export class BatchOperationDto {
+  @IsIn(BATCH_OPERATION_TYPES)
+  type: BatchOperationType;
+
+  @ValidateIf((op) => op.type !== TransactionType.TRANSFER)
+  @IsUUID()
+  userId?: string;
+
+  @ValidateIf((op) => op.type === TransactionType.TRANSFER)
+  @IsUUID()
+  fromUserId?: string;
+
+  @ValidateIf((op) => op.type === TransactionType.TRANSFER)
+  @IsUUID()
+  toUserId?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  assetTypeCode: string;
+
+  @IsAmount()
+  @Validate(AssetAmountConstraint)
+  amount: string;
+
+  @IsString()
+  @IsOptional()
+  referenceId?: string;
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
+
+export class BatchDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => BatchOperationDto)
+  operations: BatchOperationDto[];
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
@@ -1,4 +1,13 @@
-import { IsNotEmpty, IsString, IsNumber, IsPositive, IsOptional, IsUUID } from 'class-validator';
+import {
+  IsISO8601,
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsUUID,
+  Validate,
+} from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { AssetAmountConstraint } from '../../asset-types/validators/asset-amount.validator';
 
 export class BonusDto {
   @IsUUID()
@@ -9,9 +18,17 @@ export class BonusDto {
   @IsNotEmpty()
   assetTypeCode: string;
 
-  @IsNumber({ maxDecimalPlaces: 4 })
-  @IsPositive()
-  amount: number;
+  @IsAmount()
+  @Validate(AssetAmountConstraint)
+  amount: string;
+
+  /**
+   * Whatever is left of the bonus at this instant is debited back to the
+   * treasury. Omit for a bonus that never expires.
+   */
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  expiresAt?: string;
 
   @IsOptional()
   metadata?: Record<string, any>;
@@ -0,0 +1,12 @@
+import { IsOptional } from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+
+export class CaptureHoldDto {
+  /** Defaults to the full held amount; any remainder is released */
+  @IsAmount()
+  @IsOptional()
+  amount?: string;
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
@@ -0,0 +1,40 @@
+import {
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsInt,
+  Min,
+  Max,
+  Validate,
+} from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { AssetAmountConstraint } from '../../asset-types/validators/asset-amount.validator';
+
+export class CreateHoldDto {
+  @IsUUID()
+  @IsNotEmpty()
+  userId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  assetTypeCode: string;
+
+  @IsAmount()
+  @Validate(AssetAmountConstraint)
+  amount: string;
+
+  /** Defaults to one hour; capped at 30 days */
+  @IsInt()
+  @Min(1)
+  @Max(30 * 24 * 60 * 60)
+  @IsOptional()
+  expiresInSeconds?: number;
+
+  @IsString()
+  @IsOptional()
+  referenceId?: string;
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
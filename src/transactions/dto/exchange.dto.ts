@@ -0,0 +1,43 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+} from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+
+export class ExchangeDto {
+  @IsUUID()
+  @IsNotEmpty()
+  userId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  fromAssetTypeCode: string;
+
+  @IsString()
+  @IsNotEmpty()
+  toAssetTypeCode: string;
+
+  /** Amount of the source asset to convert */
+  @IsAmount()
+  amount: string;
+
+  /**
+   * The rate version the client quoted; the exchange is rejected if the
+   * pair's rate has changed since
+   */
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  rateVersion?: number;
+
+  @IsString()
+  @IsOptional()
+  referenceId?: string;
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
@@ -0,0 +1,57 @@
+import {
+  IsEnum,
+  IsISO8601,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+import { CursorPaginationQueryDto } from '../../common/dto/cursor-pagination-query.dto';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { TransactionStatus, TransactionType } from '../../common/enums';
+
+export class ListTransactionsQueryDto extends CursorPaginationQueryDto {
+  /** Either side of the transaction */
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @IsEnum(TransactionType)
+  @IsOptional()
+  type?: TransactionType;
+
+  @IsEnum(TransactionStatus)
+  @IsOptional()
+  status?: TransactionStatus;
+
+  @IsString()
+  @IsOptional()
+  assetTypeCode?: string;
+
+  @IsAmount()
+  @IsOptional()
+  minAmount?: string;
+
+  @IsAmount()
+  @IsOptional()
+  maxAmount?: string;
+
+  /** Inclusive lower bound on createdAt */
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  from?: string;
+
+  /** Exclusive upper bound on createdAt */
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  to?: string;
+
+  @IsString()
+  @IsOptional()
+  referenceId?: string;
+
+  /** Exact matches on top-level metadata keys: ?metadata[orderId]=42 */
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, string>;
+}
@@ -1,4 +1,6 @@
-import { IsNotEmpty, IsString, IsNumber, IsPositive, IsOptional, IsUUID } from 'class-validator';
+import { IsNotEmpty, IsString, IsOptional, IsUUID, Validate } from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { AssetAmountConstraint } from '../../asset-types/validators/asset-amount.validator';
 
 export class PurchaseDto {
   @IsUUID()
@@ -9,9 +11,9 @@ export class PurchaseDto {
   @IsNotEmpty()
   assetTypeCode: string;
 
-  @IsNumber({ maxDecimalPlaces: 4 })
-  @IsPositive()
-  amount: number;
+  @IsAmount()
+  @Validate(AssetAmountConstraint)
+  amount: string;
 
   @IsString()
   @IsOptional()
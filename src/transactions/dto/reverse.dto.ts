@@ -0,0 +1,15 @@
+import { IsString, IsOptional } from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+
+export class ReverseDto {
+  @IsAmount()
+  @IsOptional()
+  amount?: string;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
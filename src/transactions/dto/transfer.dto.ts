@@ -0,0 +1,34 @@
+import {
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsUUID,
+  Validate,
+} from 'class-validator';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { AssetAmountConstraint } from '../../asset-types/validators/asset-amount.validator';
+
+export class TransferDto {
+  @IsUUID()
+  @IsNotEmpty()
+  fromUserId: string;
+
+  @IsUUID()
+  @IsNotEmpty()
+  toUserId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  assetTypeCode: string;
+
+  @IsAmount()
+  @Validate(AssetAmountConstraint)
+  amount: string;
+
+  @IsString()
+  @IsOptional()
+  referenceId?: string;
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
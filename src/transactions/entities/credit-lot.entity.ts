@@ -0,0 +1,83 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Transaction } from './transaction.entity';
+import { Wallet } from '../../wallets/entities/wallet.entity';
+
+/**
+ * The part of a wallet's promotional funds granted by one expiring BONUS,
+ * or carried over from another wallet's lot by a transfer or exchange.
+ * Debits draw on a wallet's lots soonest-expiry-first; whatever remains at
+ * expiresAt is debited back to the treasury by an EXPIRY transaction. Lots
+ * only change under their wallet's lock.
+ */
+@Entity('credit_lots')
+@Index(['walletId', 'expiresAt'])
+@Index(['expiresAt'])
+export class CreditLot {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Wallet)
+  @JoinColumn({ name: 'wallet_id' })
+  wallet: Wallet;
+
+  @Column({ name: 'wallet_id' })
+  walletId: string;
+
+  @ManyToOne(() => Transaction)
+  @JoinColumn({ name: 'transaction_id' })
+  transaction: Transaction;
+
+  /** The BONUS that granted the lot, or the transaction that carried it */
+  @Column({ name: 'transaction_id' })
+  transactionId: string;
+
+  @Column({ type: 'decimal', precision: 18, scale: 4 })
+  amount: string;
+
+  /** Not yet spent or expired */
+  @Column({
+    name: 'remaining_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+  })
+  remainingAmount: string;
+
+  @Column({ name: 'expires_at', type: 'timestamptz' })
+  expiresAt: Date;
+
+  /**
+   * Set once the lot has been swept empty, even when nothing was left.
+   * Funds held at expiry keep the lot open for the next sweep
+   */
+  @Column({ name: 'expired_at', type: 'timestamptz', nullable: true })
+  expiredAt: Date | null;
+
+  @Column({
+    name: 'expired_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    default: 0,
+  })
+  expiredAmount: string;
+
+  /** The latest EXPIRY that swept the lot */
+  @Column({ name: 'expiry_transaction_id', type: 'uuid', nullable: true })
+  expiryTransactionId: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
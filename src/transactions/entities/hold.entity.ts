@@ -0,0 +1,85 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { HoldStatus } from '../../common/enums';
+import { Wallet } from '../../wallets/entities/wallet.entity';
+import { ApiClient } from '../../api-clients/entities/api-client.entity';
+
+/**
+ * Funds reserved on a user wallet. While ACTIVE the amount is counted in the
+ * wallet's heldAmount and cannot be spent; capturing it creates a PURCHASE
+ * linked via Transaction.holdId.
+ */
+@Entity('holds')
+@Index(['walletId'])
+@Index(['status', 'expiresAt'])
+export class Hold {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'idempotency_key', type: 'varchar', length: 255 })
+  idempotencyKey: string;
+
+  @ManyToOne(() => Wallet, { nullable: true })
+  @JoinColumn({ name: 'wallet_id' })
+  wallet: Wallet;
+
+  /** Null only on FAILED holds rejected before their wallet resolved */
+  @Column({ name: 'wallet_id', nullable: true })
+  walletId: string;
+
+  @Column({ type: 'decimal', precision: 18, scale: 4 })
+  amount: string;
+
+  @Column({
+    name: 'captured_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    default: 0,
+  })
+  capturedAmount: string;
+
+  @Column({ type: 'varchar', length: 20, default: HoldStatus.ACTIVE })
+  status: HoldStatus;
+
+  @Column({ name: 'expires_at', type: 'timestamptz', nullable: true })
+  expiresAt: Date;
+
+  @Column({
+    name: 'reference_id',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  referenceId: string;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  metadata: Record<string, any>;
+
+  @ManyToOne(() => ApiClient, { nullable: true })
+  @JoinColumn({ name: 'api_client_id' })
+  apiClient: ApiClient;
+
+  @Column({ name: 'api_client_id', nullable: true })
+  apiClientId: string;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string;
+
+  @Column({ name: 'error_status', type: 'int', nullable: true })
+  errorStatus: number;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
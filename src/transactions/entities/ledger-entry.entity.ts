@@ -4,6 +4,7 @@ import {
   Column,
   CreateDateColumn,
   BeforeUpdate,
+  Generated,
   ManyToOne,
   JoinColumn,
   Index,
@@ -15,6 +16,8 @@ import { Wallet } from '../../wallets/entities/wallet.entity';
 @Entity('ledger_entries')
 @Index(['walletId'])
 @Index(['transactionId'])
+@Index(['walletId', 'sequence'])
+@Index(['walletId', 'createdAt'])
 export class LedgerEntry {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -37,12 +40,41 @@ export class LedgerEntry {
   entryType: EntryType;
 
   @Column({ type: 'decimal', precision: 18, scale: 4 })
-  amount: number;
+  amount: string;
 
   @Column({ name: 'balance_after', type: 'decimal', precision: 18, scale: 4 })
-  balanceAfter: number;
+  balanceAfter: string;
 
-  @CreateDateColumn({ type: 'timestamptz' })
+  /**
+   * Insertion order. Entries written in one statement can share a
+   * createdAt, so replays order by this instead.
+   */
+  @Column({ type: 'bigint', unique: true })
+  @Generated('increment')
+  sequence: string;
+
+  /** Hash of the wallet's previous entry; null for its first entry */
+  @Column({
+    name: 'previous_hash',
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+  })
+  previousHash: string | null;
+
+  /** SHA-256 over this entry's content and previousHash (see ledger-chain) */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  hash: string | null;
+
+  /**
+   * When the entry was written, not when its transaction began: entries
+   * are inserted under the wallet lock, so a wallet's entries are stamped
+   * in sequence order and point-in-time queries can filter on this
+   */
+  @CreateDateColumn({
+    type: 'timestamptz',
+    default: () => 'clock_timestamp()',
+  })
   createdAt: Date;
 
   @BeforeUpdate()
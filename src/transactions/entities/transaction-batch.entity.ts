@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { TransactionStatus } from '../../common/enums';
+import { Transaction } from './transaction.entity';
+import { ApiClient } from '../../api-clients/entities/api-client.entity';
+
+/**
+ * A group of transactions committed atomically under one idempotency key.
+ * Either every member transaction is COMPLETED or the batch is FAILED and
+ * has no members.
+ */
+@Entity('transaction_batches')
+export class TransactionBatch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'idempotency_key', type: 'varchar', length: 255 })
+  idempotencyKey: string;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: TransactionStatus.PENDING,
+  })
+  status: TransactionStatus;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  metadata: Record<string, any>;
+
+  @ManyToOne(() => ApiClient, { nullable: true })
+  @JoinColumn({ name: 'api_client_id' })
+  apiClient: ApiClient;
+
+  @Column({ name: 'api_client_id', nullable: true })
+  apiClientId: string;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string;
+
+  @Column({ name: 'error_status', type: 'int', nullable: true })
+  errorStatus: number;
+
+  @OneToMany(() => Transaction, (txn) => txn.batch)
+  transactions: Transaction[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -12,20 +12,24 @@ import {
 import { TransactionType, TransactionStatus } from '../../common/enums';
 import { Wallet } from '../../wallets/entities/wallet.entity';
 import { LedgerEntry } from './ledger-entry.entity';
+import { ApiClient } from '../../api-clients/entities/api-client.entity';
+import { TransactionBatch } from './transaction-batch.entity';
+import { Hold } from './hold.entity';
+import { ExchangeRate } from '../../exchange-rates/entities/exchange-rate.entity';
 
 @Entity('transactions')
-@Index(['sourceWalletId'])
-@Index(['destinationWalletId'])
+@Index(['sourceWalletId', 'createdAt'])
+@Index(['destinationWalletId', 'createdAt'])
+@Index(['originalTransactionId'])
+@Index(['idempotencyKey'])
+@Index(['batchId'])
+@Index(['holdId'])
 export class Transaction {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({
-    name: 'idempotency_key',
-    type: 'varchar',
-    length: 255,
-    unique: true,
-  })
+  /** Client-supplied key; uniqueness is enforced per scope in idempotency_records */
+  @Column({ name: 'idempotency_key', type: 'varchar', length: 255 })
   idempotencyKey: string;
 
   @Column({ type: 'varchar', length: 20 })
@@ -42,18 +46,19 @@ export class Transaction {
   @JoinColumn({ name: 'source_wallet_id' })
   sourceWallet: Wallet;
 
-  @Column({ name: 'source_wallet_id' })
+  /** Null only on FAILED transactions rejected before their wallets resolved */
+  @Column({ name: 'source_wallet_id', nullable: true })
   sourceWalletId: string;
 
   @ManyToOne(() => Wallet)
   @JoinColumn({ name: 'dest_wallet_id' })
   destinationWallet: Wallet;
 
-  @Column({ name: 'dest_wallet_id' })
+  @Column({ name: 'dest_wallet_id', nullable: true })
   destinationWalletId: string;
 
   @Column({ type: 'decimal', precision: 18, scale: 4 })
-  amount: number;
+  amount: string;
 
   @Column({ name: 'reference_id', type: 'varchar', length: 255, nullable: true })
   referenceId: string;
@@ -61,9 +66,105 @@ export class Transaction {
   @Column({ type: 'jsonb', default: () => "'{}'" })
   metadata: Record<string, any>;
 
+  @ManyToOne(() => Transaction, { nullable: true })
+  @JoinColumn({ name: 'original_transaction_id' })
+  originalTransaction: Transaction;
+
+  /** Set on REFUND/REVERSAL transactions: the transaction being compensated */
+  @Column({ name: 'original_transaction_id', nullable: true })
+  originalTransactionId: string;
+
+  /** Running total of all compensating transactions linked to this one */
+  @Column({
+    name: 'reversed_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    default: 0,
+  })
+  reversedAmount: string;
+
+  @ManyToOne(() => ApiClient, { nullable: true })
+  @JoinColumn({ name: 'api_client_id' })
+  apiClient: ApiClient;
+
+  /** API client that created the transaction; null for seeded data and sweeps */
+  @Column({ name: 'api_client_id', nullable: true })
+  apiClientId: string;
+
+  @ManyToOne(() => TransactionBatch, (batch) => batch.transactions, {
+    nullable: true,
+  })
+  @JoinColumn({ name: 'batch_id' })
+  batch: TransactionBatch;
+
+  /** Set when the transaction was executed as part of an atomic batch */
+  @Column({ name: 'batch_id', nullable: true })
+  batchId: string;
+
+  /** Position within the batch, in request order */
+  @Column({ name: 'batch_index', type: 'int', nullable: true })
+  batchIndex: number;
+
+  @ManyToOne(() => Hold, { nullable: true })
+  @JoinColumn({ name: 'hold_id' })
+  hold: Hold;
+
+  /** Set on the PURCHASE that captured a hold */
+  @Column({ name: 'hold_id', nullable: true })
+  holdId: string;
+
+  /**
+   * EXCHANGE only: amount of the destination wallet's asset credited for
+   * `amount` of the source wallet's asset
+   */
+  @Column({
+    name: 'counter_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  counterAmount: string | null;
+
+  @ManyToOne(() => ExchangeRate, { nullable: true })
+  @JoinColumn({ name: 'exchange_rate_id' })
+  exchangeRate: ExchangeRate;
+
+  /** EXCHANGE only: the rate version the conversion was priced at */
+  @Column({ name: 'exchange_rate_id', nullable: true })
+  exchangeRateId: string;
+
+  /**
+   * How much of the amount was promotional (bonus) rather than paid
+   * (topped-up) currency; the two parts add up to the amount. Null until
+   * the transaction completes.
+   */
+  @Column({
+    name: 'promo_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  promoAmount: string | null;
+
+  @Column({
+    name: 'paid_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    nullable: true,
+  })
+  paidAmount: string | null;
+
   @Column({ name: 'error_message', type: 'text', nullable: true })
   errorMessage: string;
 
+  /** HTTP status of the original rejection, replayed for FAILED transactions */
+  @Column({ name: 'error_status', type: 'int', nullable: true })
+  errorStatus: number;
+
   @OneToMany(() => LedgerEntry, (entry) => entry.transaction, { cascade: true })
   ledgerEntries: LedgerEntry[];
 
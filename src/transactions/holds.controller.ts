@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { HoldsService } from './holds.service';
+import { TransactionsService } from './transactions.service';
+import { CreateHoldDto } from './dto/create-hold.dto';
+import { CaptureHoldDto } from './dto/capture-hold.dto';
+import { Idempotency } from '../common/decorators/idempotency.decorator';
+import { IdempotencyInterceptor } from '../common/interceptors/idempotency.interceptor';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope } from '../common/enums';
+import { IdempotencyContext } from '../common/utils/idempotency-context';
+
+@Controller('transactions/holds')
+export class HoldsController {
+  constructor(
+    private readonly holdsService: HoldsService,
+    private readonly transactionsService: TransactionsService,
+  ) {}
+
+  @Post()
+  @RequireScopes(ApiScope.TRANSACTIONS_HOLD)
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
+  create(
+    @Body() dto: CreateHoldDto,
+    @Idempotency() idempotency: IdempotencyContext,
+  ) {
+    return this.holdsService.create(dto, idempotency);
+  }
+
+  @Post(':id/capture')
+  @RequireScopes(ApiScope.TRANSACTIONS_HOLD)
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
+  capture(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CaptureHoldDto,
+    @Idempotency() idempotency: IdempotencyContext,
+  ) {
+    return this.transactionsService.captureHold(id, dto, idempotency);
+  }
+
+  /** Needs no Idempotency-Key: voiding an already VOIDED hold returns it */
+  @Post(':id/void')
+  @RequireScopes(ApiScope.TRANSACTIONS_HOLD)
+  @HttpCode(HttpStatus.OK)
+  void(@Param('id', ParseUUIDPipe) id: string) {
+    return this.holdsService.void(id);
+  }
+
+  @Get(':id')
+  @RequireScopes(ApiScope.TRANSACTIONS_READ)
+  findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.holdsService.findById(id);
+  }
+}
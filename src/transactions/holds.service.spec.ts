@@ -0,0 +1,263 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { HoldsService } from './holds.service';
+import { Hold } from './entities/hold.entity';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { WalletsService } from '../wallets/wallets.service';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { IdempotencyContext } from '../common/utils/idempotency-context';
+import { HoldStatus, UserStatus, WalletStatus } from '../common/enums';
+
+describe('HoldsService', () => {
+  let service: HoldsService;
+  let walletsService: Record<string, jest.Mock>;
+  let holdRepo: Record<string, jest.Mock>;
+  let idempotencyService: Record<string, jest.Mock>;
+  let mockQueryRunner: any;
+  let getOne: jest.Mock;
+
+  const idem: IdempotencyContext = {
+    key: 'hold-key',
+    clientId: 'default',
+    route: 'POST /api/v1/transactions/holds',
+    requestHash: 'hash',
+  };
+
+  const userWallet = {
+    id: 'bbbb-bbbb',
+    userId: 'user-id',
+    balance: '500.0000',
+    heldAmount: '100.0000',
+    status: WalletStatus.ACTIVE,
+    assetType: {
+      code: 'GOLD_COINS',
+      isActive: true,
+      decimalPlaces: 4,
+      minAmount: null,
+      maxAmount: null,
+      maxBalance: null,
+    },
+    user: { id: 'user-id', status: UserStatus.ACTIVE },
+  };
+
+  const activeHold = {
+    id: 'hold-1',
+    walletId: userWallet.id,
+    amount: '80.0000',
+    status: HoldStatus.ACTIVE,
+    expiresAt: new Date(Date.now() + 60_000),
+  };
+
+  beforeEach(async () => {
+    getOne = jest.fn();
+    mockQueryRunner = {
+      connect: jest.fn(),
+      startTransaction: jest.fn(),
+      commitTransaction: jest.fn(),
+      rollbackTransaction: jest.fn(),
+      release: jest.fn(),
+      isTransactionActive: true,
+      manager: {
+        create: jest.fn((entity, data) => ({ ...data })),
+        save: jest.fn((data) => ({ id: 'generated-id', ...data })),
+        update: jest.fn(),
+        find: jest.fn().mockResolvedValue([]),
+        getRepository: jest.fn().mockReturnValue({
+          createQueryBuilder: jest.fn().mockReturnValue({
+            setLock: jest.fn().mockReturnThis(),
+            where: jest.fn().mockReturnThis(),
+            getOne,
+          }),
+        }),
+      },
+    };
+
+    walletsService = { findUserWallet: jest.fn() };
+    holdRepo = { findOne: jest.fn(), find: jest.fn() };
+    idempotencyService = { claim: jest.fn(), replayExisting: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HoldsService,
+        {
+          provide: DataSource,
+          useValue: {
+            createQueryRunner: jest.fn().mockReturnValue(mockQueryRunner),
+            transaction: jest.fn((work) => work(mockQueryRunner.manager)),
+          },
+        },
+        { provide: getRepositoryToken(Hold), useValue: holdRepo },
+        { provide: WalletsService, useValue: walletsService },
+        { provide: IdempotencyService, useValue: idempotencyService },
+      ],
+    }).compile();
+
+    service = module.get<HoldsService>(HoldsService);
+  });
+
+  describe('create', () => {
+    it('should reserve the amount against the available balance', async () => {
+      walletsService.findUserWallet.mockResolvedValue(userWallet);
+      getOne.mockResolvedValueOnce({ ...userWallet });
+      holdRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+
+      await service.create(
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '400' },
+        idem,
+      );
+
+      expect(idempotencyService.claim).toHaveBeenCalledWith(
+        mockQueryRunner.manager,
+        idem,
+        { holdId: 'generated-id' },
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Wallet,
+        userWallet.id,
+        { heldAmount: '500.0000' },
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should reject and record holds above the available balance', async () => {
+      walletsService.findUserWallet.mockResolvedValue(userWallet);
+      getOne.mockResolvedValueOnce({ ...userWallet });
+
+      await expect(
+        service.create(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '401' },
+          idem,
+        ),
+      ).rejects.toThrow(
+        'Insufficient balance. Available: 400.0000, Required: 401.0000',
+      );
+
+      expect(mockQueryRunner.commitTransaction).not.toHaveBeenCalled();
+      expect(mockQueryRunner.manager.create).toHaveBeenLastCalledWith(
+        Hold,
+        expect.objectContaining({
+          status: HoldStatus.FAILED,
+          walletId: userWallet.id,
+          errorStatus: 400,
+        }),
+      );
+    });
+
+    it('should not reserve credit lots past their expiry', async () => {
+      walletsService.findUserWallet.mockResolvedValue(userWallet);
+      getOne.mockResolvedValueOnce({ ...userWallet });
+      mockQueryRunner.manager.find.mockResolvedValueOnce([
+        { remainingAmount: '150.0000', expiresAt: new Date(Date.now() - 1) },
+      ]);
+
+      await expect(
+        service.create(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '300' },
+          idem,
+        ),
+      ).rejects.toThrow('Available: 250.0000');
+    });
+  });
+
+  describe('void', () => {
+    it('should release the held amount', async () => {
+      getOne
+        .mockResolvedValueOnce({ ...activeHold })
+        .mockResolvedValueOnce({ ...userWallet });
+      holdRepo.findOne.mockResolvedValue({ id: 'hold-1' });
+
+      await service.void('hold-1');
+
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Wallet,
+        userWallet.id,
+        { heldAmount: '20.0000' },
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Hold,
+        'hold-1',
+        { status: HoldStatus.VOIDED },
+      );
+    });
+
+    it('should be a no-op for an already voided hold', async () => {
+      getOne.mockResolvedValueOnce({
+        ...activeHold,
+        status: HoldStatus.VOIDED,
+      });
+      holdRepo.findOne.mockResolvedValue({ id: 'hold-1' });
+
+      await service.void('hold-1');
+
+      expect(mockQueryRunner.manager.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject voiding a captured hold', async () => {
+      getOne.mockResolvedValueOnce({
+        ...activeHold,
+        status: HoldStatus.CAPTURED,
+      });
+
+      await expect(service.void('hold-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+  });
+
+  describe('lockForCapture', () => {
+    it('should reject capturing more than is held', async () => {
+      getOne.mockResolvedValueOnce({ ...activeHold });
+
+      await expect(
+        service.lockForCapture(mockQueryRunner, 'hold-1', '81'),
+      ).rejects.toThrow('Capture exceeds held amount');
+    });
+
+    it('should reject capturing an overdue hold', async () => {
+      getOne.mockResolvedValueOnce({
+        ...activeHold,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(
+        service.lockForCapture(mockQueryRunner, 'hold-1', '10'),
+      ).rejects.toThrow('has expired');
+    });
+
+    it('should throw NotFoundException for unknown holds', async () => {
+      getOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.lockForCapture(mockQueryRunner, 'missing', '10'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('expireDue', () => {
+    it('should expire overdue holds and skip ones settled since the scan', async () => {
+      holdRepo.find.mockResolvedValue([
+        { id: 'hold-1' },
+        { id: 'hold-2' },
+      ]);
+      getOne
+        .mockResolvedValueOnce({ ...activeHold })
+        .mockResolvedValueOnce({ ...userWallet })
+        .mockResolvedValueOnce({
+          ...activeHold,
+          id: 'hold-2',
+          status: HoldStatus.CAPTURED,
+        });
+      holdRepo.findOne.mockResolvedValue({ id: 'hold-1' });
+
+      await expect(service.expireDue()).resolves.toBe(1);
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Hold,
+        'hold-1',
+        { status: HoldStatus.EXPIRED },
+      );
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  HttpException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, LessThanOrEqual, QueryRunner, Repository } from 'typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Hold } from './entities/hold.entity';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { WalletsService } from '../wallets/wallets.service';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { IdempotencyContext } from '../common/utils/idempotency-context';
+import { HoldStatus } from '../common/enums';
+import { CreateHoldDto } from './dto/create-hold.dto';
+import { fromMinor, normalizeAmount, toMinor } from '../common/utils/money';
+import { assertAmountAllowed } from '../asset-types/asset-type-limits';
+import { assertCanSpend } from '../users/user-status';
+import { assertCanDebit } from '../wallets/wallet-status';
+import { findOpenLots, overdueAmount } from './credit-lots';
+
+const DEFAULT_HOLD_TTL_SECONDS = 60 * 60;
+const EXPIRY_BATCH_SIZE = 100;
+
+/**
+ * Two-phase spending. A hold moves nothing on the ledger: it only raises the
+ * wallet's heldAmount so the reserved funds cannot be spent elsewhere.
+ * Capturing (see TransactionsService.captureHold) turns it into a PURCHASE.
+ *
+ * Lock order matches the rest of the service: the hold row first, then the
+ * wallet.
+ */
+@Injectable()
+export class HoldsService {
+  private readonly logger = new Logger(HoldsService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(Hold)
+    private readonly holdRepo: Repository<Hold>,
+    private readonly walletsService: WalletsService,
+    private readonly idempotencyService: IdempotencyService,
+  ) {}
+
+  async create(
+    dto: CreateHoldDto,
+    idempotency: IdempotencyContext,
+  ): Promise<Hold> {
+    let wallet: Wallet;
+    try {
+      wallet = await this.walletsService.findUserWallet(
+        dto.userId,
+        dto.assetTypeCode,
+      );
+      assertAmountAllowed(wallet.assetType, dto.amount);
+      assertCanSpend(wallet.user);
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        await this.recordFailure(dto, idempotency, error);
+      }
+      throw error;
+    }
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('READ COMMITTED');
+
+    try {
+      const expiresInSeconds = dto.expiresInSeconds ?? DEFAULT_HOLD_TTL_SECONDS;
+      const hold = await queryRunner.manager.save(
+        queryRunner.manager.create(Hold, {
+          idempotencyKey: idempotency.key,
+          apiClientId: idempotency.clientId,
+          walletId: wallet.id,
+          amount: dto.amount,
+          status: HoldStatus.ACTIVE,
+          expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+          referenceId: dto.referenceId,
+          metadata: dto.metadata || {},
+        }),
+      );
+
+      try {
+        await this.idempotencyService.claim(queryRunner.manager, idempotency, {
+          holdId: hold.id,
+        });
+      } catch (error: any) {
+        if (error.code === '23505') {
+          await queryRunner.rollbackTransaction();
+          return this.idempotencyService.replayExisting<Hold>(idempotency);
+        }
+        throw error;
+      }
+
+      const locked = await this.lockWallet(queryRunner, wallet.id);
+      assertCanDebit(locked);
+      // Lots past their expiry cannot be reserved any more than spent
+      const lots = await findOpenLots(queryRunner.manager, locked.id);
+      const available =
+        toMinor(locked.balance) -
+        toMinor(locked.heldAmount) -
+        overdueAmount(lots, new Date());
+      if (available < toMinor(dto.amount)) {
+        throw new BadRequestException(
+          `Insufficient balance. Available: ${fromMinor(available)}, Required: ${normalizeAmount(dto.amount)}`,
+        );
+      }
+      await this.adjustHeld(queryRunner, locked, toMinor(dto.amount));
+
+      await queryRunner.commitTransaction();
+      return this.findById(hold.id);
+    } catch (error) {
+      this.logger.error(
+        `Hold failed [key=${idempotency.key}]: ${error instanceof Error ? error.message : error}`,
+      );
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      if (error instanceof BadRequestException) {
+        await this.recordFailure(dto, idempotency, error, wallet.id);
+      }
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /** Release an ACTIVE hold without spending it; voiding twice is a no-op */
+  async void(id: string): Promise<Hold> {
+    return this.release(id, HoldStatus.VOIDED);
+  }
+
+  async findById(id: string): Promise<Hold> {
+    const hold = await this.holdRepo.findOne({
+      where: { id },
+      relations: ['wallet', 'wallet.assetType', 'wallet.user'],
+    });
+    if (!hold) {
+      throw new NotFoundException(`Hold ${id} not found`);
+    }
+    return hold;
+  }
+
+  /**
+   * Release holds whose expiry has passed. Until the sweep runs, an overdue
+   * hold still counts against the available balance but can no longer be
+   * captured.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async expireDue(): Promise<number> {
+    const due = await this.holdRepo.find({
+      where: {
+        status: HoldStatus.ACTIVE,
+        expiresAt: LessThanOrEqual(new Date()),
+      },
+      order: { expiresAt: 'ASC' },
+      take: EXPIRY_BATCH_SIZE,
+    });
+
+    let expired = 0;
+    for (const hold of due) {
+      try {
+        await this.release(hold.id, HoldStatus.EXPIRED);
+        expired++;
+      } catch (error) {
+        // Captured or voided since the scan — nothing left to release
+        if (!(error instanceof BadRequestException)) {
+          this.logger.error(
+            `Failed to expire hold ${hold.id}: ${error instanceof Error ? error.message : error}`,
+          );
+        }
+      }
+    }
+    if (expired > 0) {
+      this.logger.log(`Expired ${expired} holds`);
+    }
+    return expired;
+  }
+
+  /**
+   * Lock a hold for capture inside the caller's transaction and mark it
+   * CAPTURED. The caller must then release `hold.amount` from the wallet
+   * (via adjustHeld) once the wallet itself is locked.
+   */
+  async lockForCapture(
+    queryRunner: QueryRunner,
+    holdId: string,
+    amount: string,
+  ): Promise<Hold> {
+    const hold = await this.lockHold(queryRunner, holdId);
+    this.assertActive(hold);
+    if (hold.expiresAt <= new Date()) {
+      throw new BadRequestException(`Hold ${holdId} has expired`);
+    }
+    if (toMinor(amount) > toMinor(hold.amount)) {
+      throw new BadRequestException(
+        `Capture exceeds held amount. Held: ${hold.amount}, Requested: ${normalizeAmount(amount)}`,
+      );
+    }
+
+    await queryRunner.manager.update(Hold, hold.id, {
+      status: HoldStatus.CAPTURED,
+      capturedAmount: amount,
+    });
+    return hold;
+  }
+
+  /**
+   * Add `delta` minor units (negative to release) to a locked wallet's
+   * heldAmount
+   */
+  async adjustHeld(
+    queryRunner: QueryRunner,
+    wallet: Wallet,
+    delta: bigint,
+  ): Promise<void> {
+    const heldAmount = fromMinor(toMinor(wallet.heldAmount) + delta);
+    await queryRunner.manager.update(Wallet, wallet.id, { heldAmount });
+    wallet.heldAmount = heldAmount;
+  }
+
+  private async release(id: string, status: HoldStatus): Promise<Hold> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('READ COMMITTED');
+
+    try {
+      const hold = await this.lockHold(queryRunner, id);
+      if (hold.status === status) {
+        await queryRunner.commitTransaction();
+        return this.findById(hold.id);
+      }
+      this.assertActive(hold);
+
+      const wallet = await this.lockWallet(queryRunner, hold.walletId);
+      await this.adjustHeld(queryRunner, wallet, -toMinor(hold.amount));
+      await queryRunner.manager.update(Hold, hold.id, { status });
+
+      await queryRunner.commitTransaction();
+      return this.findById(hold.id);
+    } catch (error) {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  private async lockHold(
+    queryRunner: QueryRunner,
+    holdId: string,
+  ): Promise<Hold> {
+    const hold = await queryRunner.manager
+      .getRepository(Hold)
+      .createQueryBuilder('hold')
+      .setLock('pessimistic_write')
+      .where('hold.id = :id', { id: holdId })
+      .getOne();
+
+    if (!hold) {
+      throw new NotFoundException(`Hold ${holdId} not found`);
+    }
+    return hold;
+  }
+
+  private assertActive(hold: Hold): void {
+    if (hold.status !== HoldStatus.ACTIVE) {
+      throw new BadRequestException(`Hold ${hold.id} is ${hold.status}`);
+    }
+  }
+
+  private async lockWallet(
+    queryRunner: QueryRunner,
+    walletId: string,
+  ): Promise<Wallet> {
+    const wallet = await queryRunner.manager
+      .getRepository(Wallet)
+      .createQueryBuilder('wallet')
+      .setLock('pessimistic_write')
+      .where('wallet.id = :id', { id: walletId })
+      .getOne();
+
+    if (!wallet) {
+      throw new NotFoundException(`Wallet ${walletId} not found`);
+    }
+    return wallet;
+  }
+
+  /** Same contract as TransactionsService.recordFailure, for holds */
+  private async recordFailure(
+    dto: CreateHoldDto,
+    idempotency: IdempotencyContext,
+    error: HttpException,
+    walletId?: string,
+  ): Promise<void> {
+    try {
+      await this.dataSource.transaction(async (manager) => {
+        const failed = await manager.save(
+          manager.create(Hold, {
+            idempotencyKey: idempotency.key,
+            apiClientId: idempotency.clientId,
+            walletId,
+            amount: dto.amount,
+            status: HoldStatus.FAILED,
+            referenceId: dto.referenceId,
+            metadata: dto.metadata || {},
+            errorMessage: error.message,
+            errorStatus: error.getStatus(),
+          }),
+        );
+        await this.idempotencyService.claim(manager, idempotency, {
+          holdId: failed.id,
+        });
+      });
+    } catch (saveError: any) {
+      if (saveError?.code !== '23505') {
+        this.logger.error(
+          `Failed to record FAILED hold [key=${idempotency.key}]: ${saveError instanceof Error ? saveError.message : saveError}`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { alertThreshold, circulatingSupply } from './issuance-budget';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { toMinor } from '../common/utils/money';
+
+describe('issuance budget', () => {
+  const assetType = (limits: Partial<AssetType>) =>
+    ({
+      issuanceBudget: null,
+      issuanceAlertPercent: null,
+      ...limits,
+    }) as AssetType;
+
+  it('should count genesis mints less the treasury balance as circulating', async () => {
+    const query = {
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn().mockResolvedValue({ total: '1000000.0000' }),
+    };
+    const manager = { createQueryBuilder: jest.fn().mockReturnValue(query) };
+
+    await expect(
+      circulatingSupply(
+        manager as any,
+        {
+          id: 'treasury-id',
+          balance: '998500.0000',
+        } as Wallet,
+      ),
+    ).resolves.toBe(toMinor('1500'));
+    expect(query.where).toHaveBeenCalledWith('txn.sourceWalletId = :walletId', {
+      walletId: 'treasury-id',
+    });
+  });
+
+  it('should place the alert at a share of the budget', () => {
+    expect(
+      alertThreshold(
+        assetType({ issuanceBudget: '1000', issuanceAlertPercent: 80 }),
+      ),
+    ).toBe(toMinor('800'));
+  });
+
+  it('should not alert without both a budget and a share', () => {
+    expect(alertThreshold(assetType({ issuanceAlertPercent: 80 }))).toBeNull();
+    expect(alertThreshold(assetType({ issuanceBudget: '1000' }))).toBeNull();
+  });
+});
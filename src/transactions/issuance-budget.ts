@@ -0,0 +1,35 @@
+import { EntityManager } from 'typeorm';
+import { Transaction } from './entities/transaction.entity';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
+import { toMinor } from '../common/utils/money';
+
+/**
+ * What a treasury has put into circulation and not taken back: its genesis
+ * mints (source = destination, written by the seed) less its balance. The
+ * caller must hold the treasury lock for the balance to stay current.
+ */
+export async function circulatingSupply(
+  manager: EntityManager,
+  treasury: Wallet,
+): Promise<bigint> {
+  const row = await manager
+    .createQueryBuilder(Transaction, 'txn')
+    .select('COALESCE(SUM(txn.amount), 0)', 'total')
+    .where('txn.sourceWalletId = :walletId', { walletId: treasury.id })
+    .andWhere('txn.destinationWalletId = :walletId')
+    .getRawOne<{ total: string }>();
+  return toMinor(row?.total ?? '0') - toMinor(treasury.balance);
+}
+
+/** Circulating supply at which the asset's budget alert fires, if any */
+export function alertThreshold(assetType: AssetType): bigint | null {
+  if (assetType.issuanceBudget == null || !assetType.issuanceAlertPercent) {
+    return null;
+  }
+  return (
+    (toMinor(assetType.issuanceBudget) *
+      BigInt(assetType.issuanceAlertPercent)) /
+    100n
+  );
+}
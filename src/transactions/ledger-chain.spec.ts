@@ -0,0 +1,57 @@
+import { LedgerEntry } from './entities/ledger-entry.entity';
+import { chainLedgerEntries, hashLedgerEntry } from './ledger-chain';
+import { EntryType } from '../common/enums';
+
+describe('ledger chain', () => {
+  const entry = (overrides: Partial<LedgerEntry> = {}): LedgerEntry =>
+    ({
+      transactionId: 'txn-1',
+      walletId: 'wallet-a',
+      entryType: EntryType.DEBIT,
+      amount: '5',
+      balanceAfter: '95',
+      previousHash: null,
+      ...overrides,
+    }) as LedgerEntry;
+
+  describe('hashLedgerEntry', () => {
+    it('should hash amounts in canonical form', () => {
+      expect(hashLedgerEntry(entry())).toBe(
+        hashLedgerEntry(entry({ amount: '5.0000', balanceAfter: '95.0000' })),
+      );
+    });
+
+    it('should change when any hashed field changes', () => {
+      const original = hashLedgerEntry(entry());
+      expect(hashLedgerEntry(entry({ amount: '6' }))).not.toBe(original);
+      expect(hashLedgerEntry(entry({ previousHash: 'abc' }))).not.toBe(
+        original,
+      );
+      expect(hashLedgerEntry(entry({ entryType: EntryType.CREDIT }))).not.toBe(
+        original,
+      );
+    });
+  });
+
+  describe('chainLedgerEntries', () => {
+    it('should link onto the stored head and earlier entries in the array', async () => {
+      const manager = {
+        findOne: jest
+          .fn()
+          .mockResolvedValueOnce({ hash: 'head-a' })
+          .mockResolvedValueOnce(null),
+      };
+      const first = entry();
+      const second = entry({ walletId: 'wallet-b' });
+      const third = entry({ transactionId: 'txn-2', balanceAfter: '90' });
+
+      await chainLedgerEntries(manager as any, [first, second, third]);
+
+      expect(manager.findOne).toHaveBeenCalledTimes(2);
+      expect(first.previousHash).toBe('head-a');
+      expect(second.previousHash).toBeNull();
+      expect(third.previousHash).toBe(first.hash);
+      expect(third.hash).toBe(hashLedgerEntry(third));
+    });
+  });
+});
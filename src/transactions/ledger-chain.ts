@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import { EntityManager } from 'typeorm';
+import { LedgerEntry } from './entities/ledger-entry.entity';
+import { normalizeAmount } from '../common/utils/money';
+
+type HashedFields = Pick<
+  LedgerEntry,
+  | 'previousHash'
+  | 'walletId'
+  | 'transactionId'
+  | 'entryType'
+  | 'amount'
+  | 'balanceAfter'
+>;
+
+/**
+ * SHA-256 of an entry's content and the hash of the entry before it.
+ * Amounts are hashed in canonical form, so "5" and "5.0000" (as read back
+ * from Postgres) hash the same.
+ */
+export function hashLedgerEntry(entry: HashedFields): string {
+  const content = JSON.stringify([
+    entry.previousHash ?? null,
+    entry.walletId,
+    entry.transactionId,
+    entry.entryType,
+    normalizeAmount(entry.amount),
+    normalizeAmount(entry.balanceAfter),
+  ]);
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Link unsaved entries onto their wallets' hash chains, in array order.
+ * The caller must hold the wallet locks, so nothing else can extend the
+ * same chains before the entries are saved.
+ */
+export async function chainLedgerEntries(
+  manager: EntityManager,
+  entries: LedgerEntry[],
+): Promise<void> {
+  const heads = new Map<string, string | null>();
+  for (const entry of entries) {
+    if (!heads.has(entry.walletId)) {
+      const latest = await manager.findOne(LedgerEntry, {
+        where: { walletId: entry.walletId },
+        order: { sequence: 'DESC' },
+      });
+      heads.set(entry.walletId, latest?.hash ?? null);
+    }
+    entry.previousHash = heads.get(entry.walletId) ?? null;
+    entry.hash = hashLedgerEntry(entry);
+    heads.set(entry.walletId, entry.hash);
+  }
+}
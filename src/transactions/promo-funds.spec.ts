@@ -0,0 +1,42 @@
+import { promoShare, restoredPromo, splitDebit } from './promo-funds';
+import { toMinor } from '../common/utils/money';
+
+describe('promo funds', () => {
+  const m = toMinor;
+
+  it('should spend promotional funds first, then paid ones', () => {
+    expect(splitDebit(m('100'), m('30'), 0n, m('50'), 'PROMO_FIRST')).toEqual({
+      promo: m('30'),
+      paid: m('20'),
+    });
+  });
+
+  it('should spend paid funds first when asked', () => {
+    expect(splitDebit(m('100'), m('30'), 0n, m('80'), 'PAID_FIRST')).toEqual({
+      promo: m('10'),
+      paid: m('70'),
+    });
+  });
+
+  it('should leave overdue promotional funds until nothing else is left', () => {
+    expect(
+      splitDebit(m('100'), m('30'), m('20'), m('50'), 'PROMO_FIRST'),
+    ).toEqual({ promo: m('10'), paid: m('40') });
+    expect(
+      splitDebit(m('100'), m('30'), m('20'), m('95'), 'PROMO_FIRST'),
+    ).toEqual({ promo: m('25'), paid: m('70') });
+  });
+
+  it('should round the derived promotional share down', () => {
+    const split = { promo: m('1'), paid: m('2') };
+
+    expect(promoShare(m('10'), split)).toBe(m('3.3333'));
+    expect(promoShare(m('10'), { promo: 0n, paid: 0n })).toBe(0n);
+  });
+
+  it('should restore paid funds before promotional ones', () => {
+    expect(restoredPromo(m('50'), m('30'), 0n)).toBe(m('20'));
+    expect(restoredPromo(m('50'), m('30'), m('40'))).toBe(m('50'));
+    expect(restoredPromo(m('20'), m('30'), 0n)).toBe(0n);
+  });
+});
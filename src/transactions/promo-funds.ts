@@ -0,0 +1,65 @@
+/** Which funds a debit of a user wallet spends first */
+export type SpendOrder = 'PROMO_FIRST' | 'PAID_FIRST';
+
+/** The promotional and paid parts of an amount, in minor units */
+export interface FundsSplit {
+  promo: bigint;
+  paid: bigint;
+}
+
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+/**
+ * Split a debit of `amount` from a wallet holding `balance`, `promo` of
+ * which is promotional and `overdue` of that awaiting expiry. PROMO_FIRST
+ * spends live promotional funds, then paid ones, and touches overdue funds
+ * only once nothing else is left; PAID_FIRST spends paid funds first. The
+ * paid part never exceeds the wallet's paid funds, so promo ≤ balance
+ * still holds afterwards.
+ */
+export function splitDebit(
+  balance: bigint,
+  promo: bigint,
+  overdue: bigint,
+  amount: bigint,
+  order: SpendOrder,
+): FundsSplit {
+  const paidFunds = max(balance - promo, 0n);
+  let promoPart: bigint;
+  if (order === 'PAID_FIRST') {
+    promoPart = max(amount - paidFunds, 0n);
+  } else {
+    const live = min(amount, max(promo - overdue, 0n));
+    promoPart = live + max(amount - live - paidFunds, 0n);
+  }
+  promoPart = min(promoPart, promo);
+  return { promo: promoPart, paid: amount - promoPart };
+}
+
+/**
+ * Promotional share of an amount derived from a split one, such as the
+ * proceeds of an exchange; rounded down, so the rounding is paid funds
+ */
+export function promoShare(
+  amount: bigint,
+  { promo, paid }: FundsSplit,
+): bigint {
+  const total = promo + paid;
+  return total === 0n ? 0n : (amount * promo) / total;
+}
+
+/**
+ * Promotional part of a compensation that restores funds to a user: paid
+ * funds come back first, up to what the original spent and earlier
+ * compensations have not already returned. Transactions recorded before
+ * the split existed count as paid.
+ */
+export function restoredPromo(
+  amount: bigint,
+  originalPaid: bigint,
+  alreadyReversed: bigint,
+): bigint {
+  const paidLeft = max(originalPaid - alreadyReversed, 0n);
+  return amount - min(amount, paidLeft);
+}
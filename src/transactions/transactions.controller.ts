@@ -6,66 +6,148 @@ import {
   Param,
   Query,
   ParseUUIDPipe,
-  ParseIntPipe,
-  DefaultValuePipe,
   UseInterceptors,
   HttpCode,
   HttpStatus,
+  Req,
+  ForbiddenException,
 } from '@nestjs/common';
 import { TransactionsService } from './transactions.service';
 import { TopUpDto } from './dto/top-up.dto';
 import { BonusDto } from './dto/bonus.dto';
 import { PurchaseDto } from './dto/purchase.dto';
-import { IdempotencyKey } from '../common/decorators/idempotency-key.decorator';
+import { TransferDto } from './dto/transfer.dto';
+import { ExchangeDto } from './dto/exchange.dto';
+import { ReverseDto } from './dto/reverse.dto';
+import { BatchDto, BatchOperationType } from './dto/batch.dto';
+import { ListTransactionsQueryDto } from './dto/list-transactions-query.dto';
+import { Idempotency } from '../common/decorators/idempotency.decorator';
 import { IdempotencyInterceptor } from '../common/interceptors/idempotency.interceptor';
-import { TransactionType } from '../common/enums';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope, TransactionType } from '../common/enums';
+import { IdempotencyContext } from '../common/utils/idempotency-context';
+import { AuthenticatedRequest } from '../common/guards/api-key.guard';
+
+/** Scope each batch operation would need as a standalone request */
+const OPERATION_SCOPES: Record<BatchOperationType, ApiScope> = {
+  [TransactionType.TOP_UP]: ApiScope.TRANSACTIONS_TOPUP,
+  [TransactionType.BONUS]: ApiScope.TRANSACTIONS_BONUS,
+  [TransactionType.PURCHASE]: ApiScope.TRANSACTIONS_PURCHASE,
+  [TransactionType.TRANSFER]: ApiScope.TRANSACTIONS_TRANSFER,
+};
 
 @Controller('transactions')
 export class TransactionsController {
   constructor(private readonly transactionsService: TransactionsService) {}
 
   @Post('top-up')
+  @RequireScopes(ApiScope.TRANSACTIONS_TOPUP)
   @HttpCode(HttpStatus.CREATED)
   @UseInterceptors(IdempotencyInterceptor)
   topUp(
     @Body() dto: TopUpDto,
-    @IdempotencyKey() idempotencyKey: string,
+    @Idempotency() idempotency: IdempotencyContext,
   ) {
-    return this.transactionsService.topUp(dto, idempotencyKey);
+    return this.transactionsService.topUp(dto, idempotency);
   }
 
   @Post('bonus')
+  @RequireScopes(ApiScope.TRANSACTIONS_BONUS)
   @HttpCode(HttpStatus.CREATED)
   @UseInterceptors(IdempotencyInterceptor)
   bonus(
     @Body() dto: BonusDto,
-    @IdempotencyKey() idempotencyKey: string,
+    @Idempotency() idempotency: IdempotencyContext,
   ) {
-    return this.transactionsService.bonus(dto, idempotencyKey);
+    return this.transactionsService.bonus(dto, idempotency);
   }
 
   @Post('purchase')
+  @RequireScopes(ApiScope.TRANSACTIONS_PURCHASE)
   @HttpCode(HttpStatus.CREATED)
   @UseInterceptors(IdempotencyInterceptor)
   purchase(
     @Body() dto: PurchaseDto,
-    @IdempotencyKey() idempotencyKey: string,
+    @Idempotency() idempotency: IdempotencyContext,
+  ) {
+    return this.transactionsService.purchase(dto, idempotency);
+  }
+
+  @Post('transfer')
+  @RequireScopes(ApiScope.TRANSACTIONS_TRANSFER)
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
+  transfer(
+    @Body() dto: TransferDto,
+    @Idempotency() idempotency: IdempotencyContext,
+  ) {
+    return this.transactionsService.transfer(dto, idempotency);
+  }
+
+  @Post('exchange')
+  @RequireScopes(ApiScope.TRANSACTIONS_EXCHANGE)
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
+  exchange(
+    @Body() dto: ExchangeDto,
+    @Idempotency() idempotency: IdempotencyContext,
+  ) {
+    return this.transactionsService.exchange(dto, idempotency);
+  }
+
+  /**
+   * Atomic multi-operation request. Besides transactions:batch, the client
+   * needs the scope of every operation it contains, so batching never
+   * widens what a key can do.
+   */
+  @Post('batch')
+  @RequireScopes(ApiScope.TRANSACTIONS_BATCH)
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
+  batch(
+    @Body() dto: BatchDto,
+    @Idempotency() idempotency: IdempotencyContext,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const granted = request.apiClient.scopes;
+    const missing = [
+      ...new Set(dto.operations.map((op) => OPERATION_SCOPES[op.type])),
+    ].filter((scope) => !granted.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `Missing required scope: ${missing.join(', ')}`,
+      );
+    }
+    return this.transactionsService.batch(dto, idempotency);
+  }
+
+  @Get('batches/:id')
+  @RequireScopes(ApiScope.TRANSACTIONS_READ)
+  findBatch(@Param('id', ParseUUIDPipe) id: string) {
+    return this.transactionsService.findBatchById(id);
+  }
+
+  @Post(':id/reverse')
+  @RequireScopes(ApiScope.TRANSACTIONS_REVERSE)
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
+  reverse(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ReverseDto,
+    @Idempotency() idempotency: IdempotencyContext,
   ) {
-    return this.transactionsService.purchase(dto, idempotencyKey);
+    return this.transactionsService.reverse(id, dto, idempotency);
   }
 
   @Get(':id')
+  @RequireScopes(ApiScope.TRANSACTIONS_READ)
   findOne(@Param('id', ParseUUIDPipe) id: string) {
     return this.transactionsService.findById(id);
   }
 
   @Get()
-  findAll(
-    @Query('userId') userId?: string,
-    @Query('type') type?: TransactionType,
-    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
-    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
-  ) {
-    return this.transactionsService.findAll(userId, type, page, limit);
+  @RequireScopes(ApiScope.TRANSACTIONS_READ)
+  findAll(@Query() query: ListTransactionsQueryDto) {
+    return this.transactionsService.findAll(query);
   }
 }
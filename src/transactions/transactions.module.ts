@@ -2,17 +2,40 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Transaction } from './entities/transaction.entity';
 import { LedgerEntry } from './entities/ledger-entry.entity';
+import { TransactionBatch } from './entities/transaction-batch.entity';
+import { Hold } from './entities/hold.entity';
+import { CreditLot } from './entities/credit-lot.entity';
 import { TransactionsService } from './transactions.service';
 import { TransactionsController } from './transactions.controller';
+import { HoldsService } from './holds.service';
+import { HoldsController } from './holds.controller';
+import { CreditLotsService } from './credit-lots.service';
+import { CreditLotsController } from './credit-lots.controller';
 import { WalletsModule } from '../wallets/wallets.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Transaction, LedgerEntry]),
+    TypeOrmModule.forFeature([
+      Transaction,
+      LedgerEntry,
+      TransactionBatch,
+      Hold,
+      CreditLot,
+    ]),
     WalletsModule,
+    IdempotencyModule,
+    WebhooksModule,
+    ExchangeRatesModule,
   ],
-  controllers: [TransactionsController],
-  providers: [TransactionsService],
+  controllers: [
+    TransactionsController,
+    HoldsController,
+    CreditLotsController,
+  ],
+  providers: [TransactionsService, HoldsService, CreditLotsService],
   exports: [TransactionsService],
 })
 export class TransactionsModule {}
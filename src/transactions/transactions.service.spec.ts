@@ -1,33 +1,86 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { DataSource } from 'typeorm';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  HttpException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { TransactionsService } from './transactions.service';
 import { Transaction } from './entities/transaction.entity';
+import { TransactionBatch } from './entities/transaction-batch.entity';
 import { WalletsService } from '../wallets/wallets.service';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { HoldsService } from './holds.service';
+import { OutboxService } from '../webhooks/outbox.service';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { LedgerEntry } from './entities/ledger-entry.entity';
+import { CreditLot } from './entities/credit-lot.entity';
+import { LimitExceededException } from './velocity-limits';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { IdempotencyContext } from '../common/utils/idempotency-context';
+import { fromMinor, toMinor } from '../common/utils/money';
+import { decodeCursor, encodeCursor } from '../common/utils/cursor';
 import {
   TransactionType,
   TransactionStatus,
   EntryType,
+  UserRole,
+  UserStatus,
+  HoldStatus,
+  WalletStatus,
 } from '../common/enums';
 
 describe('TransactionsService', () => {
   let service: TransactionsService;
   let walletsService: any;
   let transactionRepo: Record<string, jest.Mock>;
+  let listQuery: Record<string, jest.Mock>;
+  let batchRepo: Record<string, jest.Mock>;
   let mockQueryRunner: any;
   let mockDataSource: any;
+  let idempotencyService: Record<string, jest.Mock>;
+  let holdsService: Record<string, jest.Mock>;
+  let outboxService: Record<string, jest.Mock>;
+  let exchangeRatesService: Record<string, jest.Mock>;
+
+  const idem = (key: string): IdempotencyContext => ({
+    key,
+    clientId: 'default',
+    route: 'POST /api/v1/transactions/test',
+    requestHash: 'hash',
+  });
+
+  const goldCoins = {
+    code: 'GOLD_COINS',
+    isActive: true,
+    decimalPlaces: 4,
+    minAmount: null,
+    maxAmount: null,
+    maxBalance: null,
+  };
 
   const treasuryWallet = {
     id: 'aaaa-aaaa',
     userId: 'treasury-id',
-    balance: 1000000,
+    balance: '1000000.0000',
+    status: WalletStatus.ACTIVE,
+    assetType: goldCoins,
+    user: {
+      id: 'treasury-id',
+      role: UserRole.SYSTEM,
+      status: UserStatus.ACTIVE,
+    },
   };
 
   const userWallet = {
     id: 'bbbb-bbbb',
     userId: 'user-id',
-    balance: 500,
+    balance: '500.0000',
+    status: WalletStatus.ACTIVE,
+    assetType: goldCoins,
+    user: { id: 'user-id', status: UserStatus.ACTIVE },
   };
 
   beforeEach(async () => {
@@ -47,6 +100,8 @@ describe('TransactionsService', () => {
             : { id: 'generated-id', ...d };
         }),
         update: jest.fn(),
+        find: jest.fn().mockResolvedValue([]),
+        findOne: jest.fn().mockResolvedValue(null),
         getRepository: jest.fn().mockReturnValue({
           createQueryBuilder: jest.fn().mockReturnValue({
             setLock: jest.fn().mockReturnThis(),
@@ -59,23 +114,56 @@ describe('TransactionsService', () => {
 
     mockDataSource = {
       createQueryRunner: jest.fn().mockReturnValue(mockQueryRunner),
+      transaction: jest.fn((work) => work(mockQueryRunner.manager)),
+    };
+
+    idempotencyService = {
+      claim: jest.fn(),
+      replayExisting: jest.fn(),
+    };
+
+    holdsService = {
+      findById: jest.fn(),
+      lockForCapture: jest.fn(),
+      adjustHeld: jest.fn(),
+    };
+
+    outboxService = {
+      transactionCompleted: jest.fn(),
+      transactionFailed: jest.fn(),
+      batchFailed: jest.fn(),
+      balanceChanged: jest.fn(),
+      issuanceBudgetAlert: jest.fn(),
     };
 
+    exchangeRatesService = { findCurrent: jest.fn() };
+
     walletsService = {
       findSystemWallet: jest.fn(),
       findUserWallet: jest.fn(),
     };
+    walletsService.findOrCreateUserWallet = jest.fn((userId, code) =>
+      walletsService.findUserWallet(userId, code),
+    );
 
+    listQuery = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      leftJoin: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    };
     transactionRepo = {
       findOne: jest.fn(),
-      createQueryBuilder: jest.fn().mockReturnValue({
-        leftJoinAndSelect: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        skip: jest.fn().mockReturnThis(),
-        take: jest.fn().mockReturnThis(),
-        andWhere: jest.fn().mockReturnThis(),
-        getManyAndCount: jest.fn().mockResolvedValue([[], 0]),
-      }),
+      find: jest.fn(),
+      createQueryBuilder: jest.fn().mockReturnValue(listQuery),
+    };
+
+    batchRepo = {
+      findOne: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -86,7 +174,15 @@ describe('TransactionsService', () => {
           provide: getRepositoryToken(Transaction),
           useValue: transactionRepo,
         },
+        {
+          provide: getRepositoryToken(TransactionBatch),
+          useValue: batchRepo,
+        },
         { provide: WalletsService, useValue: walletsService },
+        { provide: IdempotencyService, useValue: idempotencyService },
+        { provide: HoldsService, useValue: holdsService },
+        { provide: OutboxService, useValue: outboxService },
+        { provide: ExchangeRatesService, useValue: exchangeRatesService },
       ],
     }).compile();
 
@@ -113,8 +209,8 @@ describe('TransactionsService', () => {
       });
 
       const result = await service.topUp(
-        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: 100 },
-        'idem-key-1',
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '100' },
+        idem('idem-key-1'),
       );
 
       expect(walletsService.findSystemWallet).toHaveBeenCalledWith('GOLD_COINS');
@@ -129,13 +225,151 @@ describe('TransactionsService', () => {
       expect(mockQueryRunner.release).toHaveBeenCalled();
       expect(result.status).toBe(TransactionStatus.COMPLETED);
     });
+
+    it('should queue outbox events in the same transaction', async () => {
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+      walletsService.findUserWallet.mockResolvedValue(userWallet);
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+      transactionRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+
+      await service.topUp(
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '100' },
+        idem('idem-key-outbox'),
+      );
+
+      expect(outboxService.transactionCompleted).toHaveBeenCalledWith(
+        mockQueryRunner.manager,
+        expect.objectContaining({ status: TransactionStatus.COMPLETED }),
+      );
+      expect(outboxService.balanceChanged).toHaveBeenCalledWith(
+        mockQueryRunner.manager,
+        expect.objectContaining({ id: userWallet.id, balance: '600.0000' }),
+        '500.0000',
+        'generated-id',
+      );
+      expect(outboxService.balanceChanged).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject credits past the asset balance cap', async () => {
+      const capped = { ...goldCoins, maxBalance: '550.0000' };
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+      walletsService.findUserWallet.mockResolvedValue({
+        ...userWallet,
+        assetType: capped,
+      });
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+
+      await expect(
+        service.topUp(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '51' },
+          idem('idem-key-cap'),
+        ),
+      ).rejects.toThrow(
+        'Balance limit exceeded. Max: 550.0000, Resulting: 551.0000',
+      );
+      expect(mockQueryRunner.commitTransaction).not.toHaveBeenCalled();
+    });
+
+    describe('with an issuance budget', () => {
+      const budgeted = {
+        ...goldCoins,
+        issuanceBudget: '1000.0000',
+        issuanceAlertPercent: 80,
+      };
+
+      beforeEach(() => {
+        walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+        walletsService.findUserWallet.mockResolvedValue({
+          ...userWallet,
+          assetType: budgeted,
+        });
+        // 1000000 minted at genesis, 500 of it in circulation
+        const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+        qbGetOne
+          .mockResolvedValueOnce({ ...treasuryWallet, balance: '999500.0000' })
+          .mockResolvedValueOnce({ ...userWallet });
+        mockQueryRunner.manager.createQueryBuilder = jest.fn().mockReturnValue({
+          select: jest.fn().mockReturnThis(),
+          where: jest.fn().mockReturnThis(),
+          andWhere: jest.fn().mockReturnThis(),
+          getRawOne: jest.fn().mockResolvedValue({ total: '1000000.0000' }),
+        });
+        transactionRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+      });
+
+      it('should reject issuance past the budget and record it', async () => {
+        await expect(
+          service.topUp(
+            { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '600' },
+            idem('idem-key-budget'),
+          ),
+        ).rejects.toThrow(
+          'Issuance budget exceeded for GOLD_COINS. Budget: 1000.0000, Circulating: 500.0000, Requested: 600.0000',
+        );
+        expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+          Transaction,
+          expect.objectContaining({ status: TransactionStatus.FAILED }),
+        );
+      });
+
+      it('should alert once circulating supply reaches the threshold', async () => {
+        await service.topUp(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '300' },
+          idem('idem-key-alert'),
+        );
+
+        expect(outboxService.issuanceBudgetAlert).toHaveBeenCalledWith(
+          mockQueryRunner.manager,
+          expect.objectContaining({ id: treasuryWallet.id }),
+          budgeted,
+          '800.0000',
+          'generated-id',
+        );
+      });
+
+      it('should not alert below the threshold', async () => {
+        await service.topUp(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '299' },
+          idem('idem-key-no-alert'),
+        );
+
+        expect(outboxService.issuanceBudgetAlert).not.toHaveBeenCalled();
+        expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+      });
+    });
+
+    it('should reject fractional amounts for whole-unit assets', async () => {
+      const diamonds = { ...goldCoins, code: 'DIAMONDS', decimalPlaces: 0 };
+      walletsService.findSystemWallet.mockResolvedValue({
+        ...treasuryWallet,
+        assetType: diamonds,
+      });
+      walletsService.findUserWallet.mockResolvedValue({
+        ...userWallet,
+        assetType: diamonds,
+      });
+
+      await expect(
+        service.topUp(
+          { userId: 'user-id', assetTypeCode: 'DIAMONDS', amount: '1.5' },
+          idem('idem-key-frac'),
+        ),
+      ).rejects.toThrow('Amount for DIAMONDS must be a whole number');
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+    });
   });
 
   describe('purchase', () => {
     it('should reject purchase with insufficient balance', async () => {
       walletsService.findUserWallet.mockResolvedValue({
         ...userWallet,
-        balance: 50,
+        balance: '50.0000',
       } as any);
       walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
 
@@ -143,12 +377,12 @@ describe('TransactionsService', () => {
       const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
       qbGetOne
         .mockResolvedValueOnce({ ...treasuryWallet })
-        .mockResolvedValueOnce({ ...userWallet, balance: 50 });
+        .mockResolvedValueOnce({ ...userWallet, balance: '50.0000' });
 
       await expect(
         service.purchase(
-          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: 999 },
-          'idem-key-2',
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '999' },
+          idem('idem-key-2'),
         ),
       ).rejects.toThrow(BadRequestException);
 
@@ -156,6 +390,287 @@ describe('TransactionsService', () => {
       expect(mockQueryRunner.release).toHaveBeenCalled();
     });
 
+    it('should spend the soonest-expiring credit lots first', async () => {
+      const day = 24 * 60 * 60 * 1000;
+      walletsService.findUserWallet.mockResolvedValue(userWallet);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, promoBalance: '80.0000' });
+      mockQueryRunner.manager.find.mockResolvedValueOnce([
+        {
+          id: 'lot-a',
+          remainingAmount: '30.0000',
+          expiresAt: new Date(Date.now() + day),
+        },
+        {
+          id: 'lot-b',
+          remainingAmount: '50.0000',
+          expiresAt: new Date(Date.now() + 2 * day),
+        },
+      ]);
+      transactionRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+
+      await service.purchase(
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '40' },
+        idem('idem-key-lots'),
+      );
+
+      expect(mockQueryRunner.manager.save).toHaveBeenCalledWith(CreditLot, [
+        expect.objectContaining({ id: 'lot-a', remainingAmount: '0.0000' }),
+        expect.objectContaining({ id: 'lot-b', remainingAmount: '40.0000' }),
+      ]);
+    });
+
+    it('should spend promotional funds before paid ones and record the split', async () => {
+      walletsService.findUserWallet.mockResolvedValue(userWallet);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, promoBalance: '120.0000' });
+      transactionRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+
+      await service.purchase(
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '200' },
+        idem('idem-key-promo'),
+      );
+
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Wallet,
+        userWallet.id,
+        { balance: '300.0000', promoBalance: '0.0000' },
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Wallet,
+        treasuryWallet.id,
+        { balance: '1000200.0000' },
+      );
+      expect(mockQueryRunner.manager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: TransactionStatus.COMPLETED,
+          promoAmount: '120.0000',
+          paidAmount: '80.0000',
+        }),
+      );
+    });
+
+    it('should not spend credit lots past their expiry', async () => {
+      walletsService.findUserWallet.mockResolvedValue(userWallet);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+      mockQueryRunner.manager.find.mockResolvedValueOnce([
+        {
+          id: 'lot-a',
+          remainingAmount: '480.0000',
+          expiresAt: new Date(Date.now() - 1000),
+        },
+      ]);
+
+      await expect(
+        service.purchase(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '50' },
+          idem('idem-key-overdue'),
+        ),
+      ).rejects.toThrow('Available: 20.0000');
+    });
+
+    it('should reject spending by a suspended user and record it', async () => {
+      walletsService.findUserWallet.mockResolvedValue({
+        ...userWallet,
+        user: { id: 'user-id', status: UserStatus.SUSPENDED },
+      });
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+
+      await expect(
+        service.purchase(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '10' },
+          idem('idem-key-suspended'),
+        ),
+      ).rejects.toThrow('User user-id is SUSPENDED');
+
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({ status: TransactionStatus.FAILED }),
+      );
+    });
+
+    it('should re-check the wallet status after locking', async () => {
+      walletsService.findUserWallet.mockResolvedValue(userWallet);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+
+      // Frozen between resolution and locking
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({
+          ...userWallet,
+          status: WalletStatus.FROZEN_DEBIT,
+        });
+
+      await expect(
+        service.purchase(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '10' },
+          idem('idem-key-frozen'),
+        ),
+      ).rejects.toThrow('Wallet bbbb-bbbb is FROZEN_DEBIT');
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should validate against the balance net of holds', async () => {
+      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, heldAmount: '450.0000' });
+
+      await expect(
+        service.purchase(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '100' },
+          idem('idem-key-held'),
+        ),
+      ).rejects.toThrow(
+        'Insufficient balance. Available: 50.0000, Required: 100.0000',
+      );
+    });
+
+    it('should record the rejected purchase as a FAILED transaction', async () => {
+      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+
+      await expect(
+        service.purchase(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '999' },
+          idem('idem-key-failed'),
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          idempotencyKey: 'idem-key-failed',
+          type: TransactionType.PURCHASE,
+          status: TransactionStatus.FAILED,
+          sourceWalletId: userWallet.id,
+          destinationWalletId: treasuryWallet.id,
+          errorStatus: 400,
+          errorMessage: expect.stringContaining('Insufficient balance'),
+        }),
+      );
+      expect(idempotencyService.claim).toHaveBeenLastCalledWith(
+        mockQueryRunner.manager,
+        expect.objectContaining({ key: 'idem-key-failed' }),
+        { transactionId: 'generated-id' },
+      );
+      expect(outboxService.transactionFailed).toHaveBeenCalledWith(
+        mockQueryRunner.manager,
+        expect.objectContaining({ status: TransactionStatus.FAILED }),
+      );
+      expect(outboxService.transactionCompleted).not.toHaveBeenCalled();
+    });
+
+    it('should record unknown wallets as FAILED without wallet ids', async () => {
+      walletsService.findUserWallet.mockRejectedValue(
+        new NotFoundException('Wallet not found'),
+      );
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+
+      await expect(
+        service.purchase(
+          { userId: 'ghost-id', assetTypeCode: 'GOLD_COINS', amount: '10' },
+          idem('idem-key-ghost'),
+        ),
+      ).rejects.toThrow(NotFoundException);
+
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          status: TransactionStatus.FAILED,
+          sourceWalletId: undefined,
+          errorStatus: 404,
+        }),
+      );
+    });
+
+    it('should not record transient database failures', async () => {
+      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne.mockRejectedValueOnce({ code: '40P01' });
+
+      await expect(
+        service.purchase(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '10' },
+          idem('idem-key-deadlock'),
+        ),
+      ).rejects.toEqual({ code: '40P01' });
+
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should log rejections that are not errors as JSON', async () => {
+      const logError = jest.spyOn(Logger.prototype, 'error');
+      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+      mockQueryRunner.manager
+        .getRepository()
+        .createQueryBuilder()
+        .getOne.mockRejectedValueOnce({ code: '40P01' });
+
+      await expect(
+        service.purchase(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '10' },
+          idem('idem-key-deadlock-log'),
+        ),
+      ).rejects.toEqual({ code: '40P01' });
+
+      expect(logError).toHaveBeenCalledWith(
+        expect.stringContaining('{"code":"40P01"}'),
+      );
+      logError.mockRestore();
+    });
+
+    it('should reject and record a numeric overflow as a 400', async () => {
+      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+      mockQueryRunner.manager
+        .getRepository()
+        .createQueryBuilder()
+        .getOne.mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+      mockQueryRunner.manager.update.mockRejectedValueOnce({ code: '22003' });
+
+      await expect(
+        service.topUp(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '10' },
+          idem('idem-key-overflow'),
+        ),
+      ).rejects.toThrow('Amount or resulting balance is out of range');
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          status: TransactionStatus.FAILED,
+          errorStatus: 400,
+        }),
+      );
+    });
+
     it('should succeed when balance is sufficient', async () => {
       walletsService.findUserWallet.mockResolvedValue(userWallet as any);
       walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
@@ -173,8 +688,8 @@ describe('TransactionsService', () => {
       });
 
       const result = await service.purchase(
-        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: 200 },
-        'idem-key-3',
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '200' },
+        idem('idem-key-3'),
       );
 
       expect(result.status).toBe(TransactionStatus.COMPLETED);
@@ -203,55 +718,1159 @@ describe('TransactionsService', () => {
         {
           userId: 'user-id',
           assetTypeCode: 'GOLD_COINS',
-          amount: 100,
+          amount: '100.0000',
           metadata: { reason: 'referral' },
         },
-        'idem-key-4',
+        idem('idem-key-4'),
       );
 
       expect(result.status).toBe(TransactionStatus.COMPLETED);
     });
-  });
 
-  describe('idempotency (23505 handling)', () => {
-    it('should return existing transaction on duplicate key', async () => {
-      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
-      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+    it('should credit bonuses as promotional funds and top-ups as paid', async () => {
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+      walletsService.findUserWallet.mockResolvedValue(userWallet);
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet })
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+      transactionRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+
+      await service.bonus(
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '100' },
+        idem('idem-key-promo-bonus'),
+      );
+      await service.topUp(
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '100' },
+        idem('idem-key-paid-topup'),
+      );
+
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Wallet,
+        userWallet.id,
+        { balance: '600.0000', promoBalance: '100.0000' },
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Wallet,
+        userWallet.id,
+        { balance: '600.0000' },
+      );
+    });
+
+    it('should open a credit lot for an expiring bonus', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+      walletsService.findUserWallet.mockResolvedValue(userWallet);
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+      transactionRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+
+      await service.bonus(
+        {
+          userId: 'user-id',
+          assetTypeCode: 'GOLD_COINS',
+          amount: '100',
+          expiresAt: expiresAt.toISOString(),
+        },
+        idem('idem-key-expiring'),
+      );
 
-      // Simulate UNIQUE violation on insert
-      mockQueryRunner.manager.save = jest.fn().mockRejectedValueOnce({
-        code: '23505',
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(CreditLot, {
+        walletId: userWallet.id,
+        transactionId: 'generated-id',
+        amount: '100',
+        remainingAmount: '100',
+        expiresAt,
       });
+    });
 
-      const existingTxn = {
-        id: 'existing-id',
-        status: TransactionStatus.COMPLETED,
-        idempotencyKey: 'dup-key',
+    it('should reject bonuses past the daily limit and record them', async () => {
+      const limited = {
+        ...userWallet,
+        assetType: { ...goldCoins, maxDailyBonus: '100.0000' },
       };
-      transactionRepo.findOne.mockResolvedValue(existingTxn);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+      walletsService.findUserWallet.mockResolvedValue(limited);
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+      mockQueryRunner.manager.createQueryBuilder = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getRawOne: jest.fn().mockResolvedValue({ total: '80.0000' }),
+      });
 
-      const result = await service.topUp(
-        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: 100 },
-        'dup-key',
-      );
+      await expect(
+        service.bonus(
+          { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '30' },
+          idem('idem-key-bonus-cap'),
+        ),
+      ).rejects.toThrow(LimitExceededException);
 
-      expect(result.id).toBe('existing-id');
+      expect(mockQueryRunner.manager.update).not.toHaveBeenCalled();
       expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+      // Not recorded, so a retry with the same key runs again
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
     });
-  });
 
-  describe('findById', () => {
-    it('should throw NotFoundException for unknown id', async () => {
-      transactionRepo.findOne.mockResolvedValue(null);
+    it('should reject an expiry in the past and record it', async () => {
+      await expect(
+        service.bonus(
+          {
+            userId: 'user-id',
+            assetTypeCode: 'GOLD_COINS',
+            amount: '100',
+            expiresAt: '2020-01-01T00:00:00Z',
+          },
+          idem('idem-key-expired'),
+        ),
+      ).rejects.toThrow('expiresAt must be in the future');
 
-      await expect(service.findById('unknown-id')).rejects.toThrow(
-        NotFoundException,
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({ status: TransactionStatus.FAILED }),
       );
     });
+  });
 
-    it('should return transaction with relations', async () => {
-      const txn = { id: 'txn-1', ledgerEntries: [] };
-      transactionRepo.findOne.mockResolvedValue(txn);
+  describe('transfer', () => {
+    const recipientWallet = {
+      id: 'cccc-cccc',
+      userId: 'recipient-id',
+      balance: '10.0000',
+      status: WalletStatus.ACTIVE,
+      assetType: goldCoins,
+      user: { id: 'recipient-id', status: UserStatus.ACTIVE },
+    };
+
+    it('should reject transfers to the same user', async () => {
+      await expect(
+        service.transfer(
+          {
+            fromUserId: 'user-id',
+            toUserId: 'user-id',
+            assetTypeCode: 'GOLD_COINS',
+            amount: '10.0000',
+          },
+          idem('idem-key-5'),
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(walletsService.findUserWallet).not.toHaveBeenCalled();
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+    });
+
+    it('should move funds between two user wallets', async () => {
+      walletsService.findUserWallet
+        .mockResolvedValueOnce(userWallet as any)
+        .mockResolvedValueOnce(recipientWallet as any);
+
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...userWallet })
+        .mockResolvedValueOnce({ ...recipientWallet });
+
+      transactionRepo.findOne.mockResolvedValue({
+        id: 'generated-id',
+        status: TransactionStatus.COMPLETED,
+        type: TransactionType.TRANSFER,
+        ledgerEntries: [],
+      });
+
+      const result = await service.transfer(
+        {
+          fromUserId: 'user-id',
+          toUserId: 'recipient-id',
+          assetTypeCode: 'GOLD_COINS',
+          amount: '100.0000',
+        },
+        idem('idem-key-6'),
+      );
+
+      expect(result.type).toBe(TransactionType.TRANSFER);
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        expect.anything(),
+        'bbbb-bbbb',
+        { balance: '400.0000' },
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        expect.anything(),
+        'cccc-cccc',
+        { balance: '110.0000' },
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should carry expiring funds over with their expiry', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      walletsService.findUserWallet
+        .mockResolvedValueOnce(userWallet as any)
+        .mockResolvedValueOnce(recipientWallet as any);
+      mockQueryRunner.manager
+        .getRepository()
+        .createQueryBuilder()
+        .getOne.mockResolvedValueOnce({
+          ...userWallet,
+          promoBalance: '50.0000',
+        })
+        .mockResolvedValueOnce({ ...recipientWallet });
+      mockQueryRunner.manager.find.mockResolvedValue([
+        { id: 'lot-1', remainingAmount: '30.0000', expiresAt },
+      ]);
+      transactionRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+
+      await service.transfer(
+        {
+          fromUserId: 'user-id',
+          toUserId: 'recipient-id',
+          assetTypeCode: 'GOLD_COINS',
+          amount: '40.0000',
+        },
+        idem('carry-lots'),
+      );
+
+      // 30 from the lot, 10 from untracked promotional funds
+      expect(mockQueryRunner.manager.save).toHaveBeenCalledWith(CreditLot, [
+        expect.objectContaining({ id: 'lot-1', remainingAmount: '0.0000' }),
+      ]);
+      expect(mockQueryRunner.manager.save).toHaveBeenCalledWith(CreditLot, [
+        {
+          walletId: recipientWallet.id,
+          transactionId: 'generated-id',
+          amount: '30.0000',
+          remainingAmount: '30.0000',
+          expiresAt,
+        },
+      ]);
+    });
+
+    it('should reject transfer with insufficient balance', async () => {
+      walletsService.findUserWallet
+        .mockResolvedValueOnce(userWallet as any)
+        .mockResolvedValueOnce(recipientWallet as any);
+
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...userWallet })
+        .mockResolvedValueOnce({ ...recipientWallet });
+
+      await expect(
+        service.transfer(
+          {
+            fromUserId: 'user-id',
+            toUserId: 'recipient-id',
+            assetTypeCode: 'GOLD_COINS',
+            amount: '501.0000',
+          },
+          idem('idem-key-7'),
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+  });
+
+  describe('exchange', () => {
+    const diamonds = { ...goldCoins, code: 'DIAMONDS', decimalPlaces: 0 };
+    const diamondTreasury = {
+      ...treasuryWallet,
+      id: 'eeee-eeee',
+      assetType: diamonds,
+    };
+    const diamondWallet = {
+      ...userWallet,
+      id: 'dddd-dddd',
+      balance: '50.0000',
+      assetType: diamonds,
+    };
+    const dto = {
+      userId: 'user-id',
+      fromAssetTypeCode: 'DIAMONDS',
+      toAssetTypeCode: 'GOLD_COINS',
+      amount: '10',
+    };
+
+    beforeEach(() => {
+      walletsService.findUserWallet.mockImplementation(
+        async (_userId: string, code: string) =>
+          code === 'DIAMONDS' ? diamondWallet : userWallet,
+      );
+      walletsService.findSystemWallet.mockImplementation(async (code: string) =>
+        code === 'DIAMONDS' ? diamondTreasury : treasuryWallet,
+      );
+      exchangeRatesService.findCurrent.mockResolvedValue({
+        id: 'rate-1',
+        version: 2,
+        rate: '100.00000000',
+        spreadBps: 0,
+      });
+    });
+
+    it('should settle both legs through the treasuries in one transaction', async () => {
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      // Locked in ascending id order: aaaa, bbbb, dddd, eeee
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet })
+        .mockResolvedValueOnce({ ...diamondWallet })
+        .mockResolvedValueOnce({ ...diamondTreasury });
+      transactionRepo.findOne.mockResolvedValue({
+        id: 'generated-id',
+        type: TransactionType.EXCHANGE,
+      });
+
+      await service.exchange(dto, idem('exchange-1'));
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          type: TransactionType.EXCHANGE,
+          sourceWalletId: 'dddd-dddd',
+          destinationWalletId: 'bbbb-bbbb',
+          amount: '10',
+          counterAmount: '1000.0000',
+          exchangeRateId: 'rate-1',
+        }),
+      );
+      const balances = Object.fromEntries(
+        mockQueryRunner.manager.update.mock.calls.map(
+          ([, id, changes]: [unknown, string, { balance: string }]) => [
+            id,
+            changes.balance,
+          ],
+        ),
+      );
+      expect(balances).toEqual({
+        'dddd-dddd': '40.0000',
+        'eeee-eeee': '1000010.0000',
+        'aaaa-aaaa': '999000.0000',
+        'bbbb-bbbb': '1500.0000',
+      });
+      const entries = mockQueryRunner.manager.save.mock.calls
+        .filter(([entity]: [unknown]) => entity === LedgerEntry)
+        .flatMap(([, saved]: [unknown, any[]]) => saved);
+      expect(entries).toHaveLength(4);
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should reject a quote for a superseded rate version', async () => {
+      await expect(
+        service.exchange({ ...dto, rateVersion: 1 }, idem('exchange-2')),
+      ).rejects.toThrow(
+        'Exchange rate from DIAMONDS to GOLD_COINS is at version 2, not 1',
+      );
+
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          type: TransactionType.EXCHANGE,
+          status: TransactionStatus.FAILED,
+        }),
+      );
+    });
+
+    it('should reject exchanging an asset for itself', async () => {
+      await expect(
+        service.exchange(
+          { ...dto, toAssetTypeCode: 'DIAMONDS' },
+          idem('exchange-3'),
+        ),
+      ).rejects.toThrow('Cannot exchange an asset for itself');
+    });
+
+    it('should reject amounts that convert to nothing', async () => {
+      exchangeRatesService.findCurrent.mockResolvedValue({
+        id: 'rate-2',
+        version: 1,
+        rate: '0.1',
+        spreadBps: 0,
+      });
+
+      await expect(
+        service.exchange(
+          {
+            ...dto,
+            fromAssetTypeCode: 'GOLD_COINS',
+            toAssetTypeCode: 'DIAMONDS',
+            amount: '5',
+          },
+          idem('exchange-4'),
+        ),
+      ).rejects.toThrow('Amount is too small to exchange into DIAMONDS');
+    });
+
+    it('should refuse to reverse an exchange', async () => {
+      transactionRepo.findOne.mockResolvedValue({
+        id: 'exchange-id',
+        type: TransactionType.EXCHANGE,
+        status: TransactionStatus.COMPLETED,
+        amount: '10.0000',
+        reversedAmount: '0.0000',
+      });
+
+      await expect(
+        service.reverse('exchange-id', {}, idem('reverse-exchange')),
+      ).rejects.toThrow(
+        'Transaction exchange-id is an EXCHANGE and cannot be reversed',
+      );
+    });
+  });
+
+  describe('reverse', () => {
+    const purchaseTxn = {
+      id: 'purchase-id',
+      type: TransactionType.PURCHASE,
+      status: TransactionStatus.COMPLETED,
+      sourceWalletId: userWallet.id,
+      destinationWalletId: treasuryWallet.id,
+      sourceWallet: { assetType: goldCoins, user: userWallet.user },
+      destinationWallet: { user: { role: UserRole.SYSTEM } },
+      amount: '200.0000',
+      reversedAmount: '0.0000',
+    };
+
+    it('should record a reversal of an unknown transaction', async () => {
+      transactionRepo.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.reverse('unknown-id', {}, idem('reverse-unknown')),
+      ).rejects.toThrow(NotFoundException);
+
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          type: TransactionType.REVERSAL,
+          status: TransactionStatus.FAILED,
+          amount: '0',
+          originalTransactionId: undefined,
+          errorStatus: 404,
+        }),
+      );
+    });
+
+    it('should record a refund the original does not allow', async () => {
+      transactionRepo.findOne.mockResolvedValue({
+        ...purchaseTxn,
+        status: TransactionStatus.FAILED,
+      });
+
+      await expect(
+        service.reverse('purchase-id', {}, idem('reverse-failed')),
+      ).rejects.toThrow('Transaction purchase-id is FAILED');
+
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          type: TransactionType.REFUND,
+          status: TransactionStatus.FAILED,
+          amount: '200.0000',
+          originalTransactionId: 'purchase-id',
+          errorStatus: 400,
+        }),
+      );
+    });
+
+    it('should refund a purchase from treasury back to the user', async () => {
+      transactionRepo.findOne
+        .mockResolvedValueOnce(purchaseTxn)
+        .mockResolvedValueOnce({
+          id: 'generated-id',
+          status: TransactionStatus.COMPLETED,
+          type: TransactionType.REFUND,
+        });
+
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...purchaseTxn })
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+
+      const result = await service.reverse(
+        'purchase-id',
+        { amount: '50.0000', reason: 'disputed' },
+        idem('idem-key-8'),
+      );
+
+      expect(result.type).toBe(TransactionType.REFUND);
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          type: TransactionType.REFUND,
+          sourceWalletId: treasuryWallet.id,
+          destinationWalletId: userWallet.id,
+          originalTransactionId: 'purchase-id',
+          metadata: { reason: 'disputed' },
+        }),
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Transaction,
+        'purchase-id',
+        {
+          reversedAmount: '50.0000',
+          status: TransactionStatus.PARTIALLY_REVERSED,
+        },
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        expect.anything(),
+        userWallet.id,
+        { balance: '550.0000' },
+      );
+    });
+
+    it('should restore paid funds before promotional ones', async () => {
+      const splitPurchase = {
+        ...purchaseTxn,
+        promoAmount: '170.0000',
+        paidAmount: '30.0000',
+      };
+      transactionRepo.findOne.mockResolvedValue(splitPurchase);
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...splitPurchase })
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+
+      await service.reverse('purchase-id', { amount: '50' }, idem('idem-k'));
+
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Wallet,
+        userWallet.id,
+        { balance: '550.0000', promoBalance: '20.0000' },
+      );
+    });
+
+    it('should refund into a frozen wallet', async () => {
+      transactionRepo.findOne.mockResolvedValue(purchaseTxn);
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...purchaseTxn })
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({
+          ...userWallet,
+          status: WalletStatus.FROZEN_ALL,
+        });
+
+      await service.reverse('purchase-id', { amount: '50' }, idem('idem-k'));
+
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should default to the remaining amount and mark original REVERSED', async () => {
+      const partiallyReversed = {
+        ...purchaseTxn,
+        status: TransactionStatus.PARTIALLY_REVERSED,
+        reversedAmount: '50.0000',
+      };
+      transactionRepo.findOne
+        .mockResolvedValueOnce(partiallyReversed)
+        .mockResolvedValueOnce({ id: 'generated-id' });
+
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...partiallyReversed })
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+
+      await service.reverse('purchase-id', {}, idem('idem-key-9'));
+
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Transaction,
+        'purchase-id',
+        { reversedAmount: '200.0000', status: TransactionStatus.REVERSED },
+      );
+    });
+
+    it('should reject reversing more than the remaining amount', async () => {
+      const partiallyReversed = {
+        ...purchaseTxn,
+        status: TransactionStatus.PARTIALLY_REVERSED,
+        reversedAmount: '150.0000',
+      };
+      transactionRepo.findOne.mockResolvedValueOnce(partiallyReversed);
+
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne.mockResolvedValueOnce({ ...partiallyReversed });
+
+      await expect(
+        service.reverse('purchase-id', { amount: '100' }, idem('idem-key-10')),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mockQueryRunner.commitTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject reversing a fully reversed transaction', async () => {
+      transactionRepo.findOne.mockResolvedValueOnce({
+        ...purchaseTxn,
+        status: TransactionStatus.REVERSED,
+        reversedAmount: '200.0000',
+      });
+
+      await expect(
+        service.reverse('purchase-id', {}, idem('idem-key-11')),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+    });
+
+    it('should reject reversing a refund', async () => {
+      transactionRepo.findOne.mockResolvedValueOnce({
+        ...purchaseTxn,
+        type: TransactionType.REFUND,
+      });
+
+      await expect(
+        service.reverse('purchase-id', {}, idem('idem-key-12')),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('idempotency (23505 handling)', () => {
+    it('should return existing transaction on duplicate key', async () => {
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+
+      // Simulate UNIQUE violation when claiming the key
+      idempotencyService.claim.mockRejectedValueOnce({ code: '23505' });
+
+      const existingTxn = {
+        id: 'existing-id',
+        status: TransactionStatus.COMPLETED,
+        idempotencyKey: 'dup-key',
+      };
+      idempotencyService.replayExisting.mockResolvedValue(existingTxn);
+
+      const context = idem('dup-key');
+      const result = await service.topUp(
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '100' },
+        context,
+      );
+
+      expect(result.id).toBe('existing-id');
+      expect(idempotencyService.replayExisting).toHaveBeenCalledWith(context);
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mockQueryRunner.commitTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should propagate the replayed error of a concurrent attempt', async () => {
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+
+      idempotencyService.claim.mockRejectedValueOnce({ code: '23505' });
+      idempotencyService.replayExisting.mockRejectedValue(
+        new HttpException('Insufficient balance', 400),
+      );
+
+      const promise = service.purchase(
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '100' },
+        idem('dup-key'),
+      );
+
+      await expect(promise).rejects.toThrow(HttpException);
+      await expect(promise).rejects.toMatchObject({ status: 400 });
+      // A replayed error is not a new failure and must not be recorded again
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should claim the key inside the transaction', async () => {
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+      transactionRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+
+      const context = idem('claim-key');
+      await service.topUp(
+        { userId: 'user-id', assetTypeCode: 'GOLD_COINS', amount: '100' },
+        context,
+      );
+
+      expect(idempotencyService.claim).toHaveBeenCalledWith(
+        mockQueryRunner.manager,
+        context,
+        { transactionId: 'generated-id' },
+      );
+    });
+  });
+
+  describe('batch', () => {
+    const qbGetOne = () =>
+      mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+
+    it('should apply every operation against running balances and commit once', async () => {
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+      // Both operations touch the same two wallets — each is locked once
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+      batchRepo.findOne.mockResolvedValue({
+        id: 'generated-id',
+        status: TransactionStatus.COMPLETED,
+        transactions: [],
+      });
+
+      const result = await service.batch(
+        {
+          operations: [
+            {
+              type: TransactionType.TOP_UP,
+              userId: 'user-id',
+              assetTypeCode: 'GOLD_COINS',
+              amount: '100.0000',
+            },
+            {
+              type: TransactionType.PURCHASE,
+              userId: 'user-id',
+              assetTypeCode: 'GOLD_COINS',
+              amount: '550.0000',
+            },
+          ],
+        },
+        idem('batch-key-1'),
+      );
+
+      expect(result.status).toBe(TransactionStatus.COMPLETED);
+      expect(qbGetOne()).toHaveBeenCalledTimes(2);
+      expect(idempotencyService.claim).toHaveBeenCalledWith(
+        mockQueryRunner.manager,
+        expect.objectContaining({ key: 'batch-key-1' }),
+        { batchId: 'generated-id' },
+      );
+      // 500 + 100 top-up, then 600 - 550 purchase
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        expect.anything(),
+        'bbbb-bbbb',
+        { balance: '600.0000' },
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        expect.anything(),
+        'bbbb-bbbb',
+        { balance: '50.0000' },
+      );
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          batchId: 'generated-id',
+          batchIndex: 1,
+          type: TransactionType.PURCHASE,
+          status: TransactionStatus.COMPLETED,
+        }),
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll back the whole batch and record it as FAILED', async () => {
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+      walletsService.findUserWallet.mockResolvedValue(userWallet as any);
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet });
+
+      await expect(
+        service.batch(
+          {
+            operations: [
+              {
+                type: TransactionType.BONUS,
+                userId: 'user-id',
+                assetTypeCode: 'GOLD_COINS',
+                amount: '10.0000',
+              },
+              {
+                type: TransactionType.PURCHASE,
+                userId: 'user-id',
+                assetTypeCode: 'GOLD_COINS',
+                amount: '600.0000',
+              },
+            ],
+          },
+          idem('batch-key-2'),
+        ),
+      ).rejects.toThrow('Operation 1: Insufficient balance');
+
+      expect(mockQueryRunner.commitTransaction).not.toHaveBeenCalled();
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mockQueryRunner.manager.create).toHaveBeenLastCalledWith(
+        TransactionBatch,
+        expect.objectContaining({
+          status: TransactionStatus.FAILED,
+          errorStatus: 400,
+        }),
+      );
+    });
+
+    it('should record unresolvable operations without opening a transaction', async () => {
+      walletsService.findUserWallet.mockRejectedValue(
+        new NotFoundException('Wallet not found'),
+      );
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+
+      await expect(
+        service.batch(
+          {
+            operations: [
+              {
+                type: TransactionType.TOP_UP,
+                userId: 'ghost-id',
+                assetTypeCode: 'GOLD_COINS',
+                amount: '10.0000',
+              },
+            ],
+          },
+          idem('batch-key-3'),
+        ),
+      ).rejects.toThrow('Operation 0: Wallet not found');
+
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+      expect(idempotencyService.claim).toHaveBeenCalledWith(
+        mockQueryRunner.manager,
+        expect.objectContaining({ key: 'batch-key-3' }),
+        { batchId: 'generated-id' },
+      );
+    });
+  });
+
+  describe('captureHold', () => {
+    const hold = {
+      id: 'hold-1',
+      walletId: userWallet.id,
+      wallet: { assetType: goldCoins, user: userWallet.user },
+      amount: '300.0000',
+      status: HoldStatus.ACTIVE,
+      referenceId: 'auction-1',
+      metadata: {},
+    };
+
+    it('should release the whole hold and purchase the captured amount', async () => {
+      holdsService.findById.mockResolvedValue(hold);
+      holdsService.lockForCapture.mockResolvedValue(hold);
+      holdsService.adjustHeld.mockImplementation(
+        async (_qr, wallet, delta) => {
+          wallet.heldAmount = fromMinor(toMinor(wallet.heldAmount) + delta);
+        },
+      );
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet as any);
+
+      const qbGetOne = mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+      qbGetOne
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, heldAmount: '300.0000' });
+      transactionRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+
+      await service.captureHold(
+        'hold-1',
+        { amount: '200.0000' },
+        idem('cap-1'),
+      );
+
+      expect(holdsService.lockForCapture).toHaveBeenCalledWith(
+        mockQueryRunner,
+        'hold-1',
+        '200.0000',
+      );
+      expect(holdsService.adjustHeld).toHaveBeenCalledWith(
+        mockQueryRunner,
+        expect.objectContaining({ id: userWallet.id }),
+        -3000000n,
+      );
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          type: TransactionType.PURCHASE,
+          holdId: 'hold-1',
+          amount: '200.0000',
+          sourceWalletId: userWallet.id,
+          destinationWalletId: treasuryWallet.id,
+        }),
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        expect.anything(),
+        userWallet.id,
+        { balance: '300.0000' },
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should reject holds that are no longer active', async () => {
+      holdsService.findById.mockResolvedValue({
+        ...hold,
+        status: HoldStatus.VOIDED,
+      });
+
+      await expect(
+        service.captureHold('hold-1', {}, idem('cap-2')),
+      ).rejects.toThrow('Hold hold-1 is VOIDED');
+      expect(mockDataSource.createQueryRunner).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleForClosure', () => {
+    const qbGetOne = () =>
+      mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+
+    beforeEach(() => {
+      walletsService.getWalletsByUser = jest
+        .fn()
+        .mockResolvedValue([userWallet]);
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+    });
+
+    it('should reject closing with a balance unless sweeping', async () => {
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, heldAmount: '0' });
+
+      await expect(
+        service.settleForClosure(mockQueryRunner, 'user-id', false),
+      ).rejects.toThrow('GOLD_COINS balance is 500.0000');
+    });
+
+    it('should reject closing with active holds', async () => {
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, heldAmount: '1.0000' });
+
+      await expect(
+        service.settleForClosure(mockQueryRunner, 'user-id', true),
+      ).rejects.toThrow('wallet has active holds');
+    });
+
+    it('should sweep remaining balances to the treasury', async () => {
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, heldAmount: '0' });
+
+      await service.settleForClosure(mockQueryRunner, 'user-id', true);
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          type: TransactionType.SWEEP,
+          sourceWalletId: userWallet.id,
+          destinationWalletId: treasuryWallet.id,
+          amount: '500.0000',
+        }),
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        expect.anything(),
+        userWallet.id,
+        { balance: '0.0000' },
+      );
+    });
+
+    it('should sweep funds awaiting expiry along with the rest', async () => {
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({
+          ...userWallet,
+          heldAmount: '0',
+          promoBalance: '30.0000',
+        });
+      mockQueryRunner.manager.find.mockResolvedValue([
+        {
+          id: 'lot-1',
+          remainingAmount: '30.0000',
+          expiresAt: new Date(Date.now() - 1000),
+        },
+      ]);
+
+      await service.settleForClosure(mockQueryRunner, 'user-id', true);
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          type: TransactionType.SWEEP,
+          amount: '500.0000',
+        }),
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        expect.anything(),
+        userWallet.id,
+        { balance: '0.0000', promoBalance: '0.0000' },
+      );
+      expect(mockQueryRunner.manager.save).toHaveBeenCalledWith(CreditLot, [
+        expect.objectContaining({ id: 'lot-1', remainingAmount: '0.0000' }),
+      ]);
+    });
+  });
+
+  describe('expireCreditLot', () => {
+    const qbGetOne = () =>
+      mockQueryRunner.manager.getRepository().createQueryBuilder().getOne;
+    const lot = {
+      id: 'lot-1',
+      walletId: userWallet.id,
+      wallet: userWallet,
+      remainingAmount: '30.0000',
+      expiresAt: new Date(Date.now() - 1000),
+      expiredAt: null,
+    };
+
+    beforeEach(() => {
+      mockDataSource.getRepository = jest
+        .fn()
+        .mockReturnValue({ findOne: jest.fn().mockResolvedValue(lot) });
+      mockQueryRunner.manager.findOneByOrFail = jest
+        .fn()
+        .mockResolvedValue({ ...lot });
+      walletsService.findSystemWallet.mockResolvedValue(treasuryWallet);
+      transactionRepo.findOne.mockResolvedValue({ id: 'generated-id' });
+    });
+
+    it('should debit what is left of the lot to the treasury', async () => {
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, heldAmount: '0' });
+
+      await service.expireCreditLot('lot-1');
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          type: TransactionType.EXPIRY,
+          sourceWalletId: userWallet.id,
+          destinationWalletId: treasuryWallet.id,
+          amount: '30.0000',
+        }),
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        expect.anything(),
+        userWallet.id,
+        { balance: '470.0000' },
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        CreditLot,
+        'lot-1',
+        expect.objectContaining({
+          remainingAmount: '0.0000',
+          expiredAmount: '30.0000',
+          expiredAt: expect.any(Date),
+          expiryTransactionId: 'generated-id',
+        }),
+      );
+      // The lot settles itself rather than drawing on the wallet's lots
+      expect(mockQueryRunner.manager.find).not.toHaveBeenCalled();
+    });
+
+    it('should leave funds reserved by holds in the wallet', async () => {
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, heldAmount: '490.0000' });
+
+      await service.expireCreditLot('lot-1');
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({ amount: '10.0000' }),
+      );
+    });
+
+    it('should keep the held part in the lot for a later sweep', async () => {
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, heldAmount: '490.0000' });
+
+      await service.expireCreditLot('lot-1');
+
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        CreditLot,
+        'lot-1',
+        expect.objectContaining({
+          remainingAmount: '20.0000',
+          expiredAmount: '10.0000',
+          expiredAt: null,
+        }),
+      );
+    });
+
+    it('should expire the rest once the hold is released', async () => {
+      mockQueryRunner.manager.findOneByOrFail.mockResolvedValue({
+        ...lot,
+        remainingAmount: '20.0000',
+        expiredAmount: '10.0000',
+        expiryTransactionId: 'first-expiry-id',
+      });
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, heldAmount: '0' });
+
+      await service.expireCreditLot('lot-1');
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        Transaction,
+        expect.objectContaining({
+          type: TransactionType.EXPIRY,
+          amount: '20.0000',
+        }),
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        CreditLot,
+        'lot-1',
+        expect.objectContaining({
+          remainingAmount: '0.0000',
+          expiredAmount: '30.0000',
+          expiredAt: expect.any(Date),
+          expiryTransactionId: 'generated-id',
+        }),
+      );
+    });
+
+    it('should skip lots that are not yet due', async () => {
+      mockQueryRunner.manager.findOneByOrFail.mockResolvedValue({
+        ...lot,
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+      qbGetOne()
+        .mockResolvedValueOnce({ ...treasuryWallet })
+        .mockResolvedValueOnce({ ...userWallet, heldAmount: '0' });
+
+      await expect(service.expireCreditLot('lot-1')).resolves.toBeNull();
+      expect(mockQueryRunner.manager.create).not.toHaveBeenCalled();
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should refuse to reverse an expiry', async () => {
+      transactionRepo.findOne.mockResolvedValue({
+        id: 'expiry-id',
+        type: TransactionType.EXPIRY,
+        status: TransactionStatus.COMPLETED,
+        amount: '10.0000',
+        reversedAmount: '0.0000',
+      });
+
+      await expect(
+        service.reverse('expiry-id', {}, idem('reverse-expiry')),
+      ).rejects.toThrow(
+        'Transaction expiry-id is an EXPIRY and cannot be reversed',
+      );
+    });
+  });
+
+  describe('findById', () => {
+    it('should throw NotFoundException for unknown id', async () => {
+      transactionRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.findById('unknown-id')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should return transaction with relations', async () => {
+      const txn = { id: 'txn-1', ledgerEntries: [] };
+      transactionRepo.findOne.mockResolvedValue(txn);
 
       const result = await service.findById('txn-1');
       expect(result.id).toBe('txn-1');
@@ -259,9 +1878,98 @@ describe('TransactionsService', () => {
   });
 
   describe('findAll', () => {
-    it('should return paginated transactions', async () => {
-      const result = await service.findAll(undefined, undefined, 1, 20);
-      expect(result).toEqual({ transactions: [], total: 0 });
+    const rows = [
+      { id: 'txn-3', createdAt: '2026-01-01 12:00:00.000003+00' },
+      { id: 'txn-2', createdAt: '2026-01-01 12:00:00.000002+00' },
+      { id: 'txn-1', createdAt: '2026-01-01 12:00:00.000001+00' },
+    ];
+
+    it('should return an empty page without loading relations', async () => {
+      const result = await service.findAll({ limit: 20 });
+
+      expect(result).toEqual({ transactions: [], nextCursor: null });
+      expect(transactionRepo.find).not.toHaveBeenCalled();
+    });
+
+    it('should fetch one extra row to decide whether another page exists', async () => {
+      listQuery.getRawMany.mockResolvedValue(rows);
+      transactionRepo.find.mockResolvedValue([
+        { id: 'txn-3' },
+        { id: 'txn-2' },
+      ]);
+
+      const result = await service.findAll({ limit: 2 });
+
+      expect(listQuery.limit).toHaveBeenCalledWith(3);
+      expect(result.transactions).toHaveLength(2);
+      expect(decodeCursor(result.nextCursor!, 2)).toEqual([
+        rows[1].createdAt,
+        'txn-2',
+      ]);
+    });
+
+    it('should continue after the cursor row', async () => {
+      const id = '3f0c9a1e-5b7d-4c2a-9e8f-1a2b3c4d5e6f';
+      const cursor = encodeCursor([rows[1].createdAt, id]);
+
+      await service.findAll({ limit: 2, cursor });
+
+      expect(listQuery.andWhere).toHaveBeenCalledWith(
+        '(txn.createdAt, txn.id) < (CAST(:createdAt AS timestamptz), :id)',
+        { createdAt: rows[1].createdAt, id },
+      );
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(
+        service.findAll({ limit: 2, cursor: 'not-a-cursor' }),
+      ).rejects.toThrow('Invalid cursor');
+    });
+
+    it('should reject a cursor whose timestamp is not a date', async () => {
+      const cursor = encodeCursor([
+        '2026-02-30 12:00:00+00',
+        '3f0c9a1e-5b7d-4c2a-9e8f-1a2b3c4d5e6f',
+      ]);
+
+      await expect(service.findAll({ limit: 2, cursor })).rejects.toThrow(
+        'Invalid cursor',
+      );
+      expect(listQuery.getRawMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a cursor whose id is not a UUID', async () => {
+      const cursor = encodeCursor([rows[1].createdAt, 'txn-2']);
+
+      await expect(service.findAll({ limit: 2, cursor })).rejects.toThrow(
+        'Invalid cursor',
+      );
+      expect(listQuery.getRawMany).not.toHaveBeenCalled();
+    });
+
+    it('should filter on metadata keys with bound parameters', async () => {
+      await service.findAll({
+        limit: 20,
+        status: TransactionStatus.COMPLETED,
+        metadata: { orderId: '42' },
+      });
+
+      expect(listQuery.andWhere).toHaveBeenCalledWith('txn.status = :status', {
+        status: TransactionStatus.COMPLETED,
+      });
+      expect(listQuery.andWhere).toHaveBeenCalledWith(
+        'txn.metadata ->> :metadataKey0 = :metadataValue0',
+        { metadataKey0: 'orderId', metadataValue0: '42' },
+      );
+    });
+
+    it('should reject nested metadata filters', async () => {
+      await expect(
+        service.findAll({
+          limit: 20,
+          metadata: { order: { id: '42' } } as any,
+        }),
+      ).rejects.toThrow('metadata.order must be a single value');
     });
   });
 });
@@ -2,34 +2,167 @@ import {
   Injectable,
   BadRequestException,
   NotFoundException,
+  HttpException,
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { DataSource, Repository, QueryRunner } from 'typeorm';
+import { DataSource, In, Repository, QueryRunner } from 'typeorm';
+import { isISO8601, isUUID } from 'class-validator';
 import { Transaction } from './entities/transaction.entity';
+import { TransactionBatch } from './entities/transaction-batch.entity';
 import { LedgerEntry } from './entities/ledger-entry.entity';
+import { CreditLot } from './entities/credit-lot.entity';
+import { chainLedgerEntries } from './ledger-chain';
+import {
+  carryLots,
+  drawOnLots,
+  findOpenLots,
+  LotDraw,
+  overdueAmount,
+} from './credit-lots';
+import {
+  FundsSplit,
+  SpendOrder,
+  promoShare,
+  restoredPromo,
+  splitDebit,
+} from './promo-funds';
+import { LimitExceededException, velocityViolation } from './velocity-limits';
+import { alertThreshold, circulatingSupply } from './issuance-budget';
 import { Wallet } from '../wallets/entities/wallet.entity';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
+import { WalletStatusChange } from '../wallets/entities/wallet-status-change.entity';
 import { WalletsService } from '../wallets/wallets.service';
 import {
   TransactionType,
   TransactionStatus,
   EntryType,
+  UserRole,
+  HoldStatus,
+  WalletStatus,
 } from '../common/enums';
 import { TopUpDto } from './dto/top-up.dto';
 import { BonusDto } from './dto/bonus.dto';
 import { PurchaseDto } from './dto/purchase.dto';
+import { TransferDto } from './dto/transfer.dto';
+import { ExchangeDto } from './dto/exchange.dto';
+import { ReverseDto } from './dto/reverse.dto';
+import { BatchDto, BatchOperationType } from './dto/batch.dto';
+import { CaptureHoldDto } from './dto/capture-hold.dto';
+import { ListTransactionsQueryDto } from './dto/list-transactions-query.dto';
+import { HoldsService } from './holds.service';
+import {
+  assertAmountAllowed,
+  assertPrecisionAllowed,
+  assertWithinMaxBalance,
+} from '../asset-types/asset-type-limits';
+import { assertCanReceive, assertCanSpend } from '../users/user-status';
+import { assertCanCredit, assertCanDebit } from '../wallets/wallet-status';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { OutboxService } from '../webhooks/outbox.service';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { convertAmount } from '../exchange-rates/exchange-rate-math';
+import { IdempotencyContext } from '../common/utils/idempotency-context';
+import { fromMinor, normalizeAmount, toMinor } from '../common/utils/money';
+import { decodeCursor, encodeCursor } from '../common/utils/cursor';
+
+const TRANSACTION_RELATIONS = [
+  'ledgerEntries',
+  'sourceWallet',
+  'sourceWallet.assetType',
+  'sourceWallet.user',
+  'destinationWallet',
+  'destinationWallet.assetType',
+  'destinationWallet.user',
+];
 
-interface ExecuteTransactionParams {
-  idempotencyKey: string;
+/** Fields known before wallets are resolved — enough to record a FAILED attempt */
+interface TransactionRequest {
+  idempotency: IdempotencyContext;
   type: TransactionType;
-  sourceWalletId: string;
-  destWalletId: string;
-  amount: number;
+  amount: string;
   referenceId?: string;
   metadata?: Record<string, any>;
+  originalTransactionId?: string;
+  holdId?: string;
+}
+
+/** Who is debited and credited for an operation */
+interface ResolvedLeg {
+  sourceWalletId: string;
+  destWalletId: string;
   validateSourceBalance: boolean;
+  /** The asset's max_balance when the destination is a user wallet */
+  maxDestBalance?: string | null;
+  /** Compensations may move funds out of (and into) frozen wallets */
+  ignoreFreeze?: boolean;
+  /** Set for exchanges, whose source and destination hold different assets */
+  conversion?: ExchangeConversion;
+  /** Bonuses with an expiry credit the amount as a CreditLot */
+  creditExpiresAt?: Date;
+  /** EXPIRY settles its own lot instead of drawing on the wallet's lots */
+  skipCreditLots?: boolean;
+  /** A closure sweep empties the wallet, funds awaiting expiry included */
+  spendsOverdue?: boolean;
+  /** Set when the source is a user wallet: which funds the debit spends */
+  spendOrder?: SpendOrder;
+  /** Promotional part of a credit the treasury issues; none when unset */
+  issuedPromo?: string;
+  /** The destination is a user wallet and keeps the credit's promo part */
+  destTracksPromo?: boolean;
+  /** Asset whose velocity limits apply; compensations and sweeps have none */
+  limits?: AssetType;
+  /** Set when the source treasury issues new funds: whose budget applies */
+  issuance?: AssetType;
 }
 
+/**
+ * An exchange moves `amount` from the user's source wallet to that asset's
+ * treasury, and `counterAmount` from the target asset's treasury to the
+ * user's destination wallet: four wallets, four ledger entries.
+ */
+interface ExchangeConversion {
+  counterAmount: string;
+  exchangeRateId: string;
+  sourceTreasuryWalletId: string;
+  destTreasuryWalletId: string;
+}
+
+interface ExecuteTransactionParams extends TransactionRequest, ResolvedLeg {}
+
+/** What a leg moved: its promotional split and what it drew on lots */
+interface AppliedLeg extends FundsSplit {
+  lotDraws: LotDraw[];
+}
+
+/**
+ * The parties of a movement, shared by the single-operation and batch DTOs.
+ * Validation guarantees userId, or fromUserId/toUserId for transfers.
+ */
+interface OperationParties {
+  type: BatchOperationType;
+  userId?: string;
+  fromUserId?: string;
+  toUserId?: string;
+  assetTypeCode: string;
+  amount: string;
+  /** Bonuses only */
+  expiresAt?: string;
+}
+
+const REVERSIBLE_STATUSES = [
+  TransactionStatus.COMPLETED,
+  TransactionStatus.PARTIALLY_REVERSED,
+];
+
+const COMPENSATING_TYPES = [TransactionType.REFUND, TransactionType.REVERSAL];
+
+/** Largest amount a DECIMAL(18,4) column holds, in minor units */
+const MAX_AMOUNT_MINOR = 10n ** 18n - 1n;
+
+/** Postgres numeric_value_out_of_range: a balance outgrew DECIMAL(18,4) */
+const NUMERIC_OUT_OF_RANGE = '22003';
+
 @Injectable()
 export class TransactionsService {
   private readonly logger = new Logger(TransactionsService.name);
@@ -38,86 +171,419 @@ export class TransactionsService {
     private readonly dataSource: DataSource,
     @InjectRepository(Transaction)
     private readonly transactionRepo: Repository<Transaction>,
+    @InjectRepository(TransactionBatch)
+    private readonly batchRepo: Repository<TransactionBatch>,
     private readonly walletsService: WalletsService,
+    private readonly idempotencyService: IdempotencyService,
+    private readonly holdsService: HoldsService,
+    private readonly outboxService: OutboxService,
+    private readonly exchangeRatesService: ExchangeRatesService,
   ) {}
 
-  async topUp(dto: TopUpDto, idempotencyKey: string): Promise<Transaction> {
-    const treasuryWallet = await this.walletsService.findSystemWallet(
-      dto.assetTypeCode,
+  async topUp(
+    dto: TopUpDto,
+    idempotency: IdempotencyContext,
+  ): Promise<Transaction> {
+    return this.executeOperation(
+      { ...dto, type: TransactionType.TOP_UP },
+      idempotency,
     );
-    const userWallet = await this.walletsService.findUserWallet(
-      dto.userId,
-      dto.assetTypeCode,
+  }
+
+  async bonus(
+    dto: BonusDto,
+    idempotency: IdempotencyContext,
+  ): Promise<Transaction> {
+    return this.executeOperation(
+      { ...dto, type: TransactionType.BONUS },
+      idempotency,
     );
+  }
 
-    return this.executeTransaction({
-      idempotencyKey,
-      type: TransactionType.TOP_UP,
-      sourceWalletId: treasuryWallet.id,
-      destWalletId: userWallet.id,
+  async purchase(
+    dto: PurchaseDto,
+    idempotency: IdempotencyContext,
+  ): Promise<Transaction> {
+    return this.executeOperation(
+      { ...dto, type: TransactionType.PURCHASE },
+      idempotency,
+    );
+  }
+
+  async transfer(
+    dto: TransferDto,
+    idempotency: IdempotencyContext,
+  ): Promise<Transaction> {
+    return this.executeOperation(
+      { ...dto, type: TransactionType.TRANSFER },
+      idempotency,
+    );
+  }
+
+  /**
+   * Convert one asset into another for the same user at the pair's current
+   * exchange rate. Missing rates and stale quotes are recorded as FAILED
+   * like any other rejection.
+   */
+  async exchange(
+    dto: ExchangeDto,
+    idempotency: IdempotencyContext,
+  ): Promise<Transaction> {
+    const request: TransactionRequest = {
+      idempotency,
+      type: TransactionType.EXCHANGE,
       amount: dto.amount,
       referenceId: dto.referenceId,
       metadata: dto.metadata,
-      validateSourceBalance: false,
-    });
+    };
+    const leg = await this.resolveOrRecordFailure(
+      () => this.resolveExchange(dto),
+      (error) => this.recordFailure(request, error),
+    );
+
+    return this.executeTransaction({ ...request, ...leg });
   }
 
-  async bonus(dto: BonusDto, idempotencyKey: string): Promise<Transaction> {
-    const treasuryWallet = await this.walletsService.findSystemWallet(
-      dto.assetTypeCode,
+  /**
+   * Execute several operations all-or-nothing under one idempotency key.
+   * Every wallet touched by the batch is locked up front, so balances are
+   * checked against the running totals of earlier operations in the batch.
+   */
+  async batch(
+    dto: BatchDto,
+    idempotency: IdempotencyContext,
+  ): Promise<TransactionBatch> {
+    const legs = await this.resolveOrRecordFailure(
+      () =>
+        Promise.all(
+          dto.operations.map(async (op, index) => {
+            try {
+              return await this.resolveLeg(op);
+            } catch (error) {
+              throw this.atOperation(index, error);
+            }
+          }),
+        ),
+      (error) => this.recordBatchFailure(dto, idempotency, error),
     );
-    const userWallet = await this.walletsService.findUserWallet(
-      dto.userId,
-      dto.assetTypeCode,
+
+    return this.executeBatch(dto, idempotency, legs);
+  }
+
+  /**
+   * Compensate a completed transaction by moving (part of) its amount back
+   * from the original destination to the original source. Ledger entries are
+   * immutable, so a correction is always a new counter-transaction.
+   */
+  async reverse(
+    id: string,
+    dto: ReverseDto,
+    idempotency: IdempotencyContext,
+  ): Promise<Transaction> {
+    const metadata = dto.reason
+      ? { ...dto.metadata, reason: dto.reason }
+      : dto.metadata;
+    // Until the original is found, a rejection is recorded as a REVERSAL of
+    // the requested amount (zero when none was given)
+    const original = await this.resolveOrRecordFailure(
+      () => this.findById(id),
+      (error) =>
+        this.recordFailure(
+          {
+            idempotency,
+            type: TransactionType.REVERSAL,
+            amount: dto.amount ?? '0',
+            metadata,
+          },
+          error,
+        ),
     );
 
+    const amount =
+      dto.amount ??
+      fromMinor(toMinor(original.amount) - toMinor(original.reversedAmount));
+    const request = {
+      idempotency,
+      type:
+        original.type === TransactionType.PURCHASE
+          ? TransactionType.REFUND
+          : TransactionType.REVERSAL,
+      sourceWalletId: original.destinationWalletId,
+      destWalletId: original.sourceWalletId,
+      amount,
+      referenceId: original.referenceId,
+      metadata,
+      originalTransactionId: original.id,
+    };
+    await this.resolveOrRecordFailure(
+      async () => {
+        this.assertReversible(original);
+        assertPrecisionAllowed(original.sourceWallet.assetType, amount);
+        assertCanReceive(original.sourceWallet.user);
+      },
+      (error) => this.recordFailure(request, error),
+    );
+    const clawsBack = original.destinationWallet.user.role !== UserRole.SYSTEM;
+
     return this.executeTransaction({
-      idempotencyKey,
-      type: TransactionType.BONUS,
-      sourceWalletId: treasuryWallet.id,
-      destWalletId: userWallet.id,
-      amount: dto.amount,
-      metadata: dto.metadata,
-      validateSourceBalance: false,
+      ...request,
+      // Clawing back from a user requires the user to still hold the funds;
+      // the treasury may go negative as usual
+      validateSourceBalance: clawsBack,
+      ignoreFreeze: true,
+      // A top-up is clawed back from paid funds, anything else from promo
+      spendOrder: clawsBack
+        ? original.type === TransactionType.TOP_UP
+          ? 'PAID_FIRST'
+          : 'PROMO_FIRST'
+        : undefined,
+      destTracksPromo: original.sourceWallet.user.role !== UserRole.SYSTEM,
     });
   }
 
-  async purchase(
-    dto: PurchaseDto,
-    idempotencyKey: string,
+  /**
+   * Spend (part of) an ACTIVE hold as a PURCHASE. The whole hold is
+   * released in the same transaction, so any uncaptured remainder becomes
+   * available again.
+   */
+  async captureHold(
+    id: string,
+    dto: CaptureHoldDto,
+    idempotency: IdempotencyContext,
   ): Promise<Transaction> {
-    const userWallet = await this.walletsService.findUserWallet(
-      dto.userId,
-      dto.assetTypeCode,
-    );
-    const treasuryWallet = await this.walletsService.findSystemWallet(
-      dto.assetTypeCode,
+    const hold = await this.holdsService.findById(id);
+    if (hold.status !== HoldStatus.ACTIVE) {
+      throw new BadRequestException(`Hold ${id} is ${hold.status}`);
+    }
+
+    const amount = dto.amount ?? hold.amount;
+    assertPrecisionAllowed(hold.wallet.assetType, amount);
+    assertCanSpend(hold.wallet.user);
+
+    const request: TransactionRequest = {
+      idempotency,
+      type: TransactionType.PURCHASE,
+      amount,
+      referenceId: hold.referenceId,
+      metadata: { ...hold.metadata, ...dto.metadata },
+      holdId: hold.id,
+    };
+    const treasuryWallet = await this.resolveOrRecordFailure(
+      () => this.walletsService.findSystemWallet(hold.wallet.assetType.code),
+      (error) => this.recordFailure(request, error),
     );
 
     return this.executeTransaction({
-      idempotencyKey,
-      type: TransactionType.PURCHASE,
-      sourceWalletId: userWallet.id,
+      ...request,
+      sourceWalletId: hold.walletId,
       destWalletId: treasuryWallet.id,
-      amount: dto.amount,
-      referenceId: dto.referenceId,
-      metadata: dto.metadata,
       validateSourceBalance: true,
+      spendOrder: 'PROMO_FIRST',
+      limits: hold.wallet.assetType,
     });
   }
 
+  /**
+   * Empty a closing user's wallets inside the caller's transaction (see
+   * UsersService.close). Active holds always block the closure; a remaining
+   * balance does too unless `sweep` is set, in which case it moves to the
+   * treasury as a SWEEP transaction. Every wallet ends up CLOSED.
+   */
+  async settleForClosure(
+    queryRunner: QueryRunner,
+    userId: string,
+    sweep: boolean,
+  ): Promise<void> {
+    const userWallets = await this.walletsService.getWalletsByUser(userId);
+    const treasuryWallets = await Promise.all(
+      userWallets.map((wallet) =>
+        this.walletsService.findSystemWallet(wallet.assetType.code),
+      ),
+    );
+    const locked = await this.lockWalletsInOrder(queryRunner, [
+      ...userWallets.map((wallet) => wallet.id),
+      ...treasuryWallets.map((wallet) => wallet.id),
+    ]);
+
+    for (const [index, { id, assetType }] of userWallets.entries()) {
+      const wallet = locked.get(id)!;
+      if (toMinor(wallet.heldAmount) > 0n) {
+        throw new BadRequestException(
+          `Cannot close user ${userId}: ${assetType.code} wallet has active holds`,
+        );
+      }
+      if (toMinor(wallet.balance) === 0n) {
+        continue;
+      }
+      if (!sweep) {
+        throw new BadRequestException(
+          `Cannot close user ${userId}: ${assetType.code} balance is ${wallet.balance}`,
+        );
+      }
+
+      const treasuryWallet = locked.get(treasuryWallets[index].id)!;
+      const amount = wallet.balance;
+      // Closures are not client requests, so the key only tags the sweep
+      const transaction = await queryRunner.manager.save(
+        queryRunner.manager.create(Transaction, {
+          idempotencyKey: `close:${userId}`,
+          type: TransactionType.SWEEP,
+          status: TransactionStatus.COMPLETED,
+          sourceWalletId: wallet.id,
+          destinationWalletId: treasuryWallet.id,
+          amount,
+          metadata: { reason: 'account closure' },
+        }),
+      );
+      const split = await this.applyLeg(
+        queryRunner,
+        transaction.id,
+        amount,
+        wallet,
+        treasuryWallet,
+        {
+          sourceWalletId: wallet.id,
+          destWalletId: treasuryWallet.id,
+          validateSourceBalance: true,
+          ignoreFreeze: true,
+          spendsOverdue: true,
+          spendOrder: 'PROMO_FIRST',
+        },
+      );
+      await this.recordSplit(queryRunner, transaction, split);
+      await this.outboxService.transactionCompleted(
+        queryRunner.manager,
+        transaction,
+      );
+    }
+
+    // Closed wallets reject transactions already in flight for this user
+    for (const { id } of userWallets) {
+      const wallet = locked.get(id)!;
+      await queryRunner.manager.update(Wallet, id, {
+        status: WalletStatus.CLOSED,
+        statusReason: 'account closure',
+      });
+      await queryRunner.manager.save(
+        queryRunner.manager.create(WalletStatusChange, {
+          walletId: id,
+          fromStatus: wallet.status,
+          toStatus: WalletStatus.CLOSED,
+          reason: 'account closure',
+        }),
+      );
+    }
+  }
+
+  /**
+   * Debit what is left of an overdue credit lot back to the treasury as an
+   * EXPIRY transaction (see CreditLotsService.expireDue). Funds reserved by
+   * active holds stay with the wallet, and in the lot until a later sweep
+   * finds them released. Returns null when nothing could be expired.
+   */
+  async expireCreditLot(lotId: string): Promise<Transaction | null> {
+    const lot = await this.dataSource.getRepository(CreditLot).findOne({
+      where: { id: lotId },
+      relations: ['wallet', 'wallet.assetType'],
+    });
+    if (!lot) {
+      throw new NotFoundException(`Credit lot ${lotId} not found`);
+    }
+    const treasuryWallet = await this.walletsService.findSystemWallet(
+      lot.wallet.assetType.code,
+    );
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('READ COMMITTED');
+
+    try {
+      const locked = await this.lockWalletsInOrder(queryRunner, [
+        lot.walletId,
+        treasuryWallet.id,
+      ]);
+      const wallet = locked.get(lot.walletId)!;
+      // Re-read under the wallet lock: a debit may have drawn on it since
+      const current = await queryRunner.manager.findOneByOrFail(CreditLot, {
+        id: lotId,
+      });
+      if (current.expiredAt || current.expiresAt > new Date()) {
+        await queryRunner.commitTransaction();
+        return null;
+      }
+
+      const available =
+        toMinor(wallet.balance) - toMinor(wallet.heldAmount ?? 0);
+      const remaining = toMinor(current.remainingAmount);
+      let expiredMinor = remaining;
+      if (available < expiredMinor) {
+        expiredMinor = available > 0n ? available : 0n;
+      }
+
+      let transaction: Transaction | null = null;
+      if (expiredMinor > 0n) {
+        const amount = fromMinor(expiredMinor);
+        // Expiries are not client requests, so the key only tags the lot
+        transaction = await queryRunner.manager.save(
+          queryRunner.manager.create(Transaction, {
+            idempotencyKey: `expiry:${lotId}`,
+            type: TransactionType.EXPIRY,
+            status: TransactionStatus.COMPLETED,
+            sourceWalletId: wallet.id,
+            destinationWalletId: treasuryWallet.id,
+            amount,
+            metadata: { creditLotId: lotId },
+          }),
+        );
+        const split = await this.applyLeg(
+          queryRunner,
+          transaction.id,
+          amount,
+          wallet,
+          locked.get(treasuryWallet.id)!,
+          {
+            sourceWalletId: wallet.id,
+            destWalletId: treasuryWallet.id,
+            validateSourceBalance: false,
+            ignoreFreeze: true,
+            skipCreditLots: true,
+            spendOrder: 'PROMO_FIRST',
+          },
+        );
+        await this.recordSplit(queryRunner, transaction, split);
+        await this.outboxService.transactionCompleted(
+          queryRunner.manager,
+          transaction,
+        );
+      }
+
+      // A lot is only closed once nothing is left in it
+      const left = remaining - expiredMinor;
+      await queryRunner.manager.update(CreditLot, lotId, {
+        remainingAmount: fromMinor(left),
+        expiredAmount: fromMinor(
+          toMinor(current.expiredAmount ?? 0) + expiredMinor,
+        ),
+        expiredAt: left > 0n ? null : new Date(),
+        expiryTransactionId: transaction?.id ?? current.expiryTransactionId,
+      });
+
+      await queryRunner.commitTransaction();
+      return transaction ? this.findById(transaction.id) : null;
+    } catch (error) {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
   async findById(id: string): Promise<Transaction> {
     const transaction = await this.transactionRepo.findOne({
       where: { id },
-      relations: [
-        'ledgerEntries',
-        'sourceWallet',
-        'sourceWallet.assetType',
-        'sourceWallet.user',
-        'destinationWallet',
-        'destinationWallet.assetType',
-        'destinationWallet.user',
-      ],
+      relations: TRANSACTION_RELATIONS,
     });
     if (!transaction) {
       throw new NotFoundException(`Transaction ${id} not found`);
@@ -125,68 +591,129 @@ export class TransactionsService {
     return transaction;
   }
 
+  async findBatchById(id: string): Promise<TransactionBatch> {
+    const batch = await this.batchRepo.findOne({
+      where: { id },
+      relations: ['transactions', 'transactions.ledgerEntries'],
+      order: { transactions: { batchIndex: 'ASC' } },
+    });
+    if (!batch) {
+      throw new NotFoundException(`Batch ${id} not found`);
+    }
+    return batch;
+  }
+
+  /**
+   * Newest first, paged by a keyset cursor on (createdAt, id), so pages
+   * stay stable while rows are added and deep pages cost the same as the
+   * first. Matching ids are found first, then loaded with their relations.
+   */
   async findAll(
-    userId?: string,
-    type?: TransactionType,
-    page: number = 1,
-    limit: number = 20,
-  ): Promise<{ transactions: Transaction[]; total: number }> {
+    query: ListTransactionsQueryDto,
+  ): Promise<{ transactions: Transaction[]; nextCursor: string | null }> {
     const qb = this.transactionRepo
       .createQueryBuilder('txn')
-      .leftJoinAndSelect('txn.ledgerEntries', 'entry')
-      .leftJoinAndSelect('txn.sourceWallet', 'sw')
-      .leftJoinAndSelect('sw.assetType', 'swAt')
-      .leftJoinAndSelect('sw.user', 'swUser')
-      .leftJoinAndSelect('txn.destinationWallet', 'dw')
-      .leftJoinAndSelect('dw.assetType', 'dwAt')
-      .leftJoinAndSelect('dw.user', 'dwUser')
+      .select('txn.id', 'id')
+      .addSelect('CAST(txn.createdAt AS text)', 'createdAt')
       .orderBy('txn.createdAt', 'DESC')
-      .skip((page - 1) * limit)
-      .take(limit);
+      .addOrderBy('txn.id', 'DESC')
+      .limit(query.limit + 1);
 
-    if (userId) {
+    if (query.userId || query.assetTypeCode) {
+      qb.leftJoin('txn.sourceWallet', 'sw')
+        .leftJoin('txn.destinationWallet', 'dw');
+    }
+    if (query.userId) {
       qb.andWhere('(sw.user_id = :userId OR dw.user_id = :userId)', {
-        userId,
+        userId: query.userId,
       });
     }
-
-    if (type) {
-      qb.andWhere('txn.type = :type', { type });
+    if (query.assetTypeCode) {
+      qb.leftJoin('sw.assetType', 'swAt')
+        .leftJoin('dw.assetType', 'dwAt')
+        .andWhere(
+          '(swAt.code = :assetTypeCode OR dwAt.code = :assetTypeCode)',
+          { assetTypeCode: query.assetTypeCode },
+        );
     }
-
-    const [transactions, total] = await qb.getManyAndCount();
-    return { transactions, total };
-  }
-
-  async findByIdempotencyKey(idempotencyKey: string): Promise<Transaction> {
-    const transaction = await this.transactionRepo.findOne({
-      where: { idempotencyKey },
-      relations: [
-        'ledgerEntries',
-        'sourceWallet',
-        'sourceWallet.assetType',
-        'sourceWallet.user',
-        'destinationWallet',
-        'destinationWallet.assetType',
-        'destinationWallet.user',
-      ],
+    if (query.type) {
+      qb.andWhere('txn.type = :type', { type: query.type });
+    }
+    if (query.status) {
+      qb.andWhere('txn.status = :status', { status: query.status });
+    }
+    if (query.minAmount) {
+      qb.andWhere('txn.amount >= :minAmount', { minAmount: query.minAmount });
+    }
+    if (query.maxAmount) {
+      qb.andWhere('txn.amount <= :maxAmount', { maxAmount: query.maxAmount });
+    }
+    if (query.from) {
+      qb.andWhere('txn.createdAt >= :from', { from: query.from });
+    }
+    if (query.to) {
+      qb.andWhere('txn.createdAt < :to', { to: query.to });
+    }
+    if (query.referenceId) {
+      qb.andWhere('txn.referenceId = :referenceId', {
+        referenceId: query.referenceId,
+      });
+    }
+    Object.entries(query.metadata ?? {}).forEach(([key, value], i) => {
+      if (typeof value !== 'string') {
+        throw new BadRequestException(
+          `metadata.${key} must be a single value`,
+        );
+      }
+      qb.andWhere(`txn.metadata ->> :metadataKey${i} = :metadataValue${i}`, {
+        [`metadataKey${i}`]: key,
+        [`metadataValue${i}`]: value,
+      });
     });
-    if (!transaction) {
-      throw new NotFoundException('Transaction not found');
+    if (query.cursor) {
+      const [createdAt, id] = decodeCursor(query.cursor, 2);
+      if (!isISO8601(createdAt, { strict: true }) || !isUUID(id)) {
+        throw new BadRequestException('Invalid cursor');
+      }
+      qb.andWhere(
+        '(txn.createdAt, txn.id) < (CAST(:createdAt AS timestamptz), :id)',
+        { createdAt, id },
+      );
     }
-    return transaction;
+
+    const rows = await qb.getRawMany<{ id: string; createdAt: string }>();
+    const page = rows.slice(0, query.limit);
+    const transactions = page.length
+      ? await this.transactionRepo.find({
+          where: { id: In(page.map((row) => row.id)) },
+          relations: TRANSACTION_RELATIONS,
+          order: { createdAt: 'DESC', id: 'DESC' },
+        })
+      : [];
+    const last = page[page.length - 1];
+    return {
+      transactions,
+      nextCursor:
+        rows.length > query.limit
+          ? encodeCursor([last.createdAt, last.id])
+          : null,
+    };
   }
 
   /**
    * Core transaction execution engine.
    *
-   * 1. INSERT transaction with PENDING status
-   * 2. Lock both wallets with SELECT FOR UPDATE (ordered by ID to prevent deadlocks)
-   * 3. Validate source balance if required (user purchases)
-   * 4. Update wallet balances
-   * 5. Create debit + credit ledger entries (double-entry bookkeeping)
-   * 6. Mark transaction COMPLETED
-   * 7. COMMIT
+   * 1. INSERT transaction with PENDING status and claim its idempotency key
+   * 2. For reversals, lock the original transaction and record the reversed amount
+   *    For captures, lock the hold and release its held amount after step 3
+   * 3. Lock both wallets with SELECT FOR UPDATE (ordered by ID to prevent deadlocks),
+   *    then check the asset's velocity limits
+   * 4. Check wallet statuses; validate source balance if required (user purchases and transfers)
+   * 5. Update wallet balances
+   * 6. Create debit + credit ledger entries (double-entry bookkeeping) and
+   *    queue wallet.balance_changed outbox events
+   * 7. Mark transaction COMPLETED and queue transaction.completed
+   * 8. COMMIT
    */
   private async executeTransaction(
     params: ExecuteTransactionParams,
@@ -198,7 +725,8 @@ export class TransactionsService {
     try {
       // 1. Create transaction record with PENDING status
       const transaction = queryRunner.manager.create(Transaction, {
-        idempotencyKey: params.idempotencyKey,
+        idempotencyKey: params.idempotency.key,
+        apiClientId: params.idempotency.clientId,
         type: params.type,
         status: TransactionStatus.PENDING,
         sourceWalletId: params.sourceWalletId,
@@ -206,132 +734,939 @@ export class TransactionsService {
         amount: params.amount,
         referenceId: params.referenceId,
         metadata: params.metadata || {},
+        originalTransactionId: params.originalTransactionId,
+        holdId: params.holdId,
+        counterAmount: params.conversion?.counterAmount,
+        exchangeRateId: params.conversion?.exchangeRateId,
       });
 
-      let savedTransaction: Transaction;
+      const savedTransaction = await queryRunner.manager.save(transaction);
+
       try {
-        savedTransaction = await queryRunner.manager.save(transaction);
+        await this.idempotencyService.claim(
+          queryRunner.manager,
+          params.idempotency,
+          { transactionId: savedTransaction.id },
+        );
       } catch (error: any) {
-        // UNIQUE constraint violation on idempotency_key — race condition
+        // UNIQUE (client, route, key) violation — a concurrent request won the race
         if (error.code === '23505') {
           await queryRunner.rollbackTransaction();
-          return this.findByIdempotencyKey(params.idempotencyKey);
+          return this.idempotencyService.replayExisting(params.idempotency);
         }
         throw error;
       }
 
-      // 2. Lock wallets in deterministic order (ascending UUID) to prevent deadlocks
-      const [sourceWallet, destWallet] = await this.lockWalletsInOrder(
-        queryRunner,
-        params.sourceWalletId,
-        params.destWalletId,
-      );
-
-      // 3. Validate source balance if required (user spending)
-      if (params.validateSourceBalance) {
-        const sourceBalance = Number(sourceWallet.balance);
-        if (sourceBalance < params.amount) {
-          // Rollback so the idempotency key is not consumed — client can retry
-          await queryRunner.rollbackTransaction();
-          throw new BadRequestException(
-            `Insufficient balance. Available: ${sourceBalance}, Required: ${params.amount}`,
-          );
+      // 2. Reversals: lock the original so concurrent partial refunds serialize
+      let leg: ResolvedLeg = params;
+      if (params.originalTransactionId) {
+        const original = await this.applyReversal(
+          queryRunner,
+          params.originalTransactionId,
+          params.amount,
+        );
+        // Compensations paid by the treasury restore paid funds first
+        if (!params.spendOrder) {
+          leg = {
+            ...params,
+            issuedPromo: fromMinor(
+              restoredPromo(
+                toMinor(params.amount),
+                toMinor(original.paidAmount ?? original.amount),
+                toMinor(original.reversedAmount),
+              ),
+            ),
+          };
         }
       }
 
-      // 4. Calculate new balances
-      const newSourceBalance = Number(sourceWallet.balance) - params.amount;
-      const newDestBalance = Number(destWallet.balance) + params.amount;
+      // Captures: lock the hold so it can only be spent once
+      const hold = params.holdId
+        ? await this.holdsService.lockForCapture(
+            queryRunner,
+            params.holdId,
+            params.amount,
+          )
+        : undefined;
 
-      // 5. Update wallet balances
-      await queryRunner.manager.update(Wallet, sourceWallet.id, {
-        balance: newSourceBalance,
-      });
-      await queryRunner.manager.update(Wallet, destWallet.id, {
-        balance: newDestBalance,
-      });
+      // 3. Lock wallets in deterministic order (ascending UUID) to prevent deadlocks
+      const { conversion } = params;
+      const wallets = await this.lockWalletsInOrder(queryRunner, [
+        params.sourceWalletId,
+        params.destWalletId,
+        ...(conversion
+          ? [conversion.sourceTreasuryWalletId, conversion.destTreasuryWalletId]
+          : []),
+      ]);
 
-      // 6. Create ledger entries (double-entry bookkeeping)
-      const debitEntry = queryRunner.manager.create(LedgerEntry, {
-        transactionId: savedTransaction.id,
-        walletId: sourceWallet.id,
-        entryType: EntryType.DEBIT,
-        amount: params.amount,
-        balanceAfter: newSourceBalance,
-      });
+      // Velocity limits count what the locked wallets already posted
+      await this.assertWithinLimits(
+        queryRunner,
+        params.type,
+        params.amount,
+        params,
+      );
 
-      const creditEntry = queryRunner.manager.create(LedgerEntry, {
-        transactionId: savedTransaction.id,
-        walletId: destWallet.id,
-        entryType: EntryType.CREDIT,
-        amount: params.amount,
-        balanceAfter: newDestBalance,
-      });
+      // Release the whole hold before spending from it
+      if (hold) {
+        await this.holdsService.adjustHeld(
+          queryRunner,
+          wallets.get(params.sourceWalletId)!,
+          -toMinor(hold.amount),
+        );
+      }
 
-      await queryRunner.manager.save(LedgerEntry, [debitEntry, creditEntry]);
+      // 4–7. Validate, move the funds and write the ledger entries
+      let split: AppliedLeg;
+      if (conversion) {
+        // Exchanges settle through the treasury of each asset; the proceeds
+        // are promotional in proportion to the funds spent
+        split = await this.applyLeg(
+          queryRunner,
+          savedTransaction.id,
+          params.amount,
+          wallets.get(params.sourceWalletId)!,
+          wallets.get(conversion.sourceTreasuryWalletId)!,
+          {
+            ...params,
+            maxDestBalance: null,
+            destTracksPromo: false,
+            issuance: undefined,
+          },
+        );
+        await this.applyLeg(
+          queryRunner,
+          savedTransaction.id,
+          conversion.counterAmount,
+          wallets.get(conversion.destTreasuryWalletId)!,
+          wallets.get(params.destWalletId)!,
+          {
+            ...params,
+            validateSourceBalance: false,
+            spendOrder: undefined,
+            issuedPromo: fromMinor(
+              promoShare(toMinor(conversion.counterAmount), split),
+            ),
+          },
+        );
+        // Expiring funds keep their expiry in the target asset
+        const counterMinor = toMinor(conversion.counterAmount);
+        const amountMinor = toMinor(params.amount);
+        await carryLots(
+          queryRunner.manager,
+          split.lotDraws,
+          params.destWalletId,
+          savedTransaction.id,
+          (drawn) => (drawn * counterMinor) / amountMinor,
+        );
+      } else {
+        split = await this.applyLeg(
+          queryRunner,
+          savedTransaction.id,
+          params.amount,
+          wallets.get(params.sourceWalletId)!,
+          wallets.get(params.destWalletId)!,
+          leg,
+        );
+      }
 
-      // 7. Mark transaction as COMPLETED
+      // 8. Mark transaction as COMPLETED
+      savedTransaction.promoAmount = fromMinor(split.promo);
+      savedTransaction.paidAmount = fromMinor(split.paid);
       savedTransaction.status = TransactionStatus.COMPLETED;
       await queryRunner.manager.save(savedTransaction);
+      await this.outboxService.transactionCompleted(
+        queryRunner.manager,
+        savedTransaction,
+      );
 
-      // 8. COMMIT
+      // 9. COMMIT
       await queryRunner.commitTransaction();
 
       // Return fully loaded transaction
       return this.findById(savedTransaction.id);
-    } catch (error) {
+    } catch (caught) {
       this.logger.error(
-        `Transaction failed [key=${params.idempotencyKey}, type=${params.type}]: ${error instanceof Error ? error.message : error}`,
+        `Transaction failed [key=${params.idempotency.key}, type=${params.type}]: ${describeError(caught)}`,
       );
+      const error = this.asBusinessFailure(caught);
       if (queryRunner.isTransactionActive) {
         await queryRunner.rollbackTransaction();
       }
+      if (this.isBusinessFailure(error)) {
+        await this.recordFailure(params, error);
+      }
       throw error;
     } finally {
       await queryRunner.release();
     }
   }
 
+  /**
+   * Batch counterpart of executeTransaction: one PENDING batch row claims the
+   * key, every wallet is locked in a single ordered pass, and each operation
+   * becomes its own transaction with its own ledger entries. Any failure
+   * rolls back the whole batch.
+   */
+  private async executeBatch(
+    dto: BatchDto,
+    idempotency: IdempotencyContext,
+    legs: ResolvedLeg[],
+  ): Promise<TransactionBatch> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('READ COMMITTED');
+
+    try {
+      const batch = await queryRunner.manager.save(
+        queryRunner.manager.create(TransactionBatch, {
+          idempotencyKey: idempotency.key,
+          apiClientId: idempotency.clientId,
+          status: TransactionStatus.PENDING,
+          metadata: dto.metadata || {},
+        }),
+      );
+
+      try {
+        await this.idempotencyService.claim(queryRunner.manager, idempotency, {
+          batchId: batch.id,
+        });
+      } catch (error: any) {
+        if (error.code === '23505') {
+          await queryRunner.rollbackTransaction();
+          return this.idempotencyService.replayExisting<TransactionBatch>(
+            idempotency,
+          );
+        }
+        throw error;
+      }
+
+      const wallets = await this.lockWalletsInOrder(
+        queryRunner,
+        legs.flatMap((leg) => [leg.sourceWalletId, leg.destWalletId]),
+      );
+
+      for (const [index, leg] of legs.entries()) {
+        const op = dto.operations[index];
+        // Checked before the member is written, so it does not count itself
+        try {
+          await this.assertWithinLimits(queryRunner, op.type, op.amount, leg);
+        } catch (error) {
+          throw this.atOperation(index, error);
+        }
+        // Members are only visible once the batch commits, so they are
+        // written as COMPLETED directly
+        const transaction = await queryRunner.manager.save(
+          queryRunner.manager.create(Transaction, {
+            idempotencyKey: idempotency.key,
+            apiClientId: idempotency.clientId,
+            batchId: batch.id,
+            batchIndex: index,
+            type: op.type,
+            status: TransactionStatus.COMPLETED,
+            sourceWalletId: leg.sourceWalletId,
+            destinationWalletId: leg.destWalletId,
+            amount: op.amount,
+            referenceId: op.referenceId,
+            metadata: op.metadata || {},
+          }),
+        );
+
+        try {
+          const split = await this.applyLeg(
+            queryRunner,
+            transaction.id,
+            op.amount,
+            wallets.get(leg.sourceWalletId)!,
+            wallets.get(leg.destWalletId)!,
+            leg,
+          );
+          await this.recordSplit(queryRunner, transaction, split);
+        } catch (error) {
+          throw this.atOperation(index, error);
+        }
+        await this.outboxService.transactionCompleted(
+          queryRunner.manager,
+          transaction,
+        );
+      }
+
+      batch.status = TransactionStatus.COMPLETED;
+      await queryRunner.manager.save(batch);
+
+      await queryRunner.commitTransaction();
+
+      return this.findBatchById(batch.id);
+    } catch (caught) {
+      this.logger.error(
+        `Batch failed [key=${idempotency.key}]: ${describeError(caught)}`,
+      );
+      const error = this.asBusinessFailure(caught);
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      if (this.isBusinessFailure(error)) {
+        await this.recordBatchFailure(dto, idempotency, error);
+      }
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Resolve and execute a single operation, recording lookup failures
+   * (unknown wallet, self-transfer) as FAILED transactions.
+   */
+  private async executeOperation(
+    op: OperationParties & {
+      referenceId?: string;
+      metadata?: Record<string, any>;
+    },
+    idempotency: IdempotencyContext,
+  ): Promise<Transaction> {
+    const request: TransactionRequest = {
+      idempotency,
+      type: op.type,
+      amount: op.amount,
+      referenceId: op.referenceId,
+      metadata: op.metadata,
+    };
+    const leg = await this.resolveOrRecordFailure(
+      () => this.resolveLeg(op),
+      (error) => this.recordFailure(request, error),
+    );
+
+    return this.executeTransaction({ ...request, ...leg });
+  }
+
+  /**
+   * Map an operation to its wallets: top-ups and bonuses flow from the
+   * treasury to the user, purchases from the user to the treasury and
+   * transfers between two users. Only user spending is balance-checked,
+   * and only credits to users are capped. The amount must fit the asset's
+   * precision and per-transaction limits, and the user must be allowed to
+   * spend or receive (see users/user-status.ts).
+   */
+  private async resolveLeg(op: OperationParties): Promise<ResolvedLeg> {
+    switch (op.type) {
+      case TransactionType.TOP_UP:
+      case TransactionType.BONUS: {
+        const creditExpiresAt = op.expiresAt
+          ? new Date(op.expiresAt)
+          : undefined;
+        if (creditExpiresAt && creditExpiresAt <= new Date()) {
+          throw new BadRequestException('expiresAt must be in the future');
+        }
+        const [treasuryWallet, userWallet] = await Promise.all([
+          this.walletsService.findSystemWallet(op.assetTypeCode),
+          this.walletsService.findOrCreateUserWallet(
+            op.userId!,
+            op.assetTypeCode,
+          ),
+        ]);
+        assertAmountAllowed(userWallet.assetType, op.amount);
+        assertCanReceive(userWallet.user);
+        return {
+          sourceWalletId: treasuryWallet.id,
+          destWalletId: userWallet.id,
+          validateSourceBalance: false,
+          maxDestBalance: userWallet.assetType.maxBalance,
+          creditExpiresAt,
+          issuedPromo:
+            op.type === TransactionType.BONUS ? op.amount : undefined,
+          destTracksPromo: true,
+          limits: userWallet.assetType,
+          issuance: userWallet.assetType,
+        };
+      }
+      case TransactionType.PURCHASE: {
+        const [userWallet, treasuryWallet] = await Promise.all([
+          this.walletsService.findUserWallet(op.userId!, op.assetTypeCode),
+          this.walletsService.findSystemWallet(op.assetTypeCode),
+        ]);
+        assertAmountAllowed(userWallet.assetType, op.amount);
+        assertCanSpend(userWallet.user);
+        return {
+          sourceWalletId: userWallet.id,
+          destWalletId: treasuryWallet.id,
+          validateSourceBalance: true,
+          spendOrder: 'PROMO_FIRST',
+          limits: userWallet.assetType,
+        };
+      }
+      case TransactionType.TRANSFER: {
+        if (op.fromUserId === op.toUserId) {
+          throw new BadRequestException('Cannot transfer to the same user');
+        }
+        const [sourceWallet, destWallet] = await Promise.all([
+          this.walletsService.findUserWallet(op.fromUserId!, op.assetTypeCode),
+          this.walletsService.findOrCreateUserWallet(
+            op.toUserId!,
+            op.assetTypeCode,
+          ),
+        ]);
+        assertAmountAllowed(destWallet.assetType, op.amount);
+        assertCanSpend(sourceWallet.user);
+        assertCanReceive(destWallet.user);
+        return {
+          sourceWalletId: sourceWallet.id,
+          destWalletId: destWallet.id,
+          validateSourceBalance: true,
+          maxDestBalance: destWallet.assetType.maxBalance,
+          spendOrder: 'PROMO_FIRST',
+          destTracksPromo: true,
+          limits: sourceWallet.assetType,
+        };
+      }
+    }
+  }
+
+  /**
+   * Map an exchange to the user's two wallets and both treasuries, and price
+   * it: the converted amount is rounded down to the target asset's
+   * precision and must itself be a valid amount of that asset.
+   */
+  private async resolveExchange(dto: ExchangeDto): Promise<ResolvedLeg> {
+    if (dto.fromAssetTypeCode === dto.toAssetTypeCode) {
+      throw new BadRequestException('Cannot exchange an asset for itself');
+    }
+    const [sourceWallet, sourceTreasury, destTreasury, rate] =
+      await Promise.all([
+        this.walletsService.findUserWallet(dto.userId, dto.fromAssetTypeCode),
+        this.walletsService.findSystemWallet(dto.fromAssetTypeCode),
+        this.walletsService.findSystemWallet(dto.toAssetTypeCode),
+        this.exchangeRatesService.findCurrent(
+          dto.fromAssetTypeCode,
+          dto.toAssetTypeCode,
+        ),
+      ]);
+    if (dto.rateVersion !== undefined && dto.rateVersion !== rate.version) {
+      throw new BadRequestException(
+        `Exchange rate from ${dto.fromAssetTypeCode} to ${dto.toAssetTypeCode} is at version ${rate.version}, not ${dto.rateVersion}`,
+      );
+    }
+    assertAmountAllowed(sourceWallet.assetType, dto.amount);
+    assertCanSpend(sourceWallet.user);
+
+    const destWallet = await this.walletsService.findOrCreateUserWallet(
+      dto.userId,
+      dto.toAssetTypeCode,
+    );
+    const counterAmount = convertAmount(
+      dto.amount,
+      rate.rate,
+      rate.spreadBps,
+      destWallet.assetType.decimalPlaces,
+    );
+    if (toMinor(counterAmount) === 0n) {
+      throw new BadRequestException(
+        `Amount is too small to exchange into ${dto.toAssetTypeCode}`,
+      );
+    }
+    if (toMinor(counterAmount) > MAX_AMOUNT_MINOR) {
+      throw new BadRequestException(
+        `Amount is too large to exchange into ${dto.toAssetTypeCode}`,
+      );
+    }
+    assertAmountAllowed(destWallet.assetType, counterAmount);
+
+    return {
+      sourceWalletId: sourceWallet.id,
+      destWalletId: destWallet.id,
+      validateSourceBalance: true,
+      maxDestBalance: destWallet.assetType.maxBalance,
+      spendOrder: 'PROMO_FIRST',
+      destTracksPromo: true,
+      limits: sourceWallet.assetType,
+      issuance: destWallet.assetType,
+      conversion: {
+        counterAmount,
+        exchangeRateId: rate.id,
+        sourceTreasuryWalletId: sourceTreasury.id,
+        destTreasuryWalletId: destTreasury.id,
+      },
+    };
+  }
+
+  /**
+   * Move `amount` between two locked wallets and write the double-entry
+   * ledger rows. The in-memory balances are updated too, so later legs of
+   * a batch see the effect of earlier ones. The debit draws on the source
+   * wallet's credit lots (see credit-lots.ts), and an expiring credit opens
+   * a new lot on the destination; so does a debit between users that drew
+   * on lots. Returns how much of the amount was promotional (see
+   * promo-funds.ts) and the lots it drew on.
+   */
+  private async applyLeg(
+    queryRunner: QueryRunner,
+    transactionId: string,
+    amount: string,
+    sourceWallet: Wallet,
+    destWallet: Wallet,
+    {
+      validateSourceBalance,
+      maxDestBalance,
+      ignoreFreeze,
+      creditExpiresAt,
+      skipCreditLots,
+      spendsOverdue,
+      spendOrder,
+      issuedPromo,
+      destTracksPromo,
+      issuance,
+    }: ResolvedLeg,
+  ): Promise<AppliedLeg> {
+    // Statuses are read under the lock, so a freeze also stops transactions
+    // already in flight
+    assertCanDebit(sourceWallet, ignoreFreeze);
+    assertCanCredit(destWallet, ignoreFreeze);
+
+    const amountMinor = toMinor(amount);
+    const sourceBalance = toMinor(sourceWallet.balance);
+    const now = new Date();
+    const lots = skipCreditLots
+      ? []
+      : await findOpenLots(queryRunner.manager, sourceWallet.id);
+    const overdue = overdueAmount(lots, now);
+
+    // Validate the available balance (net of holds and, unless the wallet
+    // is being emptied, of lots awaiting expiry) if required (user
+    // spending); the rejection is recorded as FAILED after the caller
+    // rolls back
+    if (validateSourceBalance) {
+      const available =
+        sourceBalance -
+        toMinor(sourceWallet.heldAmount ?? 0) -
+        (spendsOverdue ? 0n : overdue);
+      if (available < amountMinor) {
+        throw new BadRequestException(
+          `Insufficient balance. Available: ${fromMinor(available)}, Required: ${normalizeAmount(amount)}`,
+        );
+      }
+    }
+
+    const destBalance = toMinor(destWallet.balance) + amountMinor;
+    assertWithinMaxBalance(maxDestBalance, destBalance);
+    if (issuance) {
+      await this.checkIssuanceBudget(
+        queryRunner,
+        transactionId,
+        sourceWallet,
+        issuance,
+        amountMinor,
+      );
+    }
+
+    const previousDestBalance = destWallet.balance;
+    const newSourceBalance = fromMinor(sourceBalance - amountMinor);
+    const newDestBalance = fromMinor(destBalance);
+
+    // User debits decide the split from the wallet's funds; treasury
+    // credits are promotional only as far as the caller says
+    const sourcePromo = toMinor(sourceWallet.promoBalance ?? 0);
+    const issued = toMinor(issuedPromo ?? 0);
+    const split = spendOrder
+      ? splitDebit(sourceBalance, sourcePromo, overdue, amountMinor, spendOrder)
+      : { promo: issued, paid: amountMinor - issued };
+
+    const sourceChanges: Partial<Wallet> = { balance: newSourceBalance };
+    const destChanges: Partial<Wallet> = { balance: newDestBalance };
+    if (spendOrder && split.promo > 0n) {
+      sourceChanges.promoBalance = fromMinor(sourcePromo - split.promo);
+    }
+    if (destTracksPromo && split.promo > 0n) {
+      destChanges.promoBalance = fromMinor(
+        toMinor(destWallet.promoBalance ?? 0) + split.promo,
+      );
+    }
+    await queryRunner.manager.update(Wallet, sourceWallet.id, sourceChanges);
+    await queryRunner.manager.update(Wallet, destWallet.id, destChanges);
+    Object.assign(sourceWallet, sourceChanges);
+    Object.assign(destWallet, destChanges);
+
+    const lotDraws = await drawOnLots(
+      queryRunner.manager,
+      lots,
+      sourcePromo,
+      split.promo,
+      now,
+    );
+    if (spendOrder && destTracksPromo) {
+      await carryLots(
+        queryRunner.manager,
+        lotDraws,
+        destWallet.id,
+        transactionId,
+      );
+    }
+    if (creditExpiresAt) {
+      await queryRunner.manager.save(
+        queryRunner.manager.create(CreditLot, {
+          walletId: destWallet.id,
+          transactionId,
+          amount,
+          remainingAmount: amount,
+          expiresAt: creditExpiresAt,
+        }),
+      );
+    }
+
+    const debitEntry = queryRunner.manager.create(LedgerEntry, {
+      transactionId,
+      walletId: sourceWallet.id,
+      entryType: EntryType.DEBIT,
+      amount,
+      balanceAfter: newSourceBalance,
+    });
+
+    const creditEntry = queryRunner.manager.create(LedgerEntry, {
+      transactionId,
+      walletId: destWallet.id,
+      entryType: EntryType.CREDIT,
+      amount,
+      balanceAfter: newDestBalance,
+    });
+
+    await chainLedgerEntries(queryRunner.manager, [debitEntry, creditEntry]);
+    await queryRunner.manager.save(LedgerEntry, [debitEntry, creditEntry]);
+
+    await this.outboxService.balanceChanged(
+      queryRunner.manager,
+      sourceWallet,
+      fromMinor(sourceBalance),
+      transactionId,
+    );
+    await this.outboxService.balanceChanged(
+      queryRunner.manager,
+      destWallet,
+      previousDestBalance,
+      transactionId,
+    );
+    return { ...split, lotDraws };
+  }
+
+  /**
+   * Reject treasury issuance that would take circulating supply past the
+   * asset's budget, and raise an alert (log and webhook) when it crosses
+   * the alert threshold. The treasury must already be locked.
+   */
+  private async checkIssuanceBudget(
+    queryRunner: QueryRunner,
+    transactionId: string,
+    treasury: Wallet,
+    assetType: AssetType,
+    amount: bigint,
+  ): Promise<void> {
+    if (assetType.issuanceBudget == null) {
+      return;
+    }
+    const circulating = await circulatingSupply(queryRunner.manager, treasury);
+    const after = circulating + amount;
+    if (after > toMinor(assetType.issuanceBudget)) {
+      throw new BadRequestException(
+        `Issuance budget exceeded for ${assetType.code}. Budget: ${normalizeAmount(assetType.issuanceBudget)}, Circulating: ${fromMinor(circulating)}, Requested: ${fromMinor(amount)}`,
+      );
+    }
+    const threshold = alertThreshold(assetType);
+    if (threshold !== null && circulating < threshold && after >= threshold) {
+      this.logger.warn(
+        `Issuance of ${assetType.code} reached ${assetType.issuanceAlertPercent}% of its budget: ${fromMinor(after)} of ${normalizeAmount(assetType.issuanceBudget)} in circulation`,
+      );
+      await this.outboxService.issuanceBudgetAlert(
+        queryRunner.manager,
+        treasury,
+        assetType,
+        fromMinor(after),
+        transactionId,
+      );
+    }
+  }
+
+  /** Store a posted transaction's promotional/paid split */
+  private async recordSplit(
+    queryRunner: QueryRunner,
+    transaction: Transaction,
+    split: FundsSplit,
+  ): Promise<void> {
+    transaction.promoAmount = fromMinor(split.promo);
+    transaction.paidAmount = fromMinor(split.paid);
+    await queryRunner.manager.update(Transaction, transaction.id, {
+      promoAmount: transaction.promoAmount,
+      paidAmount: transaction.paidAmount,
+    });
+  }
+
+  /**
+   * Run the pre-execution lookups for a request (wallets, self-transfer
+   * checks). Business failures are recorded as FAILED before rethrowing.
+   */
+  private async resolveOrRecordFailure<T>(
+    resolve: () => Promise<T>,
+    record: (error: HttpException) => Promise<void>,
+  ): Promise<T> {
+    try {
+      return await resolve();
+    } catch (error) {
+      if (this.isBusinessFailure(error)) {
+        await record(error);
+      }
+      throw error;
+    }
+  }
+
+  /** Prefix a batch member's business failure with its position */
+  private atOperation(index: number, error: unknown): unknown {
+    if (error instanceof BadRequestException) {
+      return new BadRequestException(`Operation ${index}: ${error.message}`);
+    }
+    if (error instanceof NotFoundException) {
+      return new NotFoundException(`Operation ${index}: ${error.message}`);
+    }
+    if (error instanceof LimitExceededException) {
+      return new LimitExceededException(`Operation ${index}: ${error.message}`);
+    }
+    return error;
+  }
+
+  /**
+   * Reject an operation that would break one of its asset's velocity
+   * limits (see velocity-limits.ts). The wallets must already be locked.
+   */
+  private async assertWithinLimits(
+    queryRunner: QueryRunner,
+    type: TransactionType,
+    amount: string,
+    { sourceWalletId, destWalletId, limits }: ResolvedLeg,
+  ): Promise<void> {
+    if (!limits) {
+      return;
+    }
+    const violation = await velocityViolation(queryRunner.manager, {
+      type,
+      amount,
+      sourceWalletId,
+      destWalletId,
+      assetType: limits,
+    });
+    if (violation) {
+      this.logger.warn(
+        `Velocity limit ${violation.limit} exceeded [type=${type}, source=${sourceWalletId}, destination=${destWalletId}]: ${violation.message}`,
+      );
+      throw new LimitExceededException(violation.message);
+    }
+  }
+
+  /**
+   * Business failures are deterministic rejections of the request itself
+   * (insufficient balance, unknown wallet, a numeric overflow once
+   * translated by asBusinessFailure). Anything else — deadlocks, pool
+   * timeouts, lost connections, and velocity limits, which the same
+   * request may pass once the window has moved on — stays retryable.
+   */
+  private isBusinessFailure(error: unknown): error is HttpException {
+    return (
+      error instanceof BadRequestException ||
+      error instanceof NotFoundException
+    );
+  }
+
+  /**
+   * A numeric overflow is as deterministic as an insufficient balance: the
+   * same request would overflow again, so it is rejected with 400 instead
+   * of surfacing as a retryable 500.
+   */
+  private asBusinessFailure(error: unknown): unknown {
+    if ((error as { code?: unknown } | null)?.code === NUMERIC_OUT_OF_RANGE) {
+      return new BadRequestException(
+        'Amount or resulting balance is out of range',
+      );
+    }
+    return error;
+  }
+
+  /**
+   * Persist a FAILED transaction in its own committed write, outside the
+   * rolled-back query runner, so the rejection is auditable and replays of
+   * the same Idempotency-Key return the same error.
+   */
+  private async recordFailure(
+    request: TransactionRequest & Partial<ExecuteTransactionParams>,
+    error: HttpException,
+  ): Promise<void> {
+    try {
+      await this.dataSource.transaction(async (manager) => {
+        const failed = await manager.save(
+          manager.create(Transaction, {
+            idempotencyKey: request.idempotency.key,
+            apiClientId: request.idempotency.clientId,
+            type: request.type,
+            status: TransactionStatus.FAILED,
+            sourceWalletId: request.sourceWalletId,
+            destinationWalletId: request.destWalletId,
+            amount: request.amount,
+            referenceId: request.referenceId,
+            metadata: request.metadata || {},
+            originalTransactionId: request.originalTransactionId,
+            holdId: request.holdId,
+            errorMessage: error.message,
+            errorStatus: error.getStatus(),
+          }),
+        );
+        await this.idempotencyService.claim(manager, request.idempotency, {
+          transactionId: failed.id,
+        });
+        await this.outboxService.transactionFailed(manager, failed);
+      });
+    } catch (saveError: any) {
+      // 23505: a concurrent request with the same key already recorded its outcome
+      if (saveError?.code !== '23505') {
+        this.logger.error(
+          `Failed to record FAILED transaction [key=${request.idempotency.key}]: ${describeError(saveError)}`,
+        );
+      }
+    }
+  }
+
+  /** Batch counterpart of recordFailure; a FAILED batch has no members */
+  private async recordBatchFailure(
+    dto: BatchDto,
+    idempotency: IdempotencyContext,
+    error: HttpException,
+  ): Promise<void> {
+    try {
+      await this.dataSource.transaction(async (manager) => {
+        const failed = await manager.save(
+          manager.create(TransactionBatch, {
+            idempotencyKey: idempotency.key,
+            apiClientId: idempotency.clientId,
+            status: TransactionStatus.FAILED,
+            metadata: dto.metadata || {},
+            errorMessage: error.message,
+            errorStatus: error.getStatus(),
+          }),
+        );
+        await this.idempotencyService.claim(manager, idempotency, {
+          batchId: failed.id,
+        });
+        await this.outboxService.batchFailed(manager, failed);
+      });
+    } catch (saveError: any) {
+      if (saveError?.code !== '23505') {
+        this.logger.error(
+          `Failed to record FAILED batch [key=${idempotency.key}]: ${describeError(saveError)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Lock the original transaction row and add `amount` to its reversed total.
+   * Re-checks reversibility under the lock so that the sum of all reversals
+   * can never exceed the original amount. Returns the original as it was
+   * before this reversal.
+   */
+  private async applyReversal(
+    queryRunner: QueryRunner,
+    originalTransactionId: string,
+    amount: string,
+  ): Promise<Transaction> {
+    const original = await queryRunner.manager
+      .getRepository(Transaction)
+      .createQueryBuilder('txn')
+      .setLock('pessimistic_write')
+      .where('txn.id = :id', { id: originalTransactionId })
+      .getOne();
+
+    if (!original) {
+      throw new NotFoundException(
+        `Transaction ${originalTransactionId} not found`,
+      );
+    }
+    this.assertReversible(original);
+
+    const originalAmount = toMinor(original.amount);
+    const alreadyReversed = toMinor(original.reversedAmount);
+    const remaining = originalAmount - alreadyReversed;
+    if (toMinor(amount) > remaining) {
+      throw new BadRequestException(
+        `Reversal exceeds remaining amount. Remaining: ${fromMinor(remaining)}, Requested: ${normalizeAmount(amount)}`,
+      );
+    }
+
+    const reversedAmount = alreadyReversed + toMinor(amount);
+    await queryRunner.manager.update(Transaction, original.id, {
+      reversedAmount: fromMinor(reversedAmount),
+      status:
+        reversedAmount === originalAmount
+          ? TransactionStatus.REVERSED
+          : TransactionStatus.PARTIALLY_REVERSED,
+    });
+    return original;
+  }
+
+  private assertReversible(transaction: Transaction): void {
+    if (
+      transaction.type === TransactionType.EXCHANGE ||
+      transaction.type === TransactionType.EXPIRY
+    ) {
+      throw new BadRequestException(
+        `Transaction ${transaction.id} is an ${transaction.type} and cannot be reversed`,
+      );
+    }
+    if (COMPENSATING_TYPES.includes(transaction.type)) {
+      throw new BadRequestException(
+        `Transaction ${transaction.id} is a ${transaction.type} and cannot be reversed`,
+      );
+    }
+    if (!REVERSIBLE_STATUSES.includes(transaction.status)) {
+      throw new BadRequestException(
+        `Transaction ${transaction.id} is ${transaction.status} and cannot be reversed`,
+      );
+    }
+    if (transaction.sourceWalletId === transaction.destinationWalletId) {
+      throw new BadRequestException(
+        `Transaction ${transaction.id} has no counterparty and cannot be reversed`,
+      );
+    }
+  }
+
   /**
    * Lock wallets in ascending UUID order to prevent deadlocks.
    *
    * If Transaction A locks wallet-1 then wallet-2, and Transaction B also
    * locks wallet-1 then wallet-2 (same order), no deadlock can occur.
    * Without ordering, A could lock 1→2 while B locks 2→1, causing deadlock.
+   * Duplicate IDs are locked once.
    */
   private async lockWalletsInOrder(
     queryRunner: QueryRunner,
-    walletId1: string,
-    walletId2: string,
-  ): Promise<[Wallet, Wallet]> {
-    const [firstId, secondId] =
-      walletId1 < walletId2
-        ? [walletId1, walletId2]
-        : [walletId2, walletId1];
-
-    const first = await queryRunner.manager
-      .getRepository(Wallet)
-      .createQueryBuilder('wallet')
-      .setLock('pessimistic_write')
-      .where('wallet.id = :id', { id: firstId })
-      .getOne();
-
-    if (!first) {
-      throw new NotFoundException(`Wallet ${firstId} not found`);
-    }
+    walletIds: string[],
+  ): Promise<Map<string, Wallet>> {
+    const ordered = [...new Set(walletIds)].sort();
+    const wallets = new Map<string, Wallet>();
 
-    const second = await queryRunner.manager
-      .getRepository(Wallet)
-      .createQueryBuilder('wallet')
-      .setLock('pessimistic_write')
-      .where('wallet.id = :id', { id: secondId })
-      .getOne();
+    for (const id of ordered) {
+      const wallet = await queryRunner.manager
+        .getRepository(Wallet)
+        .createQueryBuilder('wallet')
+        .setLock('pessimistic_write')
+        .where('wallet.id = :id', { id })
+        .getOne();
 
-    if (!second) {
-      throw new NotFoundException(`Wallet ${secondId} not found`);
+      if (!wallet) {
+        throw new NotFoundException(`Wallet ${id} not found`);
+      }
+      wallets.set(id, wallet);
     }
 
-    // Return in caller's original order (source, destination)
-    return walletId1 < walletId2 ? [first, second] : [second, first];
+    return wallets;
   }
 }
+
+/** An Error's stack, or the JSON of anything else a query rejected with */
+function describeError(error: unknown): string {
+  return error instanceof Error
+    ? (error.stack ?? error.message)
+    : (JSON.stringify(error) ?? String(error));
+}
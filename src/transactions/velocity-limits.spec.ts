@@ -0,0 +1,126 @@
+import { LimitExceededException, velocityViolation } from './velocity-limits';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
+import { TransactionType } from '../common/enums';
+
+describe('velocity limits', () => {
+  const now = new Date('2026-06-08T12:00:00Z');
+  let query: Record<string, jest.Mock>;
+  let manager: { createQueryBuilder: jest.Mock };
+
+  const assetType = (limits: Partial<AssetType>) =>
+    ({
+      code: 'GOLD_COINS',
+      maxDailySpend: null,
+      maxWeeklySpend: null,
+      maxDailyBonus: null,
+      maxDailyIssuance: null,
+      ...limits,
+    }) as AssetType;
+  const check = (
+    type: TransactionType,
+    amount: string,
+    limits: Partial<AssetType>,
+  ) => ({
+    type,
+    amount,
+    sourceWalletId: 'source-id',
+    destWalletId: 'dest-id',
+    assetType: assetType(limits),
+  });
+
+  beforeEach(() => {
+    query = {
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn().mockResolvedValue({ total: '0' }),
+    };
+    manager = { createQueryBuilder: jest.fn().mockReturnValue(query) };
+  });
+
+  it('should not query anything when the asset sets no limit', async () => {
+    await expect(
+      velocityViolation(manager as any, check(TransactionType.BONUS, '10', {})),
+    ).resolves.toBeNull();
+    expect(manager.createQueryBuilder).not.toHaveBeenCalled();
+  });
+
+  it('should allow spending up to the limit', async () => {
+    query.getRawOne.mockResolvedValue({ total: '60.0000' });
+
+    await expect(
+      velocityViolation(
+        manager as any,
+        check(TransactionType.PURCHASE, '40', { maxDailySpend: '100' }),
+        now,
+      ),
+    ).resolves.toBeNull();
+    expect(query.where).toHaveBeenCalledWith('txn.sourceWalletId = :walletId', {
+      walletId: 'source-id',
+    });
+    expect(query.andWhere).toHaveBeenCalledWith('txn.createdAt > :since', {
+      since: new Date('2026-06-07T12:00:00Z'),
+    });
+  });
+
+  it('should report the first limit the operation would break', async () => {
+    query.getRawOne.mockResolvedValue({ total: '60.0000' });
+
+    await expect(
+      velocityViolation(
+        manager as any,
+        check(TransactionType.TRANSFER, '50', {
+          maxDailySpend: '500',
+          maxWeeklySpend: '100',
+        }),
+        now,
+      ),
+    ).resolves.toEqual({
+      limit: 'maxWeeklySpend',
+      message:
+        'Weekly spend limit exceeded for GOLD_COINS. Limit: 100.0000, Used: 60.0000, Requested: 50.0000',
+    });
+    expect(query.andWhere).toHaveBeenLastCalledWith('txn.createdAt > :since', {
+      since: new Date('2026-06-01T12:00:00Z'),
+    });
+  });
+
+  it('should count bonuses against the recipient and the treasury', async () => {
+    query.getRawOne
+      .mockResolvedValueOnce({ total: '20.0000' })
+      .mockResolvedValueOnce({ total: '990.0000' });
+
+    const violation = await velocityViolation(
+      manager as any,
+      check(TransactionType.BONUS, '20', {
+        maxDailyBonus: '50',
+        maxDailyIssuance: '1000',
+      }),
+    );
+
+    expect(query.where).toHaveBeenNthCalledWith(
+      1,
+      'txn.destinationWalletId = :walletId',
+      { walletId: 'dest-id' },
+    );
+    expect(query.where).toHaveBeenNthCalledWith(
+      2,
+      'txn.sourceWalletId = :walletId',
+      { walletId: 'source-id' },
+    );
+    expect(violation?.limit).toBe('maxDailyIssuance');
+  });
+
+  it('should leave other types alone', async () => {
+    await expect(
+      velocityViolation(
+        manager as any,
+        check(TransactionType.TOP_UP, '10', { maxDailySpend: '1' }),
+      ),
+    ).resolves.toBeNull();
+  });
+
+  it('should reject with 429', () => {
+    expect(new LimitExceededException('limit').getStatus()).toBe(429);
+  });
+});
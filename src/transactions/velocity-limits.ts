@@ -0,0 +1,145 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { Transaction } from './entities/transaction.entity';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
+import { TransactionStatus, TransactionType } from '../common/enums';
+import { fromMinor, normalizeAmount, toMinor } from '../common/utils/money';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Debits a user chooses to make, as opposed to compensations and sweeps */
+const SPEND_TYPES = [
+  TransactionType.PURCHASE,
+  TransactionType.TRANSFER,
+  TransactionType.EXCHANGE,
+];
+
+/** Reversing a transaction does not give its allowance back */
+const POSTED_STATUSES = [
+  TransactionStatus.COMPLETED,
+  TransactionStatus.PARTIALLY_REVERSED,
+  TransactionStatus.REVERSED,
+];
+
+export type VelocityLimit =
+  | 'maxDailySpend'
+  | 'maxWeeklySpend'
+  | 'maxDailyBonus'
+  | 'maxDailyIssuance';
+
+interface VelocityRule {
+  limit: VelocityLimit;
+  label: string;
+  /** Types counted against the limit; only these are checked by it */
+  types: TransactionType[];
+  /** Whose transactions count: the debited or the credited wallet's */
+  side: 'source' | 'destination';
+  windowMs: number;
+}
+
+const RULES: VelocityRule[] = [
+  {
+    limit: 'maxDailySpend',
+    label: 'Daily spend',
+    types: SPEND_TYPES,
+    side: 'source',
+    windowMs: DAY_MS,
+  },
+  {
+    limit: 'maxWeeklySpend',
+    label: 'Weekly spend',
+    types: SPEND_TYPES,
+    side: 'source',
+    windowMs: 7 * DAY_MS,
+  },
+  {
+    limit: 'maxDailyBonus',
+    label: 'Daily bonus',
+    types: [TransactionType.BONUS],
+    side: 'destination',
+    windowMs: DAY_MS,
+  },
+  {
+    // The source of every top-up and bonus is the asset's treasury
+    limit: 'maxDailyIssuance',
+    label: 'Daily issuance',
+    types: [TransactionType.TOP_UP, TransactionType.BONUS],
+    side: 'source',
+    windowMs: DAY_MS,
+  },
+];
+
+/**
+ * A velocity limit stopped the operation. 429 sets it apart from invalid
+ * requests: the same request may pass once the window has moved on, so
+ * the rejection is not recorded and its idempotency key stays free.
+ */
+export class LimitExceededException extends HttpException {
+  constructor(message: string) {
+    super(message, HttpStatus.TOO_MANY_REQUESTS);
+  }
+}
+
+export interface VelocityCheck {
+  type: TransactionType;
+  amount: string;
+  sourceWalletId: string;
+  destWalletId: string;
+  /** The asset whose limits apply */
+  assetType: AssetType;
+}
+
+export interface VelocityViolation {
+  limit: VelocityLimit;
+  message: string;
+}
+
+/**
+ * The first of the asset's velocity limits the operation would break, or
+ * null. Each limit counts what the wallet posted over a rolling window, so
+ * the caller must hold that wallet's lock: concurrent operations then
+ * cannot both fit under the same limit.
+ */
+export async function velocityViolation(
+  manager: EntityManager,
+  check: VelocityCheck,
+  now = new Date(),
+): Promise<VelocityViolation | null> {
+  for (const rule of RULES) {
+    const limit = check.assetType[rule.limit];
+    if (limit == null || !rule.types.includes(check.type)) {
+      continue;
+    }
+    const walletId =
+      rule.side === 'source' ? check.sourceWalletId : check.destWalletId;
+    const used = await postedTotal(manager, rule, walletId, now);
+    if (used + toMinor(check.amount) > toMinor(limit)) {
+      return {
+        limit: rule.limit,
+        message: `${rule.label} limit exceeded for ${check.assetType.code}. Limit: ${normalizeAmount(limit)}, Used: ${fromMinor(used)}, Requested: ${normalizeAmount(check.amount)}`,
+      };
+    }
+  }
+  return null;
+}
+
+async function postedTotal(
+  manager: EntityManager,
+  rule: VelocityRule,
+  walletId: string,
+  now: Date,
+): Promise<bigint> {
+  const column =
+    rule.side === 'source' ? 'txn.sourceWalletId' : 'txn.destinationWalletId';
+  const row = await manager
+    .createQueryBuilder(Transaction, 'txn')
+    .select('COALESCE(SUM(txn.amount), 0)', 'total')
+    .where(`${column} = :walletId`, { walletId })
+    .andWhere('txn.type IN (:...types)', { types: rule.types })
+    .andWhere('txn.status IN (:...statuses)', { statuses: POSTED_STATUSES })
+    .andWhere('txn.createdAt > :since', {
+      since: new Date(now.getTime() - rule.windowMs),
+    })
+    .getRawOne<{ total: string }>();
+  return toMinor(row?.total ?? '0');
+}
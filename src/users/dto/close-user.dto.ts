@@ -0,0 +1,11 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class CloseUserDto {
+  /**
+   * Move any remaining balances to the treasury as SWEEP transactions.
+   * Without it, closing requires every wallet to be empty.
+   */
+  @IsBoolean()
+  @IsOptional()
+  sweep?: boolean;
+}
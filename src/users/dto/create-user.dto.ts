@@ -0,0 +1,21 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateUserDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Matches(/^[A-Za-z0-9_.-]+$/, {
+    message: 'username may only contain letters, digits, _, . and -',
+  })
+  username: string;
+
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+}
@@ -0,0 +1,25 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+/** Omitted fields are left unchanged; neither can be cleared with null */
+export class UpdateUserDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Matches(/^[A-Za-z0-9_.-]+$/, {
+    message: 'username may only contain letters, digits, _, . and -',
+  })
+  @ValidateIf((_, value) => value !== undefined)
+  username?: string;
+
+  @IsEmail()
+  @MaxLength(255)
+  @ValidateIf((_, value) => value !== undefined)
+  email?: string;
+}
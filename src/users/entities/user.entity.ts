@@ -6,7 +6,7 @@ import {
   UpdateDateColumn,
   OneToMany,
 } from 'typeorm';
-import { UserRole } from '../../common/enums';
+import { UserRole, UserStatus } from '../../common/enums';
 import { Wallet } from '../../wallets/entities/wallet.entity';
 
 @Entity('users')
@@ -23,6 +23,10 @@ export class User {
   @Column({ type: 'varchar', length: 20, default: UserRole.USER })
   role: UserRole;
 
+  /** SUSPENDED users cannot spend; CLOSED users can neither spend nor receive */
+  @Column({ type: 'varchar', length: 20, default: UserStatus.ACTIVE })
+  status: UserStatus;
+
   @OneToMany(() => Wallet, (wallet) => wallet.user)
   wallets: Wallet[];
 
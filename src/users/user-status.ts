@@ -0,0 +1,17 @@
+import { BadRequestException } from '@nestjs/common';
+import { User } from './entities/user.entity';
+import { UserStatus } from '../common/enums';
+
+/** Reject debits from a user who is suspended or closed */
+export function assertCanSpend(user: User): void {
+  if (user.status !== UserStatus.ACTIVE) {
+    throw new BadRequestException(`User ${user.id} is ${user.status}`);
+  }
+}
+
+/** Reject credits to a closed user; suspended users can still receive */
+export function assertCanReceive(user: User): void {
+  if (user.status === UserStatus.CLOSED) {
+    throw new BadRequestException(`User ${user.id} is ${user.status}`);
+  }
+}
@@ -1,7 +1,23 @@
-import { Controller, Get, Param, ParseUUIDPipe } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
 import { UsersService } from './users.service';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { CloseUserDto } from './dto/close-user.dto';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope } from '../common/enums';
 
 @Controller('users')
+@RequireScopes(ApiScope.USERS_READ)
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
@@ -14,4 +30,44 @@ export class UsersController {
   findOne(@Param('id', ParseUUIDPipe) id: string) {
     return this.usersService.findOne(id);
   }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequireScopes(ApiScope.USERS_MANAGE)
+  create(@Body() dto: CreateUserDto) {
+    return this.usersService.create(dto);
+  }
+
+  @Patch(':id')
+  @RequireScopes(ApiScope.USERS_MANAGE)
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateUserDto,
+  ) {
+    return this.usersService.update(id, dto);
+  }
+
+  @Post(':id/suspend')
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes(ApiScope.USERS_MANAGE)
+  suspend(@Param('id', ParseUUIDPipe) id: string) {
+    return this.usersService.suspend(id);
+  }
+
+  @Post(':id/reactivate')
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes(ApiScope.USERS_MANAGE)
+  reactivate(@Param('id', ParseUUIDPipe) id: string) {
+    return this.usersService.reactivate(id);
+  }
+
+  @Post(':id/close')
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes(ApiScope.USERS_MANAGE)
+  close(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CloseUserDto,
+  ) {
+    return this.usersService.close(id, dto);
+  }
 }
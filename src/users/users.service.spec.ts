@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { UsersService } from './users.service';
+import { User } from './entities/user.entity';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { TransactionsService } from '../transactions/transactions.service';
+import { UserRole, UserStatus } from '../common/enums';
+
+describe('UsersService', () => {
+  let service: UsersService;
+  let userRepo: Record<string, jest.Mock>;
+  let transactionsService: Record<string, jest.Mock>;
+  let mockQueryRunner: any;
+  let getOne: jest.Mock;
+
+  const player = {
+    id: 'user-id',
+    username: 'dave',
+    role: UserRole.USER,
+    status: UserStatus.ACTIVE,
+  };
+
+  beforeEach(async () => {
+    getOne = jest.fn();
+    mockQueryRunner = {
+      connect: jest.fn(),
+      startTransaction: jest.fn(),
+      commitTransaction: jest.fn(),
+      rollbackTransaction: jest.fn(),
+      release: jest.fn(),
+      isTransactionActive: true,
+      manager: {
+        create: jest.fn((entity, data) => ({ ...data })),
+        save: jest.fn((data) =>
+          Array.isArray(data) ? data : { id: 'user-id', ...data },
+        ),
+        find: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+        getRepository: jest.fn().mockReturnValue({
+          createQueryBuilder: jest.fn().mockReturnValue({
+            setLock: jest.fn().mockReturnThis(),
+            where: jest.fn().mockReturnThis(),
+            getOne,
+          }),
+        }),
+      },
+    };
+
+    userRepo = {
+      find: jest.fn(),
+      findOne: jest.fn(),
+      save: jest.fn(),
+      update: jest.fn(),
+    };
+    transactionsService = { settleForClosure: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        {
+          provide: DataSource,
+          useValue: {
+            createQueryRunner: jest.fn().mockReturnValue(mockQueryRunner),
+            transaction: jest.fn((work) => work(mockQueryRunner.manager)),
+          },
+        },
+        { provide: getRepositoryToken(User), useValue: userRepo },
+        { provide: TransactionsService, useValue: transactionsService },
+      ],
+    }).compile();
+
+    service = module.get<UsersService>(UsersService);
+  });
+
+  describe('create', () => {
+    it('should provision a wallet in every active asset', async () => {
+      mockQueryRunner.manager.find.mockResolvedValue([
+        { id: 'gold-id' },
+        { id: 'diamonds-id' },
+      ]);
+      userRepo.findOne.mockResolvedValue(player);
+
+      await service.create({ username: 'dave', email: 'dave@example.com' });
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        User,
+        expect.objectContaining({ username: 'dave', role: UserRole.USER }),
+      );
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(Wallet, {
+        userId: 'user-id',
+        assetTypeId: 'diamonds-id',
+        balance: '0',
+      });
+    });
+
+    it('should report a taken username as a conflict', async () => {
+      mockQueryRunner.manager.save.mockRejectedValueOnce({ code: '23505' });
+
+      await expect(
+        service.create({ username: 'alice', email: 'a@example.com' }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('suspend', () => {
+    it('should suspend an active user', async () => {
+      userRepo.findOne.mockResolvedValue(player);
+
+      await service.suspend('user-id');
+
+      expect(userRepo.update).toHaveBeenCalledWith('user-id', {
+        status: UserStatus.SUSPENDED,
+      });
+    });
+
+    it('should not suspend a closed user', async () => {
+      userRepo.findOne.mockResolvedValue({
+        ...player,
+        status: UserStatus.CLOSED,
+      });
+
+      await expect(service.suspend('user-id')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('close', () => {
+    it('should settle the wallets before marking the user CLOSED', async () => {
+      getOne.mockResolvedValue(player);
+      userRepo.findOne.mockResolvedValue(player);
+
+      await service.close('user-id', { sweep: true });
+
+      expect(transactionsService.settleForClosure).toHaveBeenCalledWith(
+        mockQueryRunner,
+        'user-id',
+        true,
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        User,
+        'user-id',
+        { status: UserStatus.CLOSED },
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should keep the user open when settlement fails', async () => {
+      getOne.mockResolvedValue(player);
+      transactionsService.settleForClosure.mockRejectedValue(
+        new BadRequestException('GOLD_COINS balance is 10.0000'),
+      );
+
+      await expect(service.close('user-id', {})).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockQueryRunner.manager.update).not.toHaveBeenCalled();
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should be a no-op for a closed user', async () => {
+      getOne.mockResolvedValue({ ...player, status: UserStatus.CLOSED });
+      userRepo.findOne.mockResolvedValue(player);
+
+      await service.close('user-id', {});
+
+      expect(transactionsService.settleForClosure).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,13 +1,27 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, Repository } from 'typeorm';
 import { User } from './entities/user.entity';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { TransactionsService } from '../transactions/transactions.service';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { CloseUserDto } from './dto/close-user.dto';
+import { UserRole, UserStatus } from '../common/enums';
 
 @Injectable()
 export class UsersService {
   constructor(
+    private readonly dataSource: DataSource,
     @InjectRepository(User)
     private readonly userRepo: Repository<User>,
+    private readonly transactionsService: TransactionsService,
   ) {}
 
   async findAll(): Promise<User[]> {
@@ -24,4 +38,135 @@ export class UsersService {
     }
     return user;
   }
+
+  /** Register a player with an empty wallet in every active asset */
+  async create(dto: CreateUserDto): Promise<User> {
+    const user = await this.withUniqueIdentity(() =>
+      this.dataSource.transaction(async (manager) => {
+        const created = await manager.save(
+          manager.create(User, { ...dto, role: UserRole.USER }),
+        );
+        const assetTypes = await manager.find(AssetType, {
+          where: { isActive: true },
+        });
+        if (assetTypes.length > 0) {
+          await manager.save(
+            assetTypes.map((assetType) =>
+              manager.create(Wallet, {
+                userId: created.id,
+                assetTypeId: assetType.id,
+                balance: '0',
+              }),
+            ),
+          );
+        }
+        return created;
+      }),
+    );
+    return this.findOne(user.id);
+  }
+
+  async update(id: string, dto: UpdateUserDto): Promise<User> {
+    const user = await this.findManaged(id);
+    if (user.status === UserStatus.CLOSED) {
+      throw new BadRequestException(`User ${id} is CLOSED`);
+    }
+    Object.assign(user, dto);
+    await this.withUniqueIdentity(() => this.userRepo.save(user));
+    return this.findOne(id);
+  }
+
+  async suspend(id: string): Promise<User> {
+    return this.transition(id, UserStatus.ACTIVE, UserStatus.SUSPENDED);
+  }
+
+  async reactivate(id: string): Promise<User> {
+    return this.transition(id, UserStatus.SUSPENDED, UserStatus.ACTIVE);
+  }
+
+  /**
+   * Close an account for good. Every wallet must be empty and free of
+   * active holds, unless `sweep` is set, in which case remaining balances
+   * are moved to the treasury in the same transaction. Closing twice is a
+   * no-op.
+   */
+  async close(id: string, dto: CloseUserDto): Promise<User> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('READ COMMITTED');
+
+    try {
+      const user = await queryRunner.manager
+        .getRepository(User)
+        .createQueryBuilder('user')
+        .setLock('pessimistic_write')
+        .where('user.id = :id AND user.role = :role', {
+          id,
+          role: UserRole.USER,
+        })
+        .getOne();
+      if (!user) {
+        throw new NotFoundException(`User with id ${id} not found`);
+      }
+
+      if (user.status !== UserStatus.CLOSED) {
+        await this.transactionsService.settleForClosure(
+          queryRunner,
+          user.id,
+          dto.sweep ?? false,
+        );
+        await queryRunner.manager.update(User, user.id, {
+          status: UserStatus.CLOSED,
+        });
+      }
+
+      await queryRunner.commitTransaction();
+      return this.findOne(id);
+    } catch (error) {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  private async transition(
+    id: string,
+    from: UserStatus,
+    to: UserStatus,
+  ): Promise<User> {
+    const user = await this.findManaged(id);
+    if (user.status === to) {
+      return this.findOne(id);
+    }
+    if (user.status !== from) {
+      throw new BadRequestException(`User ${id} is ${user.status}`);
+    }
+    await this.userRepo.update(user.id, { status: to });
+    return this.findOne(id);
+  }
+
+  /** Only player accounts are managed through the API, never the treasury */
+  private async findManaged(id: string): Promise<User> {
+    const user = await this.userRepo.findOne({
+      where: { id, role: UserRole.USER },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with id ${id} not found`);
+    }
+    return user;
+  }
+
+  private async withUniqueIdentity<T>(work: () => Promise<T>): Promise<T> {
+    try {
+      return await work();
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new ConflictException('Username or email is already taken');
+      }
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,44 @@
+import {
+  IsEnum,
+  IsISO8601,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { CursorPaginationQueryDto } from '../../common/dto/cursor-pagination-query.dto';
+import { IsAmount } from '../../common/decorators/is-amount.decorator';
+import { EntryType } from '../../common/enums';
+
+export class ListLedgerEntriesQueryDto extends CursorPaginationQueryDto {
+  @IsEnum(EntryType)
+  @IsOptional()
+  entryType?: EntryType;
+
+  @IsAmount()
+  @IsOptional()
+  minAmount?: string;
+
+  @IsAmount()
+  @IsOptional()
+  maxAmount?: string;
+
+  /** Inclusive lower bound on createdAt */
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  from?: string;
+
+  /** Exclusive upper bound on createdAt */
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  to?: string;
+
+  /** Matches the referenceId of the entry's transaction */
+  @IsString()
+  @IsOptional()
+  referenceId?: string;
+
+  /** Exact matches on the transaction's top-level metadata keys */
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, string>;
+}
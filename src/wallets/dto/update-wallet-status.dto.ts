@@ -0,0 +1,13 @@
+import { IsEnum, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { WalletStatus } from '../../common/enums';
+
+export class UpdateWalletStatusDto {
+  @IsEnum(WalletStatus)
+  status: WalletStatus;
+
+  /** Kept in the wallet's status history, e.g. a fraud case reference */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
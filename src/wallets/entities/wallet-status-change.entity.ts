@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { WalletStatus } from '../../common/enums';
+import { Wallet } from './wallet.entity';
+import { ApiClient } from '../../api-clients/entities/api-client.entity';
+
+/** Append-only audit trail of wallet status changes */
+@Entity('wallet_status_changes')
+@Index(['walletId', 'createdAt'])
+export class WalletStatusChange {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Wallet)
+  @JoinColumn({ name: 'wallet_id' })
+  wallet: Wallet;
+
+  @Column({ name: 'wallet_id' })
+  walletId: string;
+
+  @Column({ name: 'from_status', type: 'varchar', length: 20 })
+  fromStatus: WalletStatus;
+
+  @Column({ name: 'to_status', type: 'varchar', length: 20 })
+  toStatus: WalletStatus;
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  @ManyToOne(() => ApiClient, { nullable: true })
+  @JoinColumn({ name: 'api_client_id' })
+  apiClient: ApiClient;
+
+  /** Null when the change was made by the system (e.g. account closure) */
+  @Column({ name: 'api_client_id', nullable: true })
+  apiClientId: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
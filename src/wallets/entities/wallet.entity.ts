@@ -9,10 +9,13 @@ import {
   JoinColumn,
   Unique,
   Index,
+  AfterLoad,
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
 import { AssetType } from '../../asset-types/entities/asset-type.entity';
 import { LedgerEntry } from '../../transactions/entities/ledger-entry.entity';
+import { fromMinor, toMinor } from '../../common/utils/money';
+import { WalletStatus } from '../../common/enums';
 
 @Entity('wallets')
 @Unique(['userId', 'assetTypeId'])
@@ -35,8 +38,49 @@ export class Wallet {
   @Column({ name: 'asset_type_id' })
   assetTypeId: string;
 
+  /**
+   * DECIMAL columns are read and written as strings (e.g. "1000.0000");
+   * do arithmetic through toMinor/fromMinor, never Number().
+   */
   @Column({ type: 'decimal', precision: 18, scale: 4, default: 0 })
-  balance: number;
+  balance: string;
+
+  /** Sum of ACTIVE holds on this wallet */
+  @Column({
+    name: 'held_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    default: 0,
+  })
+  heldAmount: string;
+
+  /** balance − heldAmount: what the wallet can actually spend */
+  availableBalance: string;
+
+  /**
+   * Part of the balance issued as promotional currency (bonuses) rather
+   * than bought (top-ups); purchases spend it first. Never above balance.
+   */
+  @Column({
+    name: 'promo_balance',
+    type: 'decimal',
+    precision: 18,
+    scale: 4,
+    default: 0,
+  })
+  promoBalance: string;
+
+  /** balance − promoBalance: currency the player actually paid for */
+  paidBalance: string;
+
+  /** Checked after the wallet is locked; see wallet-status.ts */
+  @Column({ type: 'varchar', length: 20, default: WalletStatus.ACTIVE })
+  status: WalletStatus;
+
+  /** Reason given for the latest status change */
+  @Column({ name: 'status_reason', type: 'text', nullable: true })
+  statusReason: string | null;
 
   @OneToMany(() => LedgerEntry, (entry) => entry.wallet)
   ledgerEntries: LedgerEntry[];
@@ -46,4 +90,14 @@ export class Wallet {
 
   @UpdateDateColumn({ type: 'timestamptz' })
   updatedAt: Date;
+
+  @AfterLoad()
+  computeAvailableBalance() {
+    this.availableBalance = fromMinor(
+      toMinor(this.balance) - toMinor(this.heldAmount),
+    );
+    this.paidBalance = fromMinor(
+      toMinor(this.balance) - toMinor(this.promoBalance),
+    );
+  }
 }
@@ -0,0 +1,34 @@
+import { BadRequestException } from '@nestjs/common';
+import { Wallet } from './entities/wallet.entity';
+import { WalletStatus } from '../common/enums';
+
+const DEBITABLE = [WalletStatus.ACTIVE];
+const CREDITABLE = [WalletStatus.ACTIVE, WalletStatus.FROZEN_DEBIT];
+
+/**
+ * Check a locked wallet may be debited. Compensations (reversals, closure
+ * sweeps) and credit expiries pass `ignoreFreeze` so ops can claw back
+ * funds from a frozen wallet; a CLOSED wallet never moves.
+ */
+export function assertCanDebit(wallet: Wallet, ignoreFreeze = false): void {
+  if (!allows(DEBITABLE, wallet, ignoreFreeze)) {
+    throw new BadRequestException(`Wallet ${wallet.id} is ${wallet.status}`);
+  }
+}
+
+/** Check a locked wallet may be credited; see assertCanDebit */
+export function assertCanCredit(wallet: Wallet, ignoreFreeze = false): void {
+  if (!allows(CREDITABLE, wallet, ignoreFreeze)) {
+    throw new BadRequestException(`Wallet ${wallet.id} is ${wallet.status}`);
+  }
+}
+
+function allows(
+  statuses: WalletStatus[],
+  wallet: Wallet,
+  ignoreFreeze: boolean,
+): boolean {
+  return ignoreFreeze
+    ? wallet.status !== WalletStatus.CLOSED
+    : statuses.includes(wallet.status);
+}
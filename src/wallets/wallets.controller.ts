@@ -1,15 +1,23 @@
 import {
   Controller,
   Get,
+  Patch,
+  Body,
+  Req,
   Param,
   Query,
   ParseUUIDPipe,
-  ParseIntPipe,
-  DefaultValuePipe,
 } from '@nestjs/common';
 import { WalletsService } from './wallets.service';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope } from '../common/enums';
+import { AuthenticatedRequest } from '../common/guards/api-key.guard';
+import { UpdateWalletStatusDto } from './dto/update-wallet-status.dto';
+import { ListLedgerEntriesQueryDto } from './dto/list-ledger-entries-query.dto';
+import { ParseTimestampPipe } from '../common/pipes/parse-timestamp.pipe';
 
 @Controller('wallets')
+@RequireScopes(ApiScope.WALLETS_READ)
 export class WalletsController {
   constructor(private readonly walletsService: WalletsService) {}
 
@@ -18,17 +26,47 @@ export class WalletsController {
     return this.walletsService.getWalletsByUser(userId);
   }
 
+  @Get('user/:userId/balances')
+  getUserBalancesAt(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query('at', ParseTimestampPipe) at: Date,
+  ) {
+    return this.walletsService.getUserBalancesAt(userId, at);
+  }
+
   @Get(':walletId')
   getWallet(@Param('walletId', ParseUUIDPipe) walletId: string) {
     return this.walletsService.getWalletById(walletId);
   }
 
+  @Get(':walletId/balance')
+  getBalanceAt(
+    @Param('walletId', ParseUUIDPipe) walletId: string,
+    @Query('at', ParseTimestampPipe) at: Date,
+  ) {
+    return this.walletsService.getBalanceAt(walletId, at);
+  }
+
+  @Patch(':walletId/status')
+  @RequireScopes(ApiScope.WALLETS_MANAGE)
+  setStatus(
+    @Param('walletId', ParseUUIDPipe) walletId: string,
+    @Body() dto: UpdateWalletStatusDto,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    return this.walletsService.setStatus(walletId, dto, request.apiClient.id);
+  }
+
+  @Get(':walletId/status-history')
+  getStatusHistory(@Param('walletId', ParseUUIDPipe) walletId: string) {
+    return this.walletsService.getStatusHistory(walletId);
+  }
+
   @Get(':walletId/ledger')
   getLedgerHistory(
     @Param('walletId', ParseUUIDPipe) walletId: string,
-    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
-    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query() query: ListLedgerEntriesQueryDto,
   ) {
-    return this.walletsService.getLedgerHistory(walletId, page, limit);
+    return this.walletsService.getLedgerHistory(walletId, query);
   }
 }
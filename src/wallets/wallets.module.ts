@@ -1,12 +1,23 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Wallet } from './entities/wallet.entity';
+import { WalletStatusChange } from './entities/wallet-status-change.entity';
 import { LedgerEntry } from '../transactions/entities/ledger-entry.entity';
+import { User } from '../users/entities/user.entity';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
 import { WalletsService } from './wallets.service';
 import { WalletsController } from './wallets.controller';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Wallet, LedgerEntry])],
+  imports: [
+    TypeOrmModule.forFeature([
+      Wallet,
+      WalletStatusChange,
+      LedgerEntry,
+      User,
+      AssetType,
+    ]),
+  ],
   controllers: [WalletsController],
   providers: [WalletsService],
   exports: [WalletsService],
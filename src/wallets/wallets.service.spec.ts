@@ -1,15 +1,27 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { NotFoundException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { WalletsService } from './wallets.service';
 import { Wallet } from './entities/wallet.entity';
+import { WalletStatusChange } from './entities/wallet-status-change.entity';
 import { LedgerEntry } from '../transactions/entities/ledger-entry.entity';
-import { UserRole } from '../common/enums';
+import { User } from '../users/entities/user.entity';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
+import { EntryType, UserRole, WalletStatus } from '../common/enums';
+import { decodeCursor, encodeCursor } from '../common/utils/cursor';
 
 describe('WalletsService', () => {
   let service: WalletsService;
   let walletRepo: Record<string, jest.Mock>;
   let ledgerEntryRepo: Record<string, jest.Mock>;
+  let ledgerQuery: Record<string, jest.Mock>;
+  let userRepo: Record<string, jest.Mock>;
+  let assetTypeRepo: Record<string, jest.Mock>;
+  let insertExecute: jest.Mock;
+  let statusChangeRepo: Record<string, jest.Mock>;
+  let mockQueryRunner: any;
+  let getOne: jest.Mock;
 
   const mockWallet = {
     id: 'wallet-1',
@@ -21,13 +33,56 @@ describe('WalletsService', () => {
   };
 
   beforeEach(async () => {
+    insertExecute = jest.fn();
     walletRepo = {
       findOne: jest.fn(),
       find: jest.fn(),
+      createQueryBuilder: jest.fn().mockReturnValue({
+        insert: jest.fn().mockReturnThis(),
+        into: jest.fn().mockReturnThis(),
+        values: jest.fn().mockReturnThis(),
+        orIgnore: jest.fn().mockReturnThis(),
+        execute: insertExecute,
+      }),
     };
+    userRepo = { findOne: jest.fn() };
+    statusChangeRepo = { find: jest.fn() };
+    getOne = jest.fn();
+    mockQueryRunner = {
+      connect: jest.fn(),
+      startTransaction: jest.fn(),
+      commitTransaction: jest.fn(),
+      rollbackTransaction: jest.fn(),
+      release: jest.fn(),
+      isTransactionActive: true,
+      manager: {
+        create: jest.fn((entity, data) => ({ ...data })),
+        save: jest.fn((data) => data),
+        update: jest.fn(),
+        getRepository: jest.fn().mockReturnValue({
+          createQueryBuilder: jest.fn().mockReturnValue({
+            setLock: jest.fn().mockReturnThis(),
+            where: jest.fn().mockReturnThis(),
+            getOne,
+          }),
+        }),
+      },
+    };
+    assetTypeRepo = { findOne: jest.fn() };
 
+    ledgerQuery = {
+      leftJoinAndSelect: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getRawAndEntities: jest.fn().mockResolvedValue({ entities: [], raw: [] }),
+    };
     ledgerEntryRepo = {
-      findAndCount: jest.fn(),
+      findOne: jest.fn(),
+      createQueryBuilder: jest.fn().mockReturnValue(ledgerQuery),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -38,6 +93,18 @@ describe('WalletsService', () => {
           provide: getRepositoryToken(LedgerEntry),
           useValue: ledgerEntryRepo,
         },
+        { provide: getRepositoryToken(User), useValue: userRepo },
+        { provide: getRepositoryToken(AssetType), useValue: assetTypeRepo },
+        {
+          provide: getRepositoryToken(WalletStatusChange),
+          useValue: statusChangeRepo,
+        },
+        {
+          provide: DataSource,
+          useValue: {
+            createQueryRunner: jest.fn().mockReturnValue(mockQueryRunner),
+          },
+        },
       ],
     }).compile();
 
@@ -66,6 +133,63 @@ describe('WalletsService', () => {
     });
   });
 
+  describe('findOrCreateUserWallet', () => {
+    it('should return an existing wallet without inserting', async () => {
+      walletRepo.findOne.mockResolvedValue(mockWallet);
+
+      await service.findOrCreateUserWallet('user-1', 'GOLD_COINS');
+
+      expect(insertExecute).not.toHaveBeenCalled();
+    });
+
+    it('should create the wallet on first use', async () => {
+      walletRepo.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(mockWallet);
+      userRepo.findOne.mockResolvedValue({ id: 'user-1' });
+      assetTypeRepo.findOne.mockResolvedValue({
+        id: 'asset-1',
+        isActive: true,
+      });
+
+      const result = await service.findOrCreateUserWallet(
+        'user-1',
+        'GOLD_COINS',
+      );
+
+      expect(result).toEqual(mockWallet);
+      expect(insertExecute).toHaveBeenCalled();
+      expect(userRepo.findOne).toHaveBeenCalledWith({
+        where: { id: 'user-1', role: UserRole.USER },
+      });
+    });
+
+    it('should not create wallets for unknown users', async () => {
+      walletRepo.findOne.mockResolvedValue(null);
+      userRepo.findOne.mockResolvedValue(null);
+      assetTypeRepo.findOne.mockResolvedValue({ id: 'asset-1' });
+
+      await expect(
+        service.findOrCreateUserWallet('unknown-user', 'GOLD_COINS'),
+      ).rejects.toThrow(NotFoundException);
+      expect(insertExecute).not.toHaveBeenCalled();
+    });
+
+    it('should not create wallets in inactive assets', async () => {
+      walletRepo.findOne.mockResolvedValue(null);
+      userRepo.findOne.mockResolvedValue({ id: 'user-1' });
+      assetTypeRepo.findOne.mockResolvedValue({
+        id: 'asset-1',
+        isActive: false,
+      });
+
+      await expect(
+        service.findOrCreateUserWallet('user-1', 'GOLD_COINS'),
+      ).rejects.toThrow(BadRequestException);
+      expect(insertExecute).not.toHaveBeenCalled();
+    });
+  });
+
   describe('findSystemWallet', () => {
     it('should find wallet for SYSTEM role user', async () => {
       const systemWallet = {
@@ -126,34 +250,208 @@ describe('WalletsService', () => {
     });
   });
 
-  describe('getLedgerHistory', () => {
-    it('should return paginated ledger entries', async () => {
-      const entries = [
-        { id: 'entry-1', entryType: 'CREDIT', amount: 100 },
-      ];
-      ledgerEntryRepo.findAndCount.mockResolvedValue([entries, 1]);
-
-      const result = await service.getLedgerHistory('wallet-1', 1, 20);
-
-      expect(result.entries).toHaveLength(1);
-      expect(result.total).toBe(1);
-      expect(ledgerEntryRepo.findAndCount).toHaveBeenCalledWith({
-        where: { walletId: 'wallet-1' },
-        relations: ['transaction'],
-        order: { createdAt: 'DESC' },
-        skip: 0,
-        take: 20,
+  describe('setStatus', () => {
+    const frozen = {
+      status: WalletStatus.FROZEN_DEBIT,
+      reason: 'fraud case 1234',
+    };
+
+    it('should change the status and record who changed it', async () => {
+      getOne.mockResolvedValue({
+        id: 'wallet-1',
+        status: WalletStatus.ACTIVE,
+        balance: '10.0000',
+        heldAmount: '0.0000',
+      });
+      walletRepo.findOne.mockResolvedValue(mockWallet);
+
+      await service.setStatus('wallet-1', frozen, 'client-1');
+
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        Wallet,
+        'wallet-1',
+        { status: WalletStatus.FROZEN_DEBIT, statusReason: 'fraud case 1234' },
+      );
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        WalletStatusChange,
+        {
+          walletId: 'wallet-1',
+          fromStatus: WalletStatus.ACTIVE,
+          toStatus: WalletStatus.FROZEN_DEBIT,
+          reason: 'fraud case 1234',
+          apiClientId: 'client-1',
+        },
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should only close an empty wallet', async () => {
+      getOne.mockResolvedValue({
+        id: 'wallet-1',
+        status: WalletStatus.ACTIVE,
+        balance: '10.0000',
+        heldAmount: '0.0000',
+      });
+
+      await expect(
+        service.setStatus('wallet-1', {
+          status: WalletStatus.CLOSED,
+          reason: 'requested by player',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should never reopen a closed wallet', async () => {
+      getOne.mockResolvedValue({ id: 'wallet-1', status: WalletStatus.CLOSED });
+
+      await expect(service.setStatus('wallet-1', frozen)).rejects.toThrow(
+        'Wallet wallet-1 is CLOSED',
+      );
+    });
+  });
+
+  describe('getBalanceAt', () => {
+    const at = new Date('2026-01-31T23:59:59Z');
+
+    it('should read the balance after the last entry before the instant', async () => {
+      walletRepo.findOne.mockResolvedValue(mockWallet);
+      ledgerEntryRepo.findOne.mockResolvedValue({
+        id: 'entry-7',
+        balanceAfter: '250.5000',
+      });
+
+      const result = await service.getBalanceAt('wallet-1', at);
+
+      expect(result).toEqual({
+        walletId: 'wallet-1',
+        assetTypeCode: 'GOLD_COINS',
+        at,
+        balance: '250.5000',
+        ledgerEntryId: 'entry-7',
       });
+      expect(ledgerEntryRepo.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ order: { sequence: 'DESC' } }),
+      );
     });
 
-    it('should correctly calculate skip for page 2', async () => {
-      ledgerEntryRepo.findAndCount.mockResolvedValue([[], 0]);
+    it('should report zero before the first entry', async () => {
+      walletRepo.findOne.mockResolvedValue(mockWallet);
+      ledgerEntryRepo.findOne.mockResolvedValue(null);
+
+      const result = await service.getBalanceAt('wallet-1', at);
+
+      expect(result.balance).toBe('0.0000');
+      expect(result.ledgerEntryId).toBeNull();
+    });
+
+    it('should reject instants in the future', async () => {
+      await expect(
+        service.getBalanceAt('wallet-1', new Date(Date.now() + 60_000)),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getUserBalancesAt', () => {
+    it('should return a balance per wallet that existed at the instant', async () => {
+      const at = new Date('2026-01-31T23:59:59Z');
+      userRepo.findOne.mockResolvedValue({ id: 'user-1' });
+      walletRepo.find.mockResolvedValue([
+        mockWallet,
+        { ...mockWallet, id: 'wallet-2', assetType: { code: 'DIAMONDS' } },
+      ]);
+      ledgerEntryRepo.findOne
+        .mockResolvedValueOnce({ id: 'entry-1', balanceAfter: '10.0000' })
+        .mockResolvedValueOnce(null);
+
+      const result = await service.getUserBalancesAt('user-1', at);
+
+      expect(result.map((b) => [b.assetTypeCode, b.balance])).toEqual([
+        ['GOLD_COINS', '10.0000'],
+        ['DIAMONDS', '0.0000'],
+      ]);
+    });
 
-      await service.getLedgerHistory('wallet-1', 2, 10);
+    it('should throw NotFoundException for unknown users', async () => {
+      userRepo.findOne.mockResolvedValue(null);
 
-      expect(ledgerEntryRepo.findAndCount).toHaveBeenCalledWith(
-        expect.objectContaining({ skip: 10, take: 10 }),
+      await expect(
+        service.getUserBalancesAt('missing', new Date()),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getLedgerHistory', () => {
+    const entryId = (n: number) => `00000000-0000-4000-8000-00000000000${n}`;
+
+    it('should page newest first by (createdAt, id)', async () => {
+      ledgerQuery.getRawAndEntities.mockResolvedValue({
+        entities: [{ id: entryId(3) }, { id: entryId(2) }, { id: entryId(1) }],
+        raw: [
+          { cursor_created_at: '2026-01-03 00:00:00.000003+00' },
+          { cursor_created_at: '2026-01-02 00:00:00.000002+00' },
+          { cursor_created_at: '2026-01-01 00:00:00.000001+00' },
+        ],
+      });
+
+      const result = await service.getLedgerHistory('wallet-1', { limit: 2 });
+
+      expect(ledgerQuery.orderBy).toHaveBeenCalledWith(
+        'entry.createdAt',
+        'DESC',
+      );
+      expect(ledgerQuery.addOrderBy).toHaveBeenCalledWith('entry.id', 'DESC');
+      expect(ledgerQuery.limit).toHaveBeenCalledWith(3);
+      expect(result.entries.map((e) => e.id)).toEqual([entryId(3), entryId(2)]);
+      expect(decodeCursor(result.nextCursor!, 2)).toEqual([
+        '2026-01-02 00:00:00.000002+00',
+        entryId(2),
+      ]);
+    });
+
+    it('should continue after the cursor and apply filters', async () => {
+      await service.getLedgerHistory('wallet-1', {
+        limit: 20,
+        cursor: encodeCursor(['2026-01-02T00:00:00.000002Z', entryId(2)]),
+        entryType: EntryType.CREDIT,
+        referenceId: 'order-7',
+        metadata: { channel: 'web' },
+      });
+
+      expect(ledgerQuery.andWhere).toHaveBeenCalledWith(
+        '(entry.createdAt, entry.id) < (CAST(:createdAt AS timestamptz), :id)',
+        { createdAt: '2026-01-02T00:00:00.000002Z', id: entryId(2) },
+      );
+      expect(ledgerQuery.andWhere).toHaveBeenCalledWith(
+        'entry.entryType = :entryType',
+        { entryType: EntryType.CREDIT },
+      );
+      expect(ledgerQuery.andWhere).toHaveBeenCalledWith(
+        'transaction.referenceId = :referenceId',
+        { referenceId: 'order-7' },
+      );
+      expect(ledgerQuery.andWhere).toHaveBeenCalledWith(
+        'transaction.metadata ->> :metadataKey0 = :metadataValue0',
+        { metadataKey0: 'channel', metadataValue0: 'web' },
       );
     });
+
+    it('should reject a repeated metadata key', async () => {
+      await expect(
+        service.getLedgerHistory('wallet-1', {
+          limit: 20,
+          metadata: { channel: ['web', 'app'] as any },
+        }),
+      ).rejects.toThrow('metadata.channel must be a single value');
+    });
+
+    it('should reject a cursor from another listing', async () => {
+      await expect(
+        service.getLedgerHistory('wallet-1', {
+          limit: 20,
+          cursor: encodeCursor(['2']),
+        }),
+      ).rejects.toThrow('Invalid cursor');
+    });
   });
 });
@@ -1,17 +1,45 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, LessThanOrEqual, Repository } from 'typeorm';
+import { isISO8601, isUUID } from 'class-validator';
 import { Wallet } from './entities/wallet.entity';
+import { WalletStatusChange } from './entities/wallet-status-change.entity';
+import { UpdateWalletStatusDto } from './dto/update-wallet-status.dto';
+import { ListLedgerEntriesQueryDto } from './dto/list-ledger-entries-query.dto';
 import { LedgerEntry } from '../transactions/entities/ledger-entry.entity';
-import { UserRole } from '../common/enums';
+import { User } from '../users/entities/user.entity';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
+import { UserRole, UserStatus, WalletStatus } from '../common/enums';
+import { normalizeAmount, toMinor } from '../common/utils/money';
+import { decodeCursor, encodeCursor } from '../common/utils/cursor';
+
+export interface HistoricalBalance {
+  walletId: string;
+  assetTypeCode: string;
+  at: Date;
+  balance: string;
+  /** Latest entry at or before `at`; null when the wallet had none yet */
+  ledgerEntryId: string | null;
+}
 
 @Injectable()
 export class WalletsService {
   constructor(
+    private readonly dataSource: DataSource,
     @InjectRepository(Wallet)
     private readonly walletRepo: Repository<Wallet>,
     @InjectRepository(LedgerEntry)
     private readonly ledgerEntryRepo: Repository<LedgerEntry>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    @InjectRepository(AssetType)
+    private readonly assetTypeRepo: Repository<AssetType>,
+    @InjectRepository(WalletStatusChange)
+    private readonly statusChangeRepo: Repository<WalletStatusChange>,
   ) {}
 
   async findUserWallet(userId: string, assetTypeCode: string): Promise<Wallet> {
@@ -30,6 +58,51 @@ export class WalletsService {
     return wallet;
   }
 
+  /**
+   * User wallets are created lazily, on the first credit in an asset. The
+   * empty wallet is committed on its own: it holds no balance, so it is
+   * harmless if the credit that triggered it fails.
+   */
+  async findOrCreateUserWallet(
+    userId: string,
+    assetTypeCode: string,
+  ): Promise<Wallet> {
+    try {
+      return await this.findUserWallet(userId, assetTypeCode);
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+    }
+
+    const [user, assetType] = await Promise.all([
+      this.userRepo.findOne({ where: { id: userId, role: UserRole.USER } }),
+      this.assetTypeRepo.findOne({ where: { code: assetTypeCode } }),
+    ]);
+    if (!user) {
+      throw new NotFoundException(`User with id ${userId} not found`);
+    }
+    if (user.status === UserStatus.CLOSED) {
+      throw new BadRequestException(`User ${userId} is CLOSED`);
+    }
+    if (!assetType) {
+      throw new NotFoundException(`Asset type "${assetTypeCode}" not found`);
+    }
+    if (!assetType.isActive) {
+      throw new BadRequestException(`Asset type ${assetTypeCode} is inactive`);
+    }
+
+    // A concurrent first credit may create the same wallet; either wins
+    await this.walletRepo
+      .createQueryBuilder()
+      .insert()
+      .into(Wallet)
+      .values({ userId, assetTypeId: assetType.id, balance: '0' })
+      .orIgnore()
+      .execute();
+    return this.findUserWallet(userId, assetTypeCode);
+  }
+
   async findSystemWallet(assetTypeCode: string): Promise<Wallet> {
     const wallet = await this.walletRepo.findOne({
       where: {
@@ -64,18 +137,208 @@ export class WalletsService {
     return wallet;
   }
 
-  async getLedgerHistory(
+  /**
+   * Change a wallet's status under its row lock, so the change serializes
+   * with in-flight transactions, and append it to the status history.
+   * CLOSED is terminal and requires an empty wallet.
+   */
+  async setStatus(
     walletId: string,
-    page: number = 1,
-    limit: number = 20,
-  ): Promise<{ entries: LedgerEntry[]; total: number }> {
-    const [entries, total] = await this.ledgerEntryRepo.findAndCount({
+    dto: UpdateWalletStatusDto,
+    apiClientId?: string,
+  ): Promise<Wallet> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('READ COMMITTED');
+
+    try {
+      const wallet = await queryRunner.manager
+        .getRepository(Wallet)
+        .createQueryBuilder('wallet')
+        .setLock('pessimistic_write')
+        .where('wallet.id = :id', { id: walletId })
+        .getOne();
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      if (wallet.status !== dto.status) {
+        if (wallet.status === WalletStatus.CLOSED) {
+          throw new BadRequestException(`Wallet ${walletId} is CLOSED`);
+        }
+        if (
+          dto.status === WalletStatus.CLOSED &&
+          (toMinor(wallet.balance) !== 0n || toMinor(wallet.heldAmount) !== 0n)
+        ) {
+          throw new BadRequestException(
+            `Cannot close wallet ${walletId}: balance is ${wallet.balance}, held ${wallet.heldAmount}`,
+          );
+        }
+        await queryRunner.manager.update(Wallet, wallet.id, {
+          status: dto.status,
+          statusReason: dto.reason,
+        });
+        await queryRunner.manager.save(
+          queryRunner.manager.create(WalletStatusChange, {
+            walletId: wallet.id,
+            fromStatus: wallet.status,
+            toStatus: dto.status,
+            reason: dto.reason,
+            apiClientId,
+          }),
+        );
+      }
+
+      await queryRunner.commitTransaction();
+      return this.getWalletById(walletId);
+    } catch (error) {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async getStatusHistory(walletId: string): Promise<WalletStatusChange[]> {
+    await this.getWalletById(walletId);
+    return this.statusChangeRepo.find({
       where: { walletId },
-      relations: ['transaction'],
       order: { createdAt: 'DESC' },
-      skip: (page - 1) * limit,
-      take: limit,
     });
-    return { entries, total };
+  }
+
+  /**
+   * The balance as of `at`, read from the balanceAfter of the last ledger
+   * entry written at or before that instant
+   */
+  async getBalanceAt(walletId: string, at: Date): Promise<HistoricalBalance> {
+    this.assertNotInFuture(at);
+    const wallet = await this.getWalletById(walletId);
+    return this.balanceAt(wallet, at);
+  }
+
+  /** Point-in-time balances of every wallet the user had at `at` */
+  async getUserBalancesAt(
+    userId: string,
+    at: Date,
+  ): Promise<HistoricalBalance[]> {
+    this.assertNotInFuture(at);
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User with id ${userId} not found`);
+    }
+    const wallets = await this.walletRepo.find({
+      where: { userId, createdAt: LessThanOrEqual(at) },
+      relations: ['assetType'],
+      order: { createdAt: 'ASC' },
+    });
+    return Promise.all(wallets.map((wallet) => this.balanceAt(wallet, at)));
+  }
+
+  /**
+   * Newest first, paged like transactions by a keyset cursor on
+   * (createdAt, id). referenceId and metadata match the entry's transaction.
+   */
+  async getLedgerHistory(
+    walletId: string,
+    query: ListLedgerEntriesQueryDto,
+  ): Promise<{ entries: LedgerEntry[]; nextCursor: string | null }> {
+    // Cursors carry createdAt as text so microseconds survive the round trip
+    const qb = this.ledgerEntryRepo
+      .createQueryBuilder('entry')
+      .leftJoinAndSelect('entry.transaction', 'transaction')
+      .addSelect('CAST(entry.createdAt AS text)', 'cursor_created_at')
+      .where('entry.walletId = :walletId', { walletId })
+      .orderBy('entry.createdAt', 'DESC')
+      .addOrderBy('entry.id', 'DESC')
+      .limit(query.limit + 1);
+
+    if (query.entryType) {
+      qb.andWhere('entry.entryType = :entryType', {
+        entryType: query.entryType,
+      });
+    }
+    if (query.minAmount) {
+      qb.andWhere('entry.amount >= :minAmount', {
+        minAmount: query.minAmount,
+      });
+    }
+    if (query.maxAmount) {
+      qb.andWhere('entry.amount <= :maxAmount', {
+        maxAmount: query.maxAmount,
+      });
+    }
+    if (query.from) {
+      qb.andWhere('entry.createdAt >= :from', { from: query.from });
+    }
+    if (query.to) {
+      qb.andWhere('entry.createdAt < :to', { to: query.to });
+    }
+    if (query.referenceId) {
+      qb.andWhere('transaction.referenceId = :referenceId', {
+        referenceId: query.referenceId,
+      });
+    }
+    Object.entries(query.metadata ?? {}).forEach(([key, value], i) => {
+      if (typeof value !== 'string') {
+        throw new BadRequestException(`metadata.${key} must be a single value`);
+      }
+      qb.andWhere(
+        `transaction.metadata ->> :metadataKey${i} = :metadataValue${i}`,
+        {
+          [`metadataKey${i}`]: key,
+          [`metadataValue${i}`]: value,
+        },
+      );
+    });
+    if (query.cursor) {
+      const [createdAt, id] = decodeCursor(query.cursor, 2);
+      if (!isISO8601(createdAt, { strict: true }) || !isUUID(id)) {
+        throw new BadRequestException('Invalid cursor');
+      }
+      qb.andWhere(
+        '(entry.createdAt, entry.id) < (CAST(:createdAt AS timestamptz), :id)',
+        { createdAt, id },
+      );
+    }
+
+    const { entities, raw } = await qb.getRawAndEntities<{
+      cursor_created_at: string;
+    }>();
+    const entries = entities.slice(0, query.limit);
+    const last = entries[entries.length - 1];
+    return {
+      entries,
+      nextCursor:
+        entities.length > query.limit
+          ? encodeCursor([raw[query.limit - 1].cursor_created_at, last.id])
+          : null,
+    };
+  }
+
+  private async balanceAt(
+    wallet: Wallet,
+    at: Date,
+  ): Promise<HistoricalBalance> {
+    const entry = await this.ledgerEntryRepo.findOne({
+      where: { walletId: wallet.id, createdAt: LessThanOrEqual(at) },
+      order: { sequence: 'DESC' },
+    });
+    return {
+      walletId: wallet.id,
+      assetTypeCode: wallet.assetType.code,
+      at,
+      balance: normalizeAmount(entry?.balanceAfter ?? 0),
+      ledgerEntryId: entry?.id ?? null,
+    };
+  }
+
+  /** Balances after now can still change, so they are not reported */
+  private assertNotInFuture(at: Date): void {
+    if (at.getTime() > Date.now()) {
+      throw new BadRequestException('at must not be in the future');
+    }
   }
 }
@@ -0,0 +1,13 @@
+import { IsArray, IsEnum, IsOptional, IsUrl } from 'class-validator';
+import { WalletEventType } from '../../common/enums';
+
+export class CreateWebhookEndpointDto {
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  url: string;
+
+  /** Omit or leave empty to receive every event type */
+  @IsArray()
+  @IsEnum(WalletEventType, { each: true })
+  @IsOptional()
+  eventTypes?: WalletEventType[];
+}
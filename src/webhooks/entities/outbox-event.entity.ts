@@ -0,0 +1,33 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { WalletEventType } from '../../common/enums';
+
+/**
+ * A domain event written in the same DB transaction as the change it
+ * describes, so it exists if and only if that change committed. The
+ * dispatcher fans it out to webhook deliveries.
+ */
+@Entity('outbox_events')
+@Index(['dispatchedAt', 'createdAt'])
+export class OutboxEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  type: WalletEventType;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, any>;
+
+  /** Set once deliveries have been created for every subscribed endpoint */
+  @Column({ name: 'dispatched_at', type: 'timestamptz', nullable: true })
+  dispatchedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { WebhookDeliveryStatus } from '../../common/enums';
+import { OutboxEvent } from './outbox-event.entity';
+import { WebhookEndpoint } from './webhook-endpoint.entity';
+
+/** One event bound for one endpoint, with its retry state */
+@Entity('webhook_deliveries')
+@Unique(['eventId', 'endpointId'])
+@Index(['status', 'nextAttemptAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => OutboxEvent)
+  @JoinColumn({ name: 'event_id' })
+  event: OutboxEvent;
+
+  @Column({ name: 'event_id' })
+  eventId: string;
+
+  @ManyToOne(() => WebhookEndpoint)
+  @JoinColumn({ name: 'endpoint_id' })
+  endpoint: WebhookEndpoint;
+
+  @Column({ name: 'endpoint_id' })
+  endpointId: string;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  /** Also pushed forward while an attempt is in flight, as a lease */
+  @Column({ name: 'next_attempt_at', type: 'timestamptz' })
+  nextAttemptAt: Date;
+
+  @Column({ name: 'last_status_code', type: 'int', nullable: true })
+  lastStatusCode: number | null;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ name: 'delivered_at', type: 'timestamptz', nullable: true })
+  deliveredAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
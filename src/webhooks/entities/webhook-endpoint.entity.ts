@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { WalletEventType } from '../../common/enums';
+
+@Entity('webhook_endpoints')
+export class WebhookEndpoint {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  url: string;
+
+  /**
+   * HMAC key for the X-Webhook-Signature header. Unlike API keys it must be
+   * stored in plaintext to sign with; it is only returned at registration.
+   */
+  @Column({ type: 'varchar', length: 100, select: false })
+  secret: string;
+
+  /** Event types to deliver; empty means all */
+  @Column({ name: 'event_types', type: 'jsonb', default: () => "'[]'" })
+  eventTypes: WalletEventType[];
+
+  @Column({ name: 'is_active', type: 'boolean', default: true })
+  isActive: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
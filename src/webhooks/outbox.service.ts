@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { OutboxEvent } from './entities/outbox-event.entity';
+import { Transaction } from '../transactions/entities/transaction.entity';
+import { TransactionBatch } from '../transactions/entities/transaction-batch.entity';
+import { Wallet } from '../wallets/entities/wallet.entity';
+import { AssetType } from '../asset-types/entities/asset-type.entity';
+import { WalletEventType } from '../common/enums';
+import { fromMinor, normalizeAmount, toMinor } from '../common/utils/money';
+
+/**
+ * Writes domain events through the caller's EntityManager, so they commit
+ * or roll back with the change they describe. Payload shapes for webhook
+ * consumers are defined here and nowhere else.
+ */
+@Injectable()
+export class OutboxService {
+  async transactionCompleted(
+    manager: EntityManager,
+    transaction: Transaction,
+  ): Promise<void> {
+    await this.record(
+      manager,
+      WalletEventType.TRANSACTION_COMPLETED,
+      this.transactionPayload(transaction),
+    );
+  }
+
+  async transactionFailed(
+    manager: EntityManager,
+    transaction: Transaction,
+  ): Promise<void> {
+    await this.record(manager, WalletEventType.TRANSACTION_FAILED, {
+      ...this.transactionPayload(transaction),
+      errorMessage: transaction.errorMessage,
+      errorStatus: transaction.errorStatus,
+    });
+  }
+
+  /** A failed batch has no member transactions, only the batch itself */
+  async batchFailed(
+    manager: EntityManager,
+    batch: TransactionBatch,
+  ): Promise<void> {
+    await this.record(manager, WalletEventType.TRANSACTION_FAILED, {
+      batchId: batch.id,
+      status: batch.status,
+      errorMessage: batch.errorMessage,
+      errorStatus: batch.errorStatus,
+    });
+  }
+
+  async balanceChanged(
+    manager: EntityManager,
+    wallet: Wallet,
+    previousBalance: string,
+    transactionId: string,
+  ): Promise<void> {
+    await this.record(manager, WalletEventType.WALLET_BALANCE_CHANGED, {
+      walletId: wallet.id,
+      userId: wallet.userId,
+      assetTypeId: wallet.assetTypeId,
+      transactionId,
+      previousBalance: normalizeAmount(previousBalance),
+      balance: wallet.balance,
+      delta: fromMinor(toMinor(wallet.balance) - toMinor(previousBalance)),
+    });
+  }
+
+  /** Circulating supply crossed the alert threshold of its asset's budget */
+  async issuanceBudgetAlert(
+    manager: EntityManager,
+    treasury: Wallet,
+    assetType: AssetType,
+    circulating: string,
+    transactionId: string,
+  ): Promise<void> {
+    await this.record(manager, WalletEventType.ISSUANCE_BUDGET_ALERT, {
+      assetTypeId: assetType.id,
+      assetTypeCode: assetType.code,
+      treasuryWalletId: treasury.id,
+      transactionId,
+      issuanceBudget: normalizeAmount(assetType.issuanceBudget!),
+      issuanceAlertPercent: assetType.issuanceAlertPercent,
+      circulating,
+    });
+  }
+
+  private async record(
+    manager: EntityManager,
+    type: WalletEventType,
+    payload: Record<string, any>,
+  ): Promise<void> {
+    await manager.save(manager.create(OutboxEvent, { type, payload }));
+  }
+
+  private transactionPayload(transaction: Transaction): Record<string, any> {
+    return {
+      transactionId: transaction.id,
+      type: transaction.type,
+      status: transaction.status,
+      amount: normalizeAmount(transaction.amount),
+      sourceWalletId: transaction.sourceWalletId ?? null,
+      destinationWalletId: transaction.destinationWalletId ?? null,
+      referenceId: transaction.referenceId ?? null,
+      originalTransactionId: transaction.originalTransactionId ?? null,
+      batchId: transaction.batchId ?? null,
+      holdId: transaction.holdId ?? null,
+      counterAmount:
+        transaction.counterAmount != null
+          ? normalizeAmount(transaction.counterAmount)
+          : null,
+      exchangeRateId: transaction.exchangeRateId ?? null,
+      promoAmount:
+        transaction.promoAmount != null
+          ? normalizeAmount(transaction.promoAmount)
+          : null,
+      paidAmount:
+        transaction.paidAmount != null
+          ? normalizeAmount(transaction.paidAmount)
+          : null,
+    };
+  }
+}
@@ -0,0 +1,207 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { createHmac } from 'crypto';
+import { WebhookDispatcher, retryDelayMs } from './webhook-dispatcher.service';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { OutboxEvent } from './entities/outbox-event.entity';
+import { signWebhook } from './webhook-signature';
+import { WalletEventType, WebhookDeliveryStatus } from '../common/enums';
+
+describe('WebhookDispatcher', () => {
+  let dispatcher: WebhookDispatcher;
+  let manager: any;
+  let lockedRows: jest.Mock;
+  let loadedDeliveries: jest.Mock;
+  let insertValues: jest.Mock;
+  let deliveryRepo: Record<string, jest.Mock>;
+  let fetchMock: jest.SpyInstance;
+
+  const event = {
+    id: 'event-1',
+    type: WalletEventType.TRANSACTION_COMPLETED,
+    payload: { transactionId: 'txn-1' },
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+  const endpoint = {
+    id: 'endpoint-1',
+    url: 'http://localhost:9999/hook',
+    secret: 'whsec_test',
+    eventTypes: [],
+    isActive: true,
+  };
+
+  const queryBuilder = (getMany: jest.Mock) => ({
+    setLock: jest.fn().mockReturnThis(),
+    setOnLocked: jest.fn().mockReturnThis(),
+    innerJoinAndSelect: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    getMany,
+  });
+
+  beforeEach(async () => {
+    lockedRows = jest.fn().mockResolvedValue([]);
+    loadedDeliveries = jest.fn().mockResolvedValue([]);
+    insertValues = jest.fn().mockReturnThis();
+    manager = {
+      find: jest.fn().mockResolvedValue([endpoint]),
+      update: jest.fn(),
+      getRepository: jest.fn().mockReturnValue({
+        createQueryBuilder: jest.fn(() => queryBuilder(lockedRows)),
+      }),
+      createQueryBuilder: jest.fn().mockReturnValue({
+        insert: jest.fn().mockReturnThis(),
+        into: jest.fn().mockReturnThis(),
+        values: insertValues,
+        orIgnore: jest.fn().mockReturnThis(),
+        execute: jest.fn(),
+      }),
+    };
+    deliveryRepo = {
+      update: jest.fn(),
+      createQueryBuilder: jest.fn(() => queryBuilder(loadedDeliveries)),
+    };
+    fetchMock = jest.spyOn(global, 'fetch');
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDispatcher,
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+        {
+          provide: getRepositoryToken(WebhookDelivery),
+          useValue: deliveryRepo,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'WEBHOOK_MAX_ATTEMPTS' ? '3' : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    dispatcher = module.get<WebhookDispatcher>(WebhookDispatcher);
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', 'whsec_test')
+      .update('1700000000.{"a":1}')
+      .digest('hex');
+    expect(signWebhook('whsec_test', 1700000000, '{"a":1}')).toBe(
+      `t=1700000000,v1=${expected}`,
+    );
+  });
+
+  it('should back off exponentially up to an hour', () => {
+    expect(retryDelayMs(1, 10_000)).toBe(10_000);
+    expect(retryDelayMs(3, 10_000)).toBe(40_000);
+    expect(retryDelayMs(20, 10_000)).toBe(60 * 60 * 1000);
+  });
+
+  describe('fanOut', () => {
+    it('should create a delivery per subscribed endpoint', async () => {
+      lockedRows.mockResolvedValue([event]);
+      manager.find.mockResolvedValue([
+        endpoint,
+        {
+          ...endpoint,
+          id: 'endpoint-2',
+          eventTypes: [WalletEventType.TRANSACTION_FAILED],
+        },
+      ]);
+
+      await expect(dispatcher.fanOut()).resolves.toBe(1);
+
+      expect(insertValues).toHaveBeenCalledWith([
+        expect.objectContaining({
+          eventId: 'event-1',
+          endpointId: 'endpoint-1',
+          status: WebhookDeliveryStatus.PENDING,
+        }),
+      ]);
+      expect(manager.update).toHaveBeenCalledWith(
+        OutboxEvent,
+        expect.anything(),
+        { dispatchedAt: expect.any(Date) },
+      );
+    });
+  });
+
+  describe('deliverDue', () => {
+    const pending = { id: 'delivery-1', attempts: 0, event, endpoint };
+
+    beforeEach(() => {
+      lockedRows.mockResolvedValue([{ id: 'delivery-1' }]);
+    });
+
+    it('should POST the signed event and mark it delivered', async () => {
+      loadedDeliveries.mockResolvedValue([pending]);
+      fetchMock.mockResolvedValue({ ok: true, status: 204 } as Response);
+
+      await expect(dispatcher.deliverDue()).resolves.toBe(1);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(endpoint.url);
+      expect(JSON.parse(init.body)).toMatchObject({
+        id: 'event-1',
+        type: 'transaction.completed',
+        data: { transactionId: 'txn-1' },
+      });
+      expect(init.headers['X-Webhook-Signature']).toMatch(/^t=\d+,v1=/);
+      expect(deliveryRepo.update).toHaveBeenCalledWith(
+        'delivery-1',
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.DELIVERED,
+          attempts: 1,
+        }),
+      );
+    });
+
+    it('should schedule a retry after a failed attempt', async () => {
+      loadedDeliveries.mockResolvedValue([pending]);
+      fetchMock.mockResolvedValue({ ok: false, status: 500 } as Response);
+
+      await dispatcher.deliverDue();
+
+      expect(deliveryRepo.update).toHaveBeenCalledWith(
+        'delivery-1',
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.PENDING,
+          attempts: 1,
+          lastStatusCode: 500,
+          lastError: 'HTTP 500',
+        }),
+      );
+    });
+
+    it('should dead-letter after the last attempt', async () => {
+      loadedDeliveries.mockResolvedValue([{ ...pending, attempts: 2 }]);
+      fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await dispatcher.deliverDue();
+
+      expect(deliveryRepo.update).toHaveBeenCalledWith(
+        'delivery-1',
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.DEAD,
+          attempts: 3,
+          lastError: 'connect ECONNREFUSED',
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, In, Repository } from 'typeorm';
+import { OutboxEvent } from './entities/outbox-event.entity';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookDeliveryStatus } from '../common/enums';
+import { SIGNATURE_HEADER, signWebhook } from './webhook-signature';
+
+const BATCH_SIZE = 100;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_RETRY_BASE_SECONDS = 10;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+/** How long a claimed delivery stays invisible to other dispatchers */
+const LEASE_MS = 2 * REQUEST_TIMEOUT_MS;
+
+/** Exponential backoff after the given (1-based) failed attempt */
+export function retryDelayMs(attempt: number, baseMs: number): number {
+  return Math.min(baseMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Moves outbox events to webhook endpoints in two steps: fan-out creates a
+ * delivery per subscribed endpoint, then due deliveries are POSTed. Rows
+ * are claimed with SKIP LOCKED, so several instances can run side by side.
+ * Delivery is at-least-once; receivers should dedupe on the event id.
+ */
+@Injectable()
+export class WebhookDispatcher {
+  private readonly logger = new Logger(WebhookDispatcher.name);
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepo: Repository<WebhookDelivery>,
+    configService: ConfigService,
+  ) {
+    this.maxAttempts =
+      Number(configService.get<string>('WEBHOOK_MAX_ATTEMPTS')) ||
+      DEFAULT_MAX_ATTEMPTS;
+    this.retryBaseMs =
+      (Number(configService.get<string>('WEBHOOK_RETRY_BASE_SECONDS')) ||
+        DEFAULT_RETRY_BASE_SECONDS) * 1000;
+  }
+
+  @Cron(CronExpression.EVERY_5_SECONDS)
+  async dispatch(): Promise<void> {
+    try {
+      await this.fanOut();
+      await this.deliverDue();
+    } catch (error) {
+      this.logger.error(
+        `Webhook dispatch failed: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  /**
+   * Create deliveries for undispatched events. Endpoints only receive
+   * events recorded after they were registered and still pending here.
+   */
+  async fanOut(): Promise<number> {
+    return this.dataSource.transaction(async (manager) => {
+      const events = await manager
+        .getRepository(OutboxEvent)
+        .createQueryBuilder('event')
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .where('event.dispatched_at IS NULL')
+        .orderBy('event.createdAt', 'ASC')
+        .limit(BATCH_SIZE)
+        .getMany();
+      if (events.length === 0) {
+        return 0;
+      }
+
+      const endpoints = await manager.find(WebhookEndpoint, {
+        where: { isActive: true },
+      });
+      const now = new Date();
+      const deliveries = events.flatMap((event) =>
+        endpoints
+          .filter(
+            (endpoint) =>
+              endpoint.eventTypes.length === 0 ||
+              endpoint.eventTypes.includes(event.type),
+          )
+          .map((endpoint) => ({
+            eventId: event.id,
+            endpointId: endpoint.id,
+            status: WebhookDeliveryStatus.PENDING,
+            nextAttemptAt: now,
+          })),
+      );
+      if (deliveries.length > 0) {
+        await manager
+          .createQueryBuilder()
+          .insert()
+          .into(WebhookDelivery)
+          .values(deliveries)
+          .orIgnore()
+          .execute();
+      }
+      await manager.update(
+        OutboxEvent,
+        { id: In(events.map((event) => event.id)) },
+        { dispatchedAt: now },
+      );
+      return events.length;
+    });
+  }
+
+  /** Attempt every due delivery once; returns how many succeeded */
+  async deliverDue(): Promise<number> {
+    const claimedIds = await this.dataSource.transaction(async (manager) => {
+      const due = await manager
+        .getRepository(WebhookDelivery)
+        .createQueryBuilder('delivery')
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .where('delivery.status = :status', {
+          status: WebhookDeliveryStatus.PENDING,
+        })
+        .andWhere('delivery.next_attempt_at <= now()')
+        .orderBy('delivery.next_attempt_at', 'ASC')
+        .limit(BATCH_SIZE)
+        .getMany();
+      const ids = due.map((delivery) => delivery.id);
+      if (ids.length > 0) {
+        await manager.update(
+          WebhookDelivery,
+          { id: In(ids) },
+          { nextAttemptAt: new Date(Date.now() + LEASE_MS) },
+        );
+      }
+      return ids;
+    });
+    if (claimedIds.length === 0) {
+      return 0;
+    }
+
+    const deliveries = await this.deliveryRepo
+      .createQueryBuilder('delivery')
+      .innerJoinAndSelect('delivery.event', 'event')
+      .innerJoinAndSelect('delivery.endpoint', 'endpoint')
+      .addSelect('endpoint.secret')
+      .where('delivery.id IN (:...ids)', { ids: claimedIds })
+      .getMany();
+
+    let delivered = 0;
+    for (const delivery of deliveries) {
+      if (await this.attempt(delivery)) {
+        delivered++;
+      }
+    }
+    return delivered;
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<boolean> {
+    const { event, endpoint } = delivery;
+    const attempts = delivery.attempts + 1;
+
+    if (!endpoint.isActive) {
+      await this.deliveryRepo.update(delivery.id, {
+        status: WebhookDeliveryStatus.DEAD,
+        lastError: 'Endpoint disabled',
+      });
+      return false;
+    }
+
+    const body = JSON.stringify({
+      id: event.id,
+      type: event.type,
+      createdAt: event.createdAt,
+      data: event.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let statusCode: number | null = null;
+    let failure: string | null = null;
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': event.id,
+          'X-Webhook-Event': event.type,
+          [SIGNATURE_HEADER]: signWebhook(endpoint.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        failure = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    if (failure === null) {
+      await this.deliveryRepo.update(delivery.id, {
+        status: WebhookDeliveryStatus.DELIVERED,
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: null,
+        deliveredAt: new Date(),
+      });
+      return true;
+    }
+
+    const dead = attempts >= this.maxAttempts;
+    await this.deliveryRepo.update(delivery.id, {
+      status: dead ? WebhookDeliveryStatus.DEAD : WebhookDeliveryStatus.PENDING,
+      attempts,
+      lastStatusCode: statusCode,
+      lastError: failure,
+      nextAttemptAt: new Date(
+        Date.now() + retryDelayMs(attempts, this.retryBaseMs),
+      ),
+    });
+    if (dead) {
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} dead after ${attempts} attempts: ${failure}`,
+      );
+    }
+    return false;
+  }
+}
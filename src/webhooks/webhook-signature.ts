@@ -0,0 +1,23 @@
+import { createHmac, randomBytes } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export function generateWebhookSecret(): string {
+  return 'whsec_' + randomBytes(24).toString('base64url');
+}
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Receivers should
+ * recompute it over the raw body and reject stale timestamps to stop
+ * replays.
+ */
+export function signWebhook(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
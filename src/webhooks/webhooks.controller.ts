@@ -0,0 +1,54 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  ParseIntPipe,
+  DefaultValuePipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiScope } from '../common/enums';
+
+@Controller('webhooks')
+@RequireScopes(ApiScope.WEBHOOKS_MANAGE)
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() dto: CreateWebhookEndpointDto) {
+    return this.webhooksService.create(dto);
+  }
+
+  @Get()
+  findAll() {
+    return this.webhooksService.findAll();
+  }
+
+  @Post(':id/disable')
+  @HttpCode(HttpStatus.OK)
+  disable(@Param('id', ParseUUIDPipe) id: string) {
+    return this.webhooksService.disable(id);
+  }
+
+  @Get('dead-letters')
+  findDeadLetters(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    return this.webhooksService.findDeadLetters(page, limit);
+  }
+
+  @Post('deliveries/:id/retry')
+  @HttpCode(HttpStatus.OK)
+  retry(@Param('id', ParseUUIDPipe) id: string) {
+    return this.webhooksService.retry(id);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OutboxEvent } from './entities/outbox-event.entity';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { OutboxService } from './outbox.service';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { WebhooksController } from './webhooks.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([OutboxEvent, WebhookEndpoint, WebhookDelivery]),
+  ],
+  controllers: [WebhooksController],
+  providers: [OutboxService, WebhooksService, WebhookDispatcher],
+  exports: [OutboxService, WebhookDispatcher],
+})
+export class WebhooksModule {}
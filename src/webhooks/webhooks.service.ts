@@ -0,0 +1,78 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { WebhookDeliveryStatus } from '../common/enums';
+import { generateWebhookSecret } from './webhook-signature';
+
+@Injectable()
+export class WebhooksService {
+  constructor(
+    @InjectRepository(WebhookEndpoint)
+    private readonly endpointRepo: Repository<WebhookEndpoint>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepo: Repository<WebhookDelivery>,
+  ) {}
+
+  /** Returns the signing secret once; it is never listed again */
+  async create(
+    dto: CreateWebhookEndpointDto,
+  ): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+    const secret = generateWebhookSecret();
+    const endpoint = await this.endpointRepo.save(
+      this.endpointRepo.create({
+        url: dto.url,
+        eventTypes: dto.eventTypes ?? [],
+        secret,
+      }),
+    );
+    delete (endpoint as Partial<WebhookEndpoint>).secret;
+    return { endpoint, secret };
+  }
+
+  async findAll(): Promise<WebhookEndpoint[]> {
+    return this.endpointRepo.find({ order: { createdAt: 'ASC' } });
+  }
+
+  /** Pending deliveries to a disabled endpoint are dead-lettered */
+  async disable(id: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.endpointRepo.findOne({ where: { id } });
+    if (!endpoint) {
+      throw new NotFoundException(`Webhook endpoint ${id} not found`);
+    }
+    endpoint.isActive = false;
+    return this.endpointRepo.save(endpoint);
+  }
+
+  /** Deliveries that exhausted their retries, most recent first */
+  async findDeadLetters(
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const [deliveries, total] = await this.deliveryRepo.findAndCount({
+      where: { status: WebhookDeliveryStatus.DEAD },
+      relations: ['event', 'endpoint'],
+      order: { updatedAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { deliveries, total };
+  }
+
+  /** Put a dead delivery back in the queue with a fresh set of attempts */
+  async retry(id: string): Promise<WebhookDelivery> {
+    const delivery = await this.deliveryRepo.findOne({ where: { id } });
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${id} not found`);
+    }
+    if (delivery.status === WebhookDeliveryStatus.DEAD) {
+      delivery.status = WebhookDeliveryStatus.PENDING;
+      delivery.attempts = 0;
+      delivery.nextAttemptAt = new Date();
+      await this.deliveryRepo.save(delivery);
+    }
+    return delivery;
+  }
+}
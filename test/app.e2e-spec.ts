@@ -2,14 +2,36 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { AppModule } from '../src/app.module';
-import { DataSource } from 'typeorm';
+import { DataSource, In } from 'typeorm';
+import { useContainer } from 'class-validator';
 import { User } from '../src/users/entities/user.entity';
 import { AssetType } from '../src/asset-types/entities/asset-type.entity';
 import { Wallet } from '../src/wallets/entities/wallet.entity';
 import { Transaction } from '../src/transactions/entities/transaction.entity';
 import { LedgerEntry } from '../src/transactions/entities/ledger-entry.entity';
-import { UserRole, TransactionType, TransactionStatus, EntryType } from '../src/common/enums';
+import { ApiClient } from '../src/api-clients/entities/api-client.entity';
+import {
+  generateApiKey,
+  hashApiKey,
+} from '../src/api-clients/api-clients.service';
+import {
+  ApiScope,
+  UserRole,
+  TransactionType,
+  TransactionStatus,
+  EntryType,
+  WalletEventType,
+} from '../src/common/enums';
 import { v4 as uuidv4 } from 'uuid';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebhookDispatcher } from '../src/webhooks/webhook-dispatcher.service';
+import { signWebhook } from '../src/webhooks/webhook-signature';
+import { ScheduledBonus } from '../src/schedules/entities/scheduled-bonus.entity';
+import { ScheduleRunner } from '../src/schedules/schedule-runner.service';
+import { CreditLot } from '../src/transactions/entities/credit-lot.entity';
+import { CreditLotsService } from '../src/transactions/credit-lots.service';
+import { OutboxEvent } from '../src/webhooks/entities/outbox-event.entity';
 
 describe('Wallet Service (e2e)', () => {
   let app: INestApplication;
@@ -18,6 +40,9 @@ describe('Wallet Service (e2e)', () => {
   let bob: User;
   let treasury: User;
   let goldCoins: AssetType;
+  let carol: User;
+  let apiKey: string;
+  let readOnlyKey: string;
 
   beforeAll(async () => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
@@ -26,6 +51,7 @@ describe('Wallet Service (e2e)', () => {
 
     app = moduleFixture.createNestApplication();
     app.setGlobalPrefix('api/v1');
+    useContainer(app.select(AppModule), { fallbackOnErrors: true });
     app.useGlobalPipes(
       new ValidationPipe({
         whitelist: true,
@@ -59,6 +85,15 @@ describe('Wallet Service (e2e)', () => {
       });
       goldCoins = await qr.manager.save(goldCoins);
 
+      const diamonds = await qr.manager.save(
+        qr.manager.create(AssetType, {
+          code: 'DIAMONDS',
+          name: 'Diamonds',
+          decimalPlaces: 0,
+          maxBalance: '1000',
+        }),
+      );
+
       // Users
       treasury = qr.manager.create(User, {
         username: 'treasury',
@@ -85,24 +120,60 @@ describe('Wallet Service (e2e)', () => {
       const treasuryWallet = qr.manager.create(Wallet, {
         userId: treasury.id,
         assetTypeId: goldCoins.id,
-        balance: 1000000,
+        balance: '1000000',
       });
       await qr.manager.save(treasuryWallet);
 
       const aliceWallet = qr.manager.create(Wallet, {
         userId: alice.id,
         assetTypeId: goldCoins.id,
-        balance: 1000,
+        balance: '1000',
       });
       await qr.manager.save(aliceWallet);
 
       const bobWallet = qr.manager.create(Wallet, {
         userId: bob.id,
         assetTypeId: goldCoins.id,
-        balance: 500,
+        balance: '500',
       });
       await qr.manager.save(bobWallet);
 
+      // Carol only holds the whole-unit, capped DIAMONDS asset
+      carol = await qr.manager.save(
+        qr.manager.create(User, {
+          username: 'carol',
+          email: 'carol@example.com',
+          role: UserRole.USER,
+        }),
+      );
+      await qr.manager.save(
+        qr.manager.create(Wallet, [
+          { userId: treasury.id, assetTypeId: diamonds.id, balance: '0' },
+          { userId: carol.id, assetTypeId: diamonds.id, balance: '900' },
+        ]),
+      );
+
+      // API clients
+      apiKey = generateApiKey();
+      await qr.manager.save(
+        qr.manager.create(ApiClient, {
+          name: 'e2e-admin',
+          scopes: Object.values(ApiScope),
+          keyPrefix: apiKey.slice(0, 10),
+          keyHash: hashApiKey(apiKey),
+        }),
+      );
+
+      readOnlyKey = generateApiKey();
+      await qr.manager.save(
+        qr.manager.create(ApiClient, {
+          name: 'e2e-support',
+          scopes: [ApiScope.WALLETS_READ, ApiScope.TRANSACTIONS_READ],
+          keyPrefix: readOnlyKey.slice(0, 10),
+          keyHash: hashApiKey(readOnlyKey),
+        }),
+      );
+
       await qr.commitTransaction();
     } catch (error) {
       await qr.rollbackTransaction();
@@ -112,10 +183,33 @@ describe('Wallet Service (e2e)', () => {
     }
   }
 
+  describe('API key authentication', () => {
+    it('should reject requests without an API key', async () => {
+      await request(app.getHttpServer()).get('/api/v1/users').expect(401);
+    });
+
+    it('should reject requests outside the client scopes', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/transactions/purchase')
+        .set('X-API-Key', readOnlyKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: alice.id, assetTypeCode: 'GOLD_COINS', amount: 1 })
+        .expect(403);
+    });
+
+    it('should allow requests within the client scopes', async () => {
+      await request(app.getHttpServer())
+        .get(`/api/v1/wallets/user/${alice.id}`)
+        .set('X-API-Key', readOnlyKey)
+        .expect(200);
+    });
+  });
+
   describe('GET /api/v1/users', () => {
     it('should return all users', async () => {
       const res = await request(app.getHttpServer())
         .get('/api/v1/users')
+        .set('X-API-Key', apiKey)
         .expect(200);
 
       expect(res.body).toBeInstanceOf(Array);
@@ -127,6 +221,7 @@ describe('Wallet Service (e2e)', () => {
     it('should return wallets for a user', async () => {
       const res = await request(app.getHttpServer())
         .get(`/api/v1/wallets/user/${alice.id}`)
+        .set('X-API-Key', apiKey)
         .expect(200);
 
       expect(res.body).toBeInstanceOf(Array);
@@ -139,6 +234,7 @@ describe('Wallet Service (e2e)', () => {
     it('should credit user wallet and debit treasury', async () => {
       const res = await request(app.getHttpServer())
         .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
         .set('Idempotency-Key', uuidv4())
         .send({
           userId: alice.id,
@@ -153,9 +249,42 @@ describe('Wallet Service (e2e)', () => {
       expect(res.body.ledgerEntries).toHaveLength(2);
     });
 
+    it('should keep decimal amounts exact and serialize them as strings', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          userId: alice.id,
+          assetTypeCode: 'GOLD_COINS',
+          amount: '0.0003',
+        })
+        .expect(201);
+
+      expect(res.body.amount).toBe('0.0003');
+      const credit = res.body.ledgerEntries.find(
+        (entry: { entryType: string }) => entry.entryType === 'CREDIT',
+      );
+      expect(credit.balanceAfter).toMatch(/\.0003$/);
+    });
+
+    it('should reject amounts with more than 4 decimal places', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          userId: alice.id,
+          assetTypeCode: 'GOLD_COINS',
+          amount: '1.00001',
+        })
+        .expect(400);
+    });
+
     it('should reject request without Idempotency-Key', async () => {
       await request(app.getHttpServer())
         .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
         .send({
           userId: alice.id,
           assetTypeCode: 'GOLD_COINS',
@@ -165,10 +294,34 @@ describe('Wallet Service (e2e)', () => {
     });
   });
 
+  describe('Asset limits', () => {
+    const topUpDiamonds = (amount: string) =>
+      request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: carol.id, assetTypeCode: 'DIAMONDS', amount });
+
+    it('should reject fractional amounts for whole-unit assets', async () => {
+      const res = await topUpDiamonds('1.5').expect(400);
+      expect(JSON.stringify(res.body)).toContain(
+        'Amount for DIAMONDS must be a whole number',
+      );
+    });
+
+    it('should reject credits above the wallet balance cap', async () => {
+      const res = await topUpDiamonds('101').expect(400);
+      expect(res.body.message).toContain('Balance limit exceeded');
+
+      await topUpDiamonds('100').expect(201);
+    });
+  });
+
   describe('POST /api/v1/transactions/bonus', () => {
     it('should issue bonus credits to user', async () => {
       const res = await request(app.getHttpServer())
         .post('/api/v1/transactions/bonus')
+        .set('X-API-Key', apiKey)
         .set('Idempotency-Key', uuidv4())
         .send({
           userId: bob.id,
@@ -187,6 +340,7 @@ describe('Wallet Service (e2e)', () => {
     it('should debit user wallet for purchase', async () => {
       const res = await request(app.getHttpServer())
         .post('/api/v1/transactions/purchase')
+        .set('X-API-Key', apiKey)
         .set('Idempotency-Key', uuidv4())
         .send({
           userId: alice.id,
@@ -202,6 +356,7 @@ describe('Wallet Service (e2e)', () => {
     it('should reject purchase when balance is insufficient', async () => {
       await request(app.getHttpServer())
         .post('/api/v1/transactions/purchase')
+        .set('X-API-Key', apiKey)
         .set('Idempotency-Key', uuidv4())
         .send({
           userId: bob.id,
@@ -212,7 +367,256 @@ describe('Wallet Service (e2e)', () => {
     });
   });
 
+  describe('POST /api/v1/transactions/transfer', () => {
+    it('should move credits from one user to another', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/transactions/transfer')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          fromUserId: alice.id,
+          toUserId: bob.id,
+          assetTypeCode: 'GOLD_COINS',
+          amount: 25,
+        })
+        .expect(201);
+
+      expect(res.body.status).toBe(TransactionStatus.COMPLETED);
+      expect(res.body.type).toBe(TransactionType.TRANSFER);
+      expect(res.body.ledgerEntries).toHaveLength(2);
+    });
+
+    it('should reject transfers to self', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/transactions/transfer')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          fromUserId: alice.id,
+          toUserId: alice.id,
+          assetTypeCode: 'GOLD_COINS',
+          amount: 25,
+        })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/v1/transactions/batch', () => {
+    const balanceOf = async (userId: string) => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/user/${userId}`)
+        .set('X-API-Key', apiKey);
+      return Number(res.body[0].balance);
+    };
+
+    it('should apply all operations atomically', async () => {
+      const bobBefore = await balanceOf(bob.id);
+
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/transactions/batch')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          operations: [
+            {
+              type: TransactionType.TOP_UP,
+              userId: bob.id,
+              assetTypeCode: 'GOLD_COINS',
+              amount: 40,
+            },
+            {
+              type: TransactionType.TRANSFER,
+              fromUserId: bob.id,
+              toUserId: alice.id,
+              assetTypeCode: 'GOLD_COINS',
+              amount: 15,
+            },
+          ],
+        })
+        .expect(201);
+
+      expect(res.body.status).toBe(TransactionStatus.COMPLETED);
+      expect(res.body.transactions).toHaveLength(2);
+      expect(await balanceOf(bob.id)).toBe(bobBefore + 25);
+    });
+
+    it('should leave balances untouched when any operation fails', async () => {
+      const bobBefore = await balanceOf(bob.id);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/transactions/batch')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          operations: [
+            {
+              type: TransactionType.BONUS,
+              userId: bob.id,
+              assetTypeCode: 'GOLD_COINS',
+              amount: 10,
+            },
+            {
+              type: TransactionType.PURCHASE,
+              userId: bob.id,
+              assetTypeCode: 'GOLD_COINS',
+              amount: 1000000,
+            },
+          ],
+        })
+        .expect(400);
+
+      expect(await balanceOf(bob.id)).toBe(bobBefore);
+    });
+  });
+
+  describe('Holds', () => {
+    const hold = (amount: number) =>
+      request(app.getHttpServer())
+        .post('/api/v1/transactions/holds')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: bob.id, assetTypeCode: 'GOLD_COINS', amount });
+
+    const bobWallet = async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/user/${bob.id}`)
+        .set('X-API-Key', apiKey);
+      return res.body[0];
+    };
+
+    it('should reserve funds, capture part and release the rest', async () => {
+      const before = await bobWallet();
+      const res = await hold(100).expect(201);
+      expect(res.body.status).toBe('ACTIVE');
+
+      const held = await bobWallet();
+      expect(Number(held.balance)).toBe(Number(before.balance));
+      expect(Number(held.availableBalance)).toBe(
+        Number(before.availableBalance) - 100,
+      );
+
+      // Reserved funds cannot be spent by a regular purchase
+      await request(app.getHttpServer())
+        .post('/api/v1/transactions/purchase')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          userId: bob.id,
+          assetTypeCode: 'GOLD_COINS',
+          amount: String(Number(held.availableBalance) + 1),
+        })
+        .expect(400);
+
+      const capture = await request(app.getHttpServer())
+        .post(`/api/v1/transactions/holds/${res.body.id}/capture`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ amount: 60 })
+        .expect(201);
+      expect(capture.body.type).toBe(TransactionType.PURCHASE);
+      expect(capture.body.holdId).toBe(res.body.id);
+
+      const after = await bobWallet();
+      expect(Number(after.balance)).toBe(Number(before.balance) - 60);
+      expect(Number(after.heldAmount)).toBe(Number(before.heldAmount));
+    });
+
+    it('should release voided holds', async () => {
+      const before = await bobWallet();
+      const res = await hold(30).expect(201);
+
+      const voided = await request(app.getHttpServer())
+        .post(`/api/v1/transactions/holds/${res.body.id}/void`)
+        .set('X-API-Key', apiKey)
+        .expect(200);
+      expect(voided.body.status).toBe('VOIDED');
+      expect((await bobWallet()).availableBalance).toBe(
+        before.availableBalance,
+      );
+
+      await request(app.getHttpServer())
+        .post(`/api/v1/transactions/holds/${res.body.id}/capture`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({})
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/v1/transactions/:id/reverse', () => {
+    it('should partially then fully refund a purchase', async () => {
+      const purchase = await request(app.getHttpServer())
+        .post('/api/v1/transactions/purchase')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: alice.id, assetTypeCode: 'GOLD_COINS', amount: 100 })
+        .expect(201);
+
+      const partial = await request(app.getHttpServer())
+        .post(`/api/v1/transactions/${purchase.body.id}/reverse`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ amount: 40, reason: 'disputed' })
+        .expect(201);
+
+      expect(partial.body.type).toBe(TransactionType.REFUND);
+      expect(partial.body.originalTransactionId).toBe(purchase.body.id);
+
+      await request(app.getHttpServer())
+        .post(`/api/v1/transactions/${purchase.body.id}/reverse`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ amount: 61 })
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .post(`/api/v1/transactions/${purchase.body.id}/reverse`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({})
+        .expect(201);
+
+      const original = await request(app.getHttpServer())
+        .get(`/api/v1/transactions/${purchase.body.id}`)
+        .set('X-API-Key', apiKey)
+        .expect(200);
+
+      expect(original.body.status).toBe(TransactionStatus.REVERSED);
+      expect(Number(original.body.reversedAmount)).toBe(100);
+    });
+  });
+
   describe('Idempotency', () => {
+    it('should replay a recorded business failure', async () => {
+      const key = uuidv4();
+      const payload = {
+        userId: bob.id,
+        assetTypeCode: 'GOLD_COINS',
+        amount: 999999,
+      };
+
+      const first = await request(app.getHttpServer())
+        .post('/api/v1/transactions/purchase')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', key)
+        .send(payload)
+        .expect(400);
+
+      const replay = await request(app.getHttpServer())
+        .post('/api/v1/transactions/purchase')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', key)
+        .send(payload)
+        .expect(400);
+
+      expect(replay.body.message).toBe(first.body.message);
+
+      const failed = await dataSource
+        .getRepository(Transaction)
+        .findOneBy({ idempotencyKey: key });
+      expect(failed?.status).toBe(TransactionStatus.FAILED);
+    });
+
     it('should return same result for duplicate idempotency key', async () => {
       const key = uuidv4();
       const payload = {
@@ -223,18 +627,38 @@ describe('Wallet Service (e2e)', () => {
 
       const first = await request(app.getHttpServer())
         .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
         .set('Idempotency-Key', key)
         .send(payload)
         .expect(201);
 
       const second = await request(app.getHttpServer())
         .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
         .set('Idempotency-Key', key)
         .send(payload);
 
       // Second request should return the same transaction
       expect(first.body.id).toBe(second.body.id);
     });
+
+    it('should reject reuse of a key with a different payload', async () => {
+      const key = uuidv4();
+
+      await request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', key)
+        .send({ userId: alice.id, assetTypeCode: 'GOLD_COINS', amount: 10 })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', key)
+        .send({ userId: alice.id, assetTypeCode: 'GOLD_COINS', amount: 20 })
+        .expect(422);
+    });
   });
 
   describe('Concurrency', () => {
@@ -243,6 +667,7 @@ describe('Wallet Service (e2e)', () => {
       // Only those with sufficient balance should succeed.
       const walletsBefore = await request(app.getHttpServer())
         .get(`/api/v1/wallets/user/${bob.id}`)
+        .set('X-API-Key', apiKey)
         .expect(200);
 
       const currentBalance = Number(walletsBefore.body[0].balance);
@@ -253,6 +678,7 @@ describe('Wallet Service (e2e)', () => {
       const promises = [
         request(app.getHttpServer())
           .post('/api/v1/transactions/purchase')
+          .set('X-API-Key', apiKey)
           .set('Idempotency-Key', uuidv4())
           .send({
             userId: bob.id,
@@ -261,6 +687,7 @@ describe('Wallet Service (e2e)', () => {
           }),
         request(app.getHttpServer())
           .post('/api/v1/transactions/purchase')
+          .set('X-API-Key', apiKey)
           .set('Idempotency-Key', uuidv4())
           .send({
             userId: bob.id,
@@ -279,21 +706,155 @@ describe('Wallet Service (e2e)', () => {
   });
 
   describe('GET /api/v1/transactions', () => {
-    it('should list transactions with pagination', async () => {
-      const res = await request(app.getHttpServer())
-        .get('/api/v1/transactions?page=1&limit=5')
-        .expect(200);
+    const list = (query: Record<string, any>) =>
+      request(app.getHttpServer())
+        .get('/api/v1/transactions')
+        .query(query)
+        .set('X-API-Key', apiKey);
+
+    it('should walk every page with a cursor, newest first', async () => {
+      const seen: any[] = [];
+      let cursor: string | undefined;
+      do {
+        const res = await list({ userId: alice.id, limit: 3, cursor }).expect(
+          200,
+        );
+        expect(res.body.transactions.length).toBeLessThanOrEqual(3);
+        seen.push(...res.body.transactions);
+        cursor = res.body.nextCursor ?? undefined;
+      } while (cursor);
+
+      const ids = seen.map((t) => t.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      const times = seen.map((t) => new Date(t.createdAt).getTime());
+      expect(times).toEqual([...times].sort((a, b) => b - a));
 
-      expect(res.body.transactions).toBeInstanceOf(Array);
-      expect(typeof res.body.total).toBe('number');
+      const all = await list({ userId: alice.id, limit: 100 }).expect(200);
+      expect(ids).toEqual(all.body.transactions.map((t: any) => t.id));
     });
 
-    it('should filter transactions by userId', async () => {
-      const res = await request(app.getHttpServer())
-        .get(`/api/v1/transactions?userId=${alice.id}`)
+    it('should filter by reference, metadata, status, asset and amount', async () => {
+      const referenceId = `ref-${uuidv4()}`;
+      const topUp = await request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          userId: alice.id,
+          assetTypeCode: 'GOLD_COINS',
+          amount: '12.5',
+          referenceId,
+          metadata: { campaign: 'spring', orderId: 77 },
+        })
+        .expect(201);
+
+      const byReference = await list({ referenceId }).expect(200);
+      expect(byReference.body.transactions.map((t: any) => t.id)).toEqual([
+        topUp.body.id,
+      ]);
+
+      const byMetadata = await list({
+        'metadata[campaign]': 'spring',
+        'metadata[orderId]': '77',
+        status: 'COMPLETED',
+        assetTypeCode: 'GOLD_COINS',
+        minAmount: '12.5',
+        maxAmount: '12.5',
+      }).expect(200);
+      expect(byMetadata.body.transactions.map((t: any) => t.id)).toContain(
+        topUp.body.id,
+      );
+
+      const otherAsset = await list({
+        referenceId,
+        assetTypeCode: 'DIAMONDS',
+      }).expect(200);
+      expect(otherAsset.body.transactions).toEqual([]);
+
+      const failed = await list({ status: 'FAILED', limit: 100 }).expect(200);
+      expect(
+        failed.body.transactions.every((t: any) => t.status === 'FAILED'),
+      ).toBe(true);
+    });
+
+    it('should filter by date range', async () => {
+      const res = await list({
+        from: new Date(Date.now() + 60_000).toISOString(),
+      }).expect(200);
+      expect(res.body).toEqual({ transactions: [], nextCursor: null });
+    });
+
+    it('should reject bad cursors and oversized pages', async () => {
+      await list({ cursor: 'garbage' }).expect(400);
+      await list({ limit: 101 }).expect(400);
+      await list({ page: 2 }).expect(400);
+    });
+  });
+
+  describe('GET /api/v1/wallets/:walletId/ledger', () => {
+    it('should page ledger entries by cursor', async () => {
+      const wallets = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/user/${alice.id}`)
+        .set('X-API-Key', apiKey)
         .expect(200);
+      const walletId = wallets.body[0].id;
+      const ledger = (query: Record<string, any>) =>
+        request(app.getHttpServer())
+          .get(`/api/v1/wallets/${walletId}/ledger`)
+          .query(query)
+          .set('X-API-Key', apiKey)
+          .expect(200);
+
+      const first = await ledger({ limit: 2 });
+      expect(first.body.entries).toHaveLength(2);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+
+      const second = await ledger({ limit: 2, cursor: first.body.nextCursor });
+      const paged = [...first.body.entries, ...second.body.entries];
+      const ids = paged.map((e: any) => e.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      const times = paged.map((e: any) => new Date(e.createdAt).getTime());
+      expect(times).toEqual([...times].sort((a, b) => b - a));
+      const all = await ledger({ limit: 4 });
+      expect(ids).toEqual(all.body.entries.map((e: any) => e.id));
+
+      const credits = await ledger({ entryType: 'CREDIT', limit: 100 });
+      expect(
+        credits.body.entries.every((e: any) => e.entryType === 'CREDIT'),
+      ).toBe(true);
+    });
+
+    it('should filter by the transaction reference and metadata', async () => {
+      const referenceId = `ref-${uuidv4()}`;
+      const topUp = await request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          userId: alice.id,
+          assetTypeCode: 'GOLD_COINS',
+          amount: '3',
+          referenceId,
+          metadata: { campaign: 'ledger-filter' },
+        })
+        .expect(201);
+      const ledger = (query: Record<string, any>) =>
+        request(app.getHttpServer())
+          .get(`/api/v1/wallets/${topUp.body.destinationWalletId}/ledger`)
+          .query(query)
+          .set('X-API-Key', apiKey);
 
-      expect(res.body.transactions).toBeInstanceOf(Array);
+      const byReference = await ledger({ referenceId }).expect(200);
+      expect(byReference.body.entries.map((e: any) => e.transactionId)).toEqual(
+        [topUp.body.id],
+      );
+      const byMetadata = await ledger({
+        'metadata[campaign]': 'ledger-filter',
+      }).expect(200);
+      expect(byMetadata.body.entries.map((e: any) => e.transactionId)).toEqual([
+        topUp.body.id,
+      ]);
+      await ledger({ cursor: 'garbage' }).expect(400);
     });
   });
 
@@ -301,10 +862,1214 @@ describe('Wallet Service (e2e)', () => {
     it('should return all asset types', async () => {
       const res = await request(app.getHttpServer())
         .get('/api/v1/asset-types')
+        .set('X-API-Key', apiKey)
         .expect(200);
 
       expect(res.body).toBeInstanceOf(Array);
       expect(res.body.length).toBeGreaterThanOrEqual(1);
     });
   });
+
+  describe('Asset type administration', () => {
+    const topUpTokens = () =>
+      request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          userId: carol.id,
+          assetTypeCode: 'SEASON_TOKENS',
+          amount: '5',
+        });
+
+    it('should launch a new asset that can be issued straight away', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/asset-types')
+        .set('X-API-Key', apiKey)
+        .send({
+          code: 'SEASON_TOKENS',
+          name: 'Season Tokens',
+          decimalPlaces: 0,
+        })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/asset-types')
+        .set('X-API-Key', apiKey)
+        .send({ code: 'SEASON_TOKENS', name: 'Duplicate' })
+        .expect(409);
+
+      // Carol has no SEASON_TOKENS wallet yet; the first credit creates it
+      await topUpTokens().expect(201);
+      const wallets = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/user/${carol.id}`)
+        .set('X-API-Key', apiKey)
+        .expect(200);
+      const tokens = wallets.body.find(
+        (w: any) => w.assetType.code === 'SEASON_TOKENS',
+      );
+      expect(tokens.balance).toBe('5.0000');
+    });
+
+    it('should update limits and reject operations once deactivated', async () => {
+      const updated = await request(app.getHttpServer())
+        .patch('/api/v1/asset-types/SEASON_TOKENS')
+        .set('X-API-Key', apiKey)
+        .send({ maxBalance: '1000' })
+        .expect(200);
+      expect(updated.body.maxBalance).toBe('1000.0000');
+
+      // Only limits can be removed with null
+      for (const body of [{ name: null }, { decimalPlaces: null }]) {
+        await request(app.getHttpServer())
+          .patch('/api/v1/asset-types/SEASON_TOKENS')
+          .set('X-API-Key', apiKey)
+          .send(body)
+          .expect(400);
+      }
+
+      await request(app.getHttpServer())
+        .post('/api/v1/asset-types/SEASON_TOKENS/deactivate')
+        .set('X-API-Key', apiKey)
+        .expect(200);
+      const res = await topUpTokens().expect(400);
+      expect(JSON.stringify(res.body)).toContain('is inactive');
+    });
+
+    it('should require the manage scope', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/asset-types')
+        .set('X-API-Key', readOnlyKey)
+        .send({ code: 'NOPE', name: 'Nope' })
+        .expect(403);
+    });
+  });
+
+  describe('User lifecycle', () => {
+    let dave: any;
+
+    const send = (
+      path: string,
+      body: Record<string, any> = {},
+      idempotent = false,
+    ) => {
+      const req = request(app.getHttpServer())
+        .post(`/api/v1/${path}`)
+        .set('X-API-Key', apiKey);
+      if (idempotent) {
+        req.set('Idempotency-Key', uuidv4());
+      }
+      return req.send(body);
+    };
+    const gold = (amount: string) => ({
+      userId: dave.id,
+      assetTypeCode: 'GOLD_COINS',
+      amount,
+    });
+
+    it('should register a user with a wallet per active asset', async () => {
+      const res = await send('users', {
+        username: 'dave',
+        email: 'dave@example.com',
+      }).expect(201);
+      dave = res.body;
+
+      expect(dave.status).toBe('ACTIVE');
+      const codes = dave.wallets.map((w: any) => w.assetType.code).sort();
+      expect(codes).toEqual(['DIAMONDS', 'GOLD_COINS']);
+
+      await send('users', {
+        username: 'dave',
+        email: 'other@example.com',
+      }).expect(409);
+    });
+
+    it('should reject null for fields that cannot be cleared', async () => {
+      for (const body of [{ username: null }, { email: null }]) {
+        await request(app.getHttpServer())
+          .patch(`/api/v1/users/${dave.id}`)
+          .set('X-API-Key', apiKey)
+          .send(body)
+          .expect(400);
+      }
+    });
+
+    it('should block spending while suspended', async () => {
+      await send('transactions/top-up', gold('25'), true).expect(201);
+      await send(`users/${dave.id}/suspend`).expect(200);
+
+      const res = await send('transactions/purchase', gold('5'), true)
+        .expect(400);
+      expect(res.body.message).toContain('SUSPENDED');
+
+      await send(`users/${dave.id}/reactivate`).expect(200);
+      await send('transactions/purchase', gold('5'), true).expect(201);
+    });
+
+    it('should require empty wallets or a sweep to close', async () => {
+      const rejected = await send(`users/${dave.id}/close`).expect(400);
+      expect(rejected.body.message).toContain('GOLD_COINS balance is 20.0000');
+
+      const closed = await send(`users/${dave.id}/close`, { sweep: true })
+        .expect(200);
+      expect(closed.body.status).toBe('CLOSED');
+      const goldWallet = closed.body.wallets.find(
+        (w: any) => w.assetType.code === 'GOLD_COINS',
+      );
+      expect(goldWallet.balance).toBe('0.0000');
+
+      await send('transactions/top-up', gold('1'), true).expect(400);
+    });
+  });
+
+  describe('Wallet status controls', () => {
+    let erin: any;
+    let walletId: string;
+
+    const move = (type: 'top-up' | 'purchase') =>
+      request(app.getHttpServer())
+        .post(`/api/v1/transactions/${type}`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: erin.id, assetTypeCode: 'GOLD_COINS', amount: '5' });
+    const setStatus = (status: string) =>
+      request(app.getHttpServer())
+        .patch(`/api/v1/wallets/${walletId}/status`)
+        .set('X-API-Key', apiKey)
+        .send({ status, reason: 'fraud case 42' });
+
+    beforeAll(async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/users')
+        .set('X-API-Key', apiKey)
+        .send({ username: 'erin', email: 'erin@example.com' })
+        .expect(201);
+      erin = res.body;
+      walletId = erin.wallets.find(
+        (w: any) => w.assetType.code === 'GOLD_COINS',
+      ).id;
+      await move('top-up').expect(201);
+    });
+
+    it('should stop spending but allow credits when debit-frozen', async () => {
+      const res = await setStatus('FROZEN_DEBIT').expect(200);
+      expect(res.body.statusReason).toBe('fraud case 42');
+
+      const rejected = await move('purchase').expect(400);
+      expect(rejected.body.message).toContain('FROZEN_DEBIT');
+      await move('top-up').expect(201);
+    });
+
+    it('should stop credits too when fully frozen', async () => {
+      await setStatus('FROZEN_ALL').expect(200);
+      await move('top-up').expect(400);
+    });
+
+    it('should keep an audit trail and refuse to close a funded wallet', async () => {
+      await setStatus('CLOSED').expect(400);
+      await setStatus('ACTIVE').expect(200);
+      await move('purchase').expect(201);
+
+      const history = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/${walletId}/status-history`)
+        .set('X-API-Key', apiKey)
+        .expect(200);
+      expect(history.body.map((c: any) => c.toStatus)).toEqual([
+        'ACTIVE',
+        'FROZEN_ALL',
+        'FROZEN_DEBIT',
+      ]);
+    });
+  });
+  describe('Webhooks', () => {
+    let receiver: Server;
+    let received: { headers: IncomingHttpHeaders; body: string }[];
+    let secret: string;
+
+    beforeAll(async () => {
+      received = [];
+      receiver = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.writeHead(204).end();
+        });
+      });
+      await new Promise<void>((resolve) => receiver.listen(0, resolve));
+      const { port } = receiver.address() as AddressInfo;
+
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/webhooks')
+        .set('X-API-Key', apiKey)
+        .send({ url: `http://127.0.0.1:${port}/hooks` })
+        .expect(201);
+      secret = res.body.secret;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => receiver.close(resolve));
+    });
+
+    it('should deliver signed events for a committed transaction', async () => {
+      const topUp = await request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: bob.id, assetTypeCode: 'GOLD_COINS', amount: '7' })
+        .expect(201);
+
+      const dispatcher = app.get(WebhookDispatcher);
+      await dispatcher.fanOut();
+      await dispatcher.deliverDue();
+
+      const events = received
+        .map(({ headers, body }) => ({ headers, event: JSON.parse(body) }))
+        .filter(
+          ({ event }) => event.data.transactionId === topUp.body.id,
+        );
+      const types = events.map(({ event }) => event.type).sort();
+      expect(types).toEqual([
+        'transaction.completed',
+        'wallet.balance_changed',
+        'wallet.balance_changed',
+      ]);
+
+      const { headers } = events[0];
+      const raw = received.find(
+        (r) => r.headers['x-webhook-id'] === headers['x-webhook-id'],
+      )!.body;
+      const timestamp = Number(
+        /t=(\d+)/.exec(headers['x-webhook-signature'] as string)![1],
+      );
+      expect(headers['x-webhook-signature']).toBe(
+        signWebhook(secret, timestamp, raw),
+      );
+    });
+
+    it('should not emit events for a rolled-back transaction', async () => {
+      const purchase = await request(app.getHttpServer())
+        .post('/api/v1/transactions/purchase')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: bob.id, assetTypeCode: 'GOLD_COINS', amount: '999999' })
+        .expect(400);
+      expect(purchase.body.message).toContain('Insufficient balance');
+
+      const dispatcher = app.get(WebhookDispatcher);
+      await dispatcher.fanOut();
+      await dispatcher.deliverDue();
+
+      const types = received
+        .map(({ body }) => JSON.parse(body))
+        .filter((event) => event.data.errorMessage?.includes('999999.0000'))
+        .map((event) => event.type);
+      expect(types).toEqual(['transaction.failed']);
+    });
+  });
+
+  describe('Point-in-time balances', () => {
+    let frank: any;
+    let goldWalletId: string;
+    let beforeFirstCredit: Date;
+    let afterFirstCredit: Date;
+
+    const pause = () => new Promise((resolve) => setTimeout(resolve, 50));
+    const topUp = (amount: string) =>
+      request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: frank.id, assetTypeCode: 'GOLD_COINS', amount })
+        .expect(201);
+
+    beforeAll(async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/users')
+        .set('X-API-Key', apiKey)
+        .send({ username: 'frank', email: 'frank@example.com' })
+        .expect(201);
+      frank = res.body;
+      goldWalletId = frank.wallets.find(
+        (w: any) => w.assetType.code === 'GOLD_COINS',
+      ).id;
+
+      await pause();
+      beforeFirstCredit = new Date();
+      await pause();
+      await topUp('50');
+      await pause();
+      afterFirstCredit = new Date();
+      await pause();
+      await topUp('25');
+    });
+
+    it('should return a wallet balance as of a past instant', async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/${goldWalletId}/balance`)
+        .query({ at: afterFirstCredit.toISOString() })
+        .set('X-API-Key', readOnlyKey)
+        .expect(200);
+
+      expect(res.body.balance).toBe('50.0000');
+      expect(res.body.assetTypeCode).toBe('GOLD_COINS');
+    });
+
+    it('should return zero before the first ledger entry', async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/${goldWalletId}/balance`)
+        .query({ at: beforeFirstCredit.toISOString() })
+        .set('X-API-Key', readOnlyKey)
+        .expect(200);
+
+      expect(res.body.balance).toBe('0.0000');
+      expect(res.body.ledgerEntryId).toBeNull();
+    });
+
+    it('should return every wallet of a user as of an instant', async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/user/${frank.id}/balances`)
+        .query({ at: new Date().toISOString() })
+        .set('X-API-Key', readOnlyKey)
+        .expect(200);
+
+      const gold = res.body.find((b: any) => b.assetTypeCode === 'GOLD_COINS');
+      expect(gold.balance).toBe('75.0000');
+      expect(res.body.length).toBe(frank.wallets.length);
+    });
+
+    it('should export a wallet statement as CSV', async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/statements/wallets/${goldWalletId}`)
+        .query({ from: beforeFirstCredit.toISOString() })
+        .set('X-API-Key', readOnlyKey)
+        .expect(200)
+        .expect('Content-Type', /text\/csv/)
+        .expect('Content-Disposition', /attachment/);
+
+      const rows = res.text
+        .trim()
+        .split('\r\n')
+        .map((line: string) => line.split(','));
+      const [header, ...records] = rows;
+      const balance = header.indexOf('balanceAfter');
+      expect(records.map((r: string[]) => [r[0], r[balance]])).toEqual([
+        ['opening_balance', '0.0000'],
+        ['entry', '50.0000'],
+        ['entry', '75.0000'],
+        ['closing_balance', '75.0000'],
+      ]);
+    });
+
+    it('should export a user statement as NDJSON', async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/statements/users/${frank.id}`)
+        .query({ format: 'ndjson', from: afterFirstCredit.toISOString() })
+        .set('X-API-Key', readOnlyKey)
+        .buffer(true)
+        .parse((response, callback) => {
+          let text = '';
+          response.on('data', (chunk: Buffer) => (text += chunk));
+          response.on('end', () => callback(null, text));
+        })
+        .expect(200)
+        .expect('Content-Type', /application\/x-ndjson/);
+
+      const records = (res.body as string)
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      const gold = records.filter((r) => r.assetTypeCode === 'GOLD_COINS');
+      expect(gold.map((r) => [r.record, r.balanceAfter])).toEqual([
+        ['opening_balance', '50.0000'],
+        ['entry', '75.0000'],
+        ['closing_balance', '75.0000'],
+      ]);
+      expect(
+        records.filter((r) => r.record === 'opening_balance'),
+      ).toHaveLength(frank.wallets.length);
+    });
+
+    it('should reject an unknown statement format', async () => {
+      await request(app.getHttpServer())
+        .get(`/api/v1/statements/wallets/${goldWalletId}`)
+        .query({ format: 'xlsx' })
+        .set('X-API-Key', readOnlyKey)
+        .expect(400);
+    });
+
+    it('should reject missing, malformed and future timestamps', async () => {
+      const url = `/api/v1/wallets/${goldWalletId}/balance`;
+      await request(app.getHttpServer())
+        .get(url)
+        .set('X-API-Key', readOnlyKey)
+        .expect(400);
+      await request(app.getHttpServer())
+        .get(url)
+        .query({ at: 'yesterday' })
+        .set('X-API-Key', readOnlyKey)
+        .expect(400);
+      await request(app.getHttpServer())
+        .get(url)
+        .query({ at: new Date(Date.now() + 3_600_000).toISOString() })
+        .set('X-API-Key', readOnlyKey)
+        .expect(400);
+    });
+
+    it('should stamp entries in ledger order when they wait on a lock', async () => {
+      // Concurrent top-ups queue on the treasury lock after they start
+      await Promise.all(Array.from({ length: 5 }, () => topUp('1')));
+
+      const entries = await dataSource.getRepository(LedgerEntry).find({
+        where: { walletId: goldWalletId },
+        order: { sequence: 'ASC' },
+      });
+      const stamps = entries.map((entry) => entry.createdAt.getTime());
+      expect(stamps).toEqual([...stamps].sort((a, b) => a - b));
+    });
+  });
+
+  describe('Scheduled bonuses', () => {
+    let grace: any;
+    let scheduleId: string;
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    const goldBalance = async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/user/${grace.id}`)
+        .set('X-API-Key', readOnlyKey)
+        .expect(200);
+      return res.body.find((w: any) => w.assetType.code === 'GOLD_COINS')
+        .balance;
+    };
+    const bonusCount = () =>
+      dataSource.getRepository(Transaction).count({
+        where: {
+          type: TransactionType.BONUS,
+          destinationWallet: { userId: grace.id },
+        },
+      });
+    const rewind = (nextRunAt: Date) =>
+      dataSource
+        .getRepository(ScheduledBonus)
+        .update(scheduleId, { nextRunAt });
+
+    beforeAll(async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/users')
+        .set('X-API-Key', apiKey)
+        .send({ username: 'grace', email: 'grace@example.com' })
+        .expect(201);
+      grace = res.body;
+    });
+
+    it('should require the schedules:manage scope', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/schedules')
+        .set('X-API-Key', readOnlyKey)
+        .expect(403);
+    });
+
+    it('should create a daily schedule', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/schedules')
+        .set('X-API-Key', apiKey)
+        .send({
+          userId: grace.id,
+          assetTypeCode: 'GOLD_COINS',
+          amount: '5',
+          interval: 'DAILY',
+          catchUpPolicy: 'ALL',
+          metadata: { campaign: 'daily-login' },
+        })
+        .expect(201);
+
+      scheduleId = res.body.id;
+      expect(res.body.status).toBe('ACTIVE');
+      expect(res.body.nextRunAt).toBe(res.body.startAt);
+    });
+
+    it('should issue each occurrence exactly once', async () => {
+      const runner = app.get(ScheduleRunner);
+      await runner.runDue();
+      await runner.runDue();
+
+      expect(parseFloat(await goldBalance())).toBe(5);
+      const schedule = await request(app.getHttpServer())
+        .get(`/api/v1/schedules/${scheduleId}`)
+        .set('X-API-Key', apiKey)
+        .expect(200);
+      expect(schedule.body.runCount).toBe(1);
+      expect(
+        new Date(schedule.body.nextRunAt).getTime() -
+          new Date(schedule.body.startAt).getTime(),
+      ).toBe(DAY_MS);
+
+      const listed = await request(app.getHttpServer())
+        .get('/api/v1/transactions')
+        .query({ 'metadata[scheduleId]': scheduleId })
+        .set('X-API-Key', readOnlyKey)
+        .expect(200);
+      expect(listed.body.transactions).toHaveLength(1);
+      expect(listed.body.transactions[0].metadata.campaign).toBe(
+        'daily-login',
+      );
+    });
+
+    it('should replay an occurrence that already ran instead of paying twice', async () => {
+      const schedule = await dataSource
+        .getRepository(ScheduledBonus)
+        .findOneByOrFail({ id: scheduleId });
+      // As if the process died before the schedule advanced
+      await rewind(schedule.startAt);
+
+      await app.get(ScheduleRunner).runDue();
+
+      expect(parseFloat(await goldBalance())).toBe(5);
+      expect(await bonusCount()).toBe(1);
+    });
+
+    it('should catch up on occurrences missed during downtime', async () => {
+      const schedule = await dataSource
+        .getRepository(ScheduledBonus)
+        .findOneByOrFail({ id: scheduleId });
+      // Two days of downtime before the first run: both missed occurrences
+      // pay, and the one that already ran replays
+      await rewind(new Date(schedule.startAt.getTime() - 2 * DAY_MS));
+
+      await app.get(ScheduleRunner).runDue();
+
+      expect(parseFloat(await goldBalance())).toBe(15);
+      expect(await bonusCount()).toBe(3);
+    });
+
+    it('should skip occurrences that fall due while paused', async () => {
+      await request(app.getHttpServer())
+        .post(`/api/v1/schedules/${scheduleId}/pause`)
+        .set('X-API-Key', apiKey)
+        .expect(200);
+      await rewind(new Date(Date.now() - DAY_MS - 1000));
+      await app.get(ScheduleRunner).runDue();
+      expect(parseFloat(await goldBalance())).toBe(15);
+
+      const res = await request(app.getHttpServer())
+        .post(`/api/v1/schedules/${scheduleId}/resume`)
+        .set('X-API-Key', apiKey)
+        .expect(200);
+      expect(res.body.status).toBe('ACTIVE');
+      expect(res.body.skippedCount).toBe(2);
+      expect(new Date(res.body.nextRunAt).getTime()).toBeGreaterThan(
+        Date.now(),
+      );
+    });
+
+    it('should cancel a schedule', async () => {
+      const res = await request(app.getHttpServer())
+        .delete(`/api/v1/schedules/${scheduleId}`)
+        .set('X-API-Key', apiKey)
+        .expect(200);
+      expect(res.body.status).toBe('CANCELLED');
+      expect(res.body.nextRunAt).toBeNull();
+
+      await request(app.getHttpServer())
+        .post(`/api/v1/schedules/${scheduleId}/resume`)
+        .set('X-API-Key', apiKey)
+        .expect(400);
+    });
+
+    it('should reject a start date in the past', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/schedules')
+        .set('X-API-Key', apiKey)
+        .send({
+          userId: grace.id,
+          assetTypeCode: 'GOLD_COINS',
+          amount: '5',
+          startAt: '2020-01-01T00:00:00Z',
+        })
+        .expect(400);
+    });
+  });
+
+  describe('Currency exchange', () => {
+    let heidi: any;
+
+    const balances = async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/user/${heidi.id}`)
+        .set('X-API-Key', readOnlyKey)
+        .expect(200);
+      return Object.fromEntries(
+        res.body.map((w: any) => [w.assetType.code, parseFloat(w.balance)]),
+      );
+    };
+    const exchange = (body: Record<string, any>) =>
+      request(app.getHttpServer())
+        .post('/api/v1/transactions/exchange')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          userId: heidi.id,
+          fromAssetTypeCode: 'GOLD_COINS',
+          toAssetTypeCode: 'DIAMONDS',
+          ...body,
+        });
+
+    beforeAll(async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/users')
+        .set('X-API-Key', apiKey)
+        .send({ username: 'heidi', email: 'heidi@example.com' })
+        .expect(201);
+      heidi = res.body;
+
+      await request(app.getHttpServer())
+        .post('/api/v1/transactions/top-up')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: heidi.id, assetTypeCode: 'GOLD_COINS', amount: '100' })
+        .expect(201);
+    });
+
+    it('should return 404 for a pair without a rate', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/exchange-rates/GOLD_COINS/DIAMONDS')
+        .set('X-API-Key', apiKey)
+        .expect(404);
+      await exchange({ amount: '10' }).expect(404);
+    });
+
+    it('should version every rate change', async () => {
+      const first = await request(app.getHttpServer())
+        .post('/api/v1/exchange-rates')
+        .set('X-API-Key', apiKey)
+        .send({
+          fromAssetTypeCode: 'GOLD_COINS',
+          toAssetTypeCode: 'DIAMONDS',
+          rate: '0.1',
+        })
+        .expect(201);
+      expect(first.body.version).toBe(1);
+
+      const second = await request(app.getHttpServer())
+        .post('/api/v1/exchange-rates')
+        .set('X-API-Key', apiKey)
+        .send({
+          fromAssetTypeCode: 'GOLD_COINS',
+          toAssetTypeCode: 'DIAMONDS',
+          rate: '0.1',
+          spreadBps: 1000,
+        })
+        .expect(201);
+      expect(second.body.version).toBe(2);
+
+      const history = await request(app.getHttpServer())
+        .get('/api/v1/exchange-rates/GOLD_COINS/DIAMONDS/history')
+        .set('X-API-Key', apiKey)
+        .expect(200);
+      expect(history.body).toHaveLength(2);
+    });
+
+    it('should reject a quote on a superseded rate', async () => {
+      await exchange({ amount: '10', rateVersion: 1 }).expect(400);
+      expect(await balances()).toEqual(
+        expect.objectContaining({ GOLD_COINS: 100, DIAMONDS: 0 }),
+      );
+    });
+
+    it('should convert at the current rate less the spread', async () => {
+      const res = await exchange({ amount: '50', rateVersion: 2 }).expect(201);
+
+      expect(res.body.type).toBe(TransactionType.EXCHANGE);
+      // 50 × 0.1 = 5, less 10% = 4.5, truncated to whole diamonds
+      expect(Number(res.body.counterAmount)).toBe(4);
+      expect(await balances()).toEqual(
+        expect.objectContaining({ GOLD_COINS: 50, DIAMONDS: 4 }),
+      );
+
+      const entries = await dataSource
+        .getRepository(LedgerEntry)
+        .count({ where: { transactionId: res.body.id } });
+      expect(entries).toBe(4);
+    });
+
+    it('should reject amounts that convert to nothing', async () => {
+      await exchange({ amount: '5' }).expect(400);
+    });
+
+    it('should reject spending more than the balance', async () => {
+      await exchange({ amount: '500' }).expect(400);
+      expect(await balances()).toEqual(
+        expect.objectContaining({ GOLD_COINS: 50, DIAMONDS: 4 }),
+      );
+    });
+
+    it('should not reverse an exchange', async () => {
+      const [transaction] = await dataSource.getRepository(Transaction).find({
+        where: { type: TransactionType.EXCHANGE },
+      });
+
+      await request(app.getHttpServer())
+        .post(`/api/v1/transactions/${transaction.id}/reverse`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({})
+        .expect(400);
+    });
+
+    it('should require the transactions:exchange scope', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/transactions/exchange')
+        .set('X-API-Key', readOnlyKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          userId: heidi.id,
+          fromAssetTypeCode: 'GOLD_COINS',
+          toAssetTypeCode: 'DIAMONDS',
+          amount: '10',
+        })
+        .expect(403);
+    });
+  });
+
+  describe('Expiring credits', () => {
+    let ivan: any;
+    let walletId: string;
+
+    const post = (path: string, body: Record<string, any>) =>
+      request(app.getHttpServer())
+        .post(`/api/v1/transactions/${path}`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: ivan.id, assetTypeCode: 'GOLD_COINS', ...body });
+    const lots = async () =>
+      (
+        await request(app.getHttpServer())
+          .get(`/api/v1/wallets/${walletId}/credit-lots`)
+          .set('X-API-Key', readOnlyKey)
+          .expect(200)
+      ).body;
+
+    beforeAll(async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/users')
+        .set('X-API-Key', apiKey)
+        .send({ username: 'ivan', email: 'ivan@example.com' })
+        .expect(201);
+      ivan = res.body;
+      walletId = res.body.wallets.find(
+        (w: any) => w.assetType.code === 'GOLD_COINS',
+      ).id;
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await post('bonus', {
+        amount: '30',
+        expiresAt: '2020-01-01T00:00:00Z',
+      }).expect(400);
+    });
+
+    it('should spend expiring credits before the rest of the balance', async () => {
+      await post('top-up', { amount: '100' }).expect(201);
+      await post('bonus', {
+        amount: '30',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      }).expect(201);
+
+      await post('purchase', { amount: '20' }).expect(201);
+
+      const [lot] = await lots();
+      expect(Number(lot.amount)).toBe(30);
+      expect(Number(lot.remainingAmount)).toBe(10);
+    });
+
+    it('should not let overdue credits be spent before the sweep', async () => {
+      const [lot] = await lots();
+      await dataSource
+        .getRepository(CreditLot)
+        .update(lot.id, { expiresAt: new Date(Date.now() - 1000) });
+
+      await post('purchase', { amount: '101' }).expect(400);
+    });
+
+    it('should debit what is left back to the treasury on expiry', async () => {
+      await app.get(CreditLotsService).expireDue();
+
+      const [lot] = await lots();
+      expect(Number(lot.remainingAmount)).toBe(0);
+      expect(Number(lot.expiredAmount)).toBe(10);
+
+      const expiry = await request(app.getHttpServer())
+        .get(`/api/v1/transactions/${lot.expiryTransactionId}`)
+        .set('X-API-Key', readOnlyKey)
+        .expect(200);
+      expect(expiry.body.type).toBe(TransactionType.EXPIRY);
+      expect(Number(expiry.body.amount)).toBe(10);
+
+      const wallet = await request(app.getHttpServer())
+        .get(`/api/v1/wallets/${walletId}`)
+        .set('X-API-Key', readOnlyKey)
+        .expect(200);
+      expect(Number(wallet.body.balance)).toBe(100);
+
+      // Sweeping again finds nothing left
+      await expect(app.get(CreditLotsService).expireDue()).resolves.toBe(0);
+    });
+
+    it('should carry the expiry over when the credits are transferred', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      await post('bonus', {
+        amount: '20',
+        expiresAt: expiresAt.toISOString(),
+      }).expect(201);
+
+      const transfer = await request(app.getHttpServer())
+        .post('/api/v1/transactions/transfer')
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({
+          fromUserId: ivan.id,
+          toUserId: bob.id,
+          assetTypeCode: 'GOLD_COINS',
+          amount: '20',
+        })
+        .expect(201);
+
+      const carried = await dataSource
+        .getRepository(CreditLot)
+        .findOneByOrFail({ transactionId: transfer.body.id });
+      expect(Number(carried.remainingAmount)).toBe(20);
+      expect(carried.expiresAt.getTime()).toBe(expiresAt.getTime());
+      expect(carried.walletId).toBe(transfer.body.destinationWalletId);
+    });
+  });
+
+  describe('Promotional currency', () => {
+    let judy: any;
+    let walletId: string;
+
+    const post = (path: string, body: Record<string, any>) =>
+      request(app.getHttpServer())
+        .post(`/api/v1/transactions/${path}`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send(body);
+    const wallet = async () =>
+      (
+        await request(app.getHttpServer())
+          .get(`/api/v1/wallets/${walletId}`)
+          .set('X-API-Key', readOnlyKey)
+          .expect(200)
+      ).body;
+
+    beforeAll(async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/users')
+        .set('X-API-Key', apiKey)
+        .send({ username: 'judy', email: 'judy@example.com' })
+        .expect(201);
+      judy = res.body;
+      walletId = res.body.wallets.find(
+        (w: any) => w.assetType.code === 'GOLD_COINS',
+      ).id;
+    });
+
+    it('should keep bonus credits apart from paid ones', async () => {
+      const funds = { userId: judy.id, assetTypeCode: 'GOLD_COINS' };
+      await post('top-up', { ...funds, amount: '100' }).expect(201);
+      await post('bonus', { ...funds, amount: '30' }).expect(201);
+
+      const { balance, promoBalance, paidBalance } = await wallet();
+      expect(Number(balance)).toBe(130);
+      expect(Number(promoBalance)).toBe(30);
+      expect(Number(paidBalance)).toBe(100);
+    });
+
+    it('should spend promotional funds first and record the split', async () => {
+      const purchase = await post('purchase', {
+        userId: judy.id,
+        assetTypeCode: 'GOLD_COINS',
+        amount: '50',
+      }).expect(201);
+
+      expect(Number(purchase.body.promoAmount)).toBe(30);
+      expect(Number(purchase.body.paidAmount)).toBe(20);
+      const { promoBalance, paidBalance } = await wallet();
+      expect(Number(promoBalance)).toBe(0);
+      expect(Number(paidBalance)).toBe(80);
+
+      // A refund gives back paid funds before promotional ones
+      const refund = await post(`${purchase.body.id}/reverse`, {
+        amount: '25',
+      }).expect(201);
+      expect(Number(refund.body.promoAmount)).toBe(5);
+      expect(Number(refund.body.paidAmount)).toBe(20);
+      expect(Number((await wallet()).promoBalance)).toBe(5);
+    });
+  });
+
+  describe('Velocity limits', () => {
+    let kate: any;
+
+    const post = (path: string, amount: string, key = uuidv4()) =>
+      request(app.getHttpServer())
+        .post(`/api/v1/transactions/${path}`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', key)
+        .send({ userId: kate.id, assetTypeCode: 'RAFFLE_TICKETS', amount });
+
+    beforeAll(async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/asset-types')
+        .set('X-API-Key', apiKey)
+        .send({
+          code: 'RAFFLE_TICKETS',
+          name: 'Raffle Tickets',
+          maxDailySpend: '50',
+          maxWeeklySpend: '80',
+          maxDailyBonus: '30',
+          maxDailyIssuance: '500',
+        })
+        .expect(201);
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/users')
+        .set('X-API-Key', apiKey)
+        .send({ username: 'kate', email: 'kate@example.com' })
+        .expect(201);
+      kate = res.body;
+    });
+
+    it('should reject a daily spend limit above the weekly one', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/v1/asset-types/RAFFLE_TICKETS')
+        .set('X-API-Key', apiKey)
+        .send({ maxDailySpend: '100' })
+        .expect(400);
+    });
+
+    it('should cap the bonuses one user receives per day', async () => {
+      await post('bonus', '20').expect(201);
+
+      const key = uuidv4();
+      const res = await post('bonus', '20', key).expect(429);
+      expect(res.body.message).toBe(
+        'Daily bonus limit exceeded for RAFFLE_TICKETS. Limit: 30.0000, Used: 20.0000, Requested: 20.0000',
+      );
+
+      // Nothing is recorded under the key, so a retry is evaluated afresh
+      const recorded = await dataSource
+        .getRepository(Transaction)
+        .countBy({ idempotencyKey: key });
+      expect(recorded).toBe(0);
+      await post('bonus', '20', key).expect(429);
+    });
+
+    it('should cap what a user spends per day', async () => {
+      await post('top-up', '100').expect(201);
+      await post('purchase', '40').expect(201);
+
+      const res = await post('purchase', '20').expect(429);
+      expect(res.body.message).toContain('Daily spend limit exceeded');
+    });
+
+    it('should cap what the treasury issues per day', async () => {
+      // 120 issued so far
+      const res = await post('top-up', '400').expect(429);
+      expect(res.body.message).toContain('Daily issuance limit exceeded');
+
+      await post('top-up', '380').expect(201);
+    });
+  });
+
+  describe('Issuance budgets and supply', () => {
+    let leo: any;
+
+    const post = (path: string, amount: string) =>
+      request(app.getHttpServer())
+        .post(`/api/v1/transactions/${path}`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ userId: leo.id, assetTypeCode: 'STARDUST', amount });
+
+    const supply = (query: string, key = apiKey) =>
+      request(app.getHttpServer())
+        .get(`/api/v1/admin/supply?${query}`)
+        .set('X-API-Key', key);
+
+    beforeAll(async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/asset-types')
+        .set('X-API-Key', apiKey)
+        .send({
+          code: 'STARDUST',
+          name: 'Stardust',
+          issuanceBudget: '1000',
+          issuanceAlertPercent: 80,
+        })
+        .expect(201);
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/users')
+        .set('X-API-Key', apiKey)
+        .send({ username: 'leo', email: 'leo@example.com' })
+        .expect(201);
+      leo = res.body;
+    });
+
+    it('should alert once circulation crosses the threshold', async () => {
+      await post('top-up', '700').expect(201);
+      await post('bonus', '200').expect(201);
+
+      const alerts = await dataSource.getRepository(OutboxEvent).find({
+        where: { type: WalletEventType.ISSUANCE_BUDGET_ALERT },
+      });
+      const stardust = alerts.filter(
+        (event) => event.payload.assetTypeCode === 'STARDUST',
+      );
+      expect(stardust).toHaveLength(1);
+      expect(stardust[0].payload.circulating).toBe('900.0000');
+    });
+
+    it('should reject issuance past the budget', async () => {
+      const res = await post('top-up', '200').expect(400);
+      expect(res.body.message).toBe(
+        'Issuance budget exceeded for STARDUST. Budget: 1000.0000, Circulating: 900.0000, Requested: 200.0000',
+      );
+    });
+
+    it('should make room in the budget as funds are spent', async () => {
+      const purchase = await post('purchase', '150').expect(201);
+      await post('top-up', '200').expect(201);
+      await request(app.getHttpServer())
+        .post(`/api/v1/transactions/${purchase.body.id}/reverse`)
+        .set('X-API-Key', apiKey)
+        .set('Idempotency-Key', uuidv4())
+        .send({ amount: '50' })
+        .expect(201);
+    });
+
+    it('should require the admin:read scope', async () => {
+      await supply('assetTypeCode=STARDUST', readOnlyKey).expect(403);
+    });
+
+    it('should report supply flows that reconcile with circulation', async () => {
+      const res = await supply('assetTypeCode=STARDUST&interval=day').expect(
+        200,
+      );
+
+      expect(res.body.interval).toBe('day');
+      expect(res.body.assets).toHaveLength(1);
+      const [stardust] = res.body.assets;
+      expect(stardust).toMatchObject({
+        assetTypeCode: 'STARDUST',
+        issuanceBudget: '1000.0000',
+        openingCirculating: '0.0000',
+        minted: '1100.0000',
+        burned: '150.0000',
+        exchanged: '0.0000',
+        reversed: '50.0000',
+        reclaimed: '0.0000',
+        circulating: '1000.0000',
+      });
+      expect(stardust.periods).toHaveLength(1);
+      expect(stardust.periods[0].circulating).toBe('1000.0000');
+    });
+
+    it('should reject an unknown interval or asset type', async () => {
+      await supply('interval=hour').expect(400);
+      await supply('assetTypeCode=NOPE').expect(404);
+    });
+  });
+
+  describe('Ledger integrity', () => {
+    it('should require the admin:read scope', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/admin/integrity')
+        .set('X-API-Key', readOnlyKey)
+        .expect(403);
+    });
+
+    it('should find the books balanced', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/admin/integrity')
+        .set('X-API-Key', apiKey)
+        .expect(200);
+
+      expect(res.body.unbalancedTransactions).toEqual([]);
+      expect(res.body.assetImbalances).toEqual([]);
+    });
+
+    it('should flag only the wallets funded outside the ledger', async () => {
+      // The fixtures above insert opening balances without ledger entries
+      const fixtureWallets = await dataSource.getRepository(Wallet).find({
+        where: { userId: In([treasury.id, alice.id, bob.id, carol.id]) },
+      });
+      const aliceGold = fixtureWallets.find(
+        (w) => w.userId === alice.id && w.assetTypeId === goldCoins.id,
+      )!;
+
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/admin/integrity')
+        .set('X-API-Key', apiKey)
+        .expect(200);
+
+      expect(res.body.ok).toBe(false);
+      const flagged = res.body.walletMismatches.map((m: any) => m.walletId);
+      expect(flagged).toContain(aliceGold.id);
+      const fixtureIds = fixtureWallets.map((w) => w.id);
+      expect(flagged.every((id: string) => fixtureIds.includes(id))).toBe(
+        true,
+      );
+
+      const alicesMismatch = res.body.walletMismatches.find(
+        (m: any) => m.walletId === aliceGold.id,
+      );
+      expect(
+        Number(alicesMismatch.balance) -
+          Number(alicesMismatch.replayedBalance),
+      ).toBe(1000);
+      // The entries themselves are consistent with the opening balance
+      expect(alicesMismatch.latestBalanceAfter).toBe(alicesMismatch.balance);
+    });
+
+    it('should verify the ledger hash chains', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/admin/integrity/ledger-chain')
+        .set('X-API-Key', apiKey)
+        .expect(200);
+
+      expect(res.body.ok).toBe(true);
+      expect(res.body.entriesChecked).toBeGreaterThan(0);
+    });
+
+    it('should detect a ledger entry edited with raw SQL', async () => {
+      const [entry] = await dataSource.query(
+        `SELECT e.id, e.wallet_id AS "walletId"
+           FROM ledger_entries e
+           JOIN wallets w ON w.id = e.wallet_id
+          WHERE w.user_id = $1
+          ORDER BY e.sequence
+          LIMIT 1`,
+        [bob.id],
+      );
+      // Bypasses the entity's @BeforeUpdate guard
+      await dataSource.query(
+        'UPDATE ledger_entries SET amount = amount + 1 WHERE id = $1',
+        [entry.id],
+      );
+
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/admin/integrity/ledger-chain')
+        .query({ walletId: entry.walletId })
+        .set('X-API-Key', apiKey)
+        .expect(200);
+
+      expect(res.body.ok).toBe(false);
+      expect(res.body.breaks).toEqual([
+        expect.objectContaining({
+          entryId: entry.id,
+          reason: 'HASH_MISMATCH',
+        }),
+      ]);
+    });
+  });
 });